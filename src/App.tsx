@@ -15,6 +15,9 @@ import RideDetailsPage from '@/pages/RideDetailsPage'
 import PaymentPage from '@/pages/PaymentPage'
 import MyRidesPage from '@/pages/MyRidesPage'
 import SearchPage from '@/pages/SearchPage'
+import UserProfilePage from '@/pages/UserProfilePage'
+import AdminPayoutsPage from '@/pages/AdminPayoutsPage'
+import AdminPaymentEventsPage from '@/pages/AdminPaymentEventsPage'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -85,6 +88,7 @@ function AppRoutes() {
         <Route path="/" element={<HomePage />} />
         <Route path="/search" element={<SearchPage />} />
         <Route path="/rides/:id" element={<RideDetailsPage />} />
+        <Route path="/users/:id" element={<UserProfilePage />} />
 
         {/* PROTECTED routes - require login */}
         <Route
@@ -119,6 +123,22 @@ function AppRoutes() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/payouts"
+          element={
+            <ProtectedRoute>
+              <AdminPayoutsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/payments"
+          element={
+            <ProtectedRoute>
+              <AdminPaymentEventsPage />
+            </ProtectedRoute>
+          }
+        />
 
         {/* Church-specific landing pages - must be after all static routes */}
         {/* Routes: /watoto, /worshipharvest, /holycity, /miraclecenter, /phaneroo */}
@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { parsePhoneNumber } from '@shared/phone'
+import type { DriverWallet as Wallet, LedgerEntryType, LedgerLine, PayoutRequest, PayoutStatus, RequestPayoutResult } from '@/types'
+import { Wallet as WalletIcon, ShieldCheck } from 'lucide-react'
+
+interface DriverWalletProps {
+  userId: string
+  className?: string
+}
+
+const ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  booking_fee: 'Booking fee',
+  refund: 'Refund',
+  forfeiture: 'Late cancellation fee',
+  refund_paid: 'Refund sent',
+  payout: 'Payout',
+  refund_reversed: 'Refund reversed',
+  forfeiture_reversed: 'Cancellation fee reversed',
+  fare_collected: 'Fare paid',
+  fare_settled: 'Ride fare',
+  fare_refund: 'Fare refunded',
+  fare_refund_reversed: 'Fare refund reversed',
+  promo_discount: 'Promo discount',
+}
+
+const PAYOUT_LABELS: Record<PayoutStatus, string> = {
+  requested: 'Waiting for approval',
+  approved: 'Sending',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled',
+  paid: 'Paid',
+  failed: 'Failed',
+}
+
+// A driver's wallet: fares paid in the app, forfeited cancellation fees and other earnings, paid out
+// on request to a verified mobile money number once an admin approves
+export function DriverWallet({ userId, className }: DriverWalletProps) {
+  const { toast } = useToast()
+  const [wallet, setWallet] = useState<Wallet | null>(null)
+  const [history, setHistory] = useState<LedgerLine[]>([])
+  const [payouts, setPayouts] = useState<PayoutRequest[]>([])
+  const [isDriver, setIsDriver] = useState(false)
+  const [amount, setAmount] = useState('')
+  const [phone, setPhone] = useState('')
+  const [code, setCode] = useState('')
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  // Bumped after every change so everything is fetched again
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchWallet = async () => {
+      const [walletResult, accountResult, payoutsResult, ridesResult] = await Promise.all([
+        supabase.rpc('driver_wallet'),
+        supabase.from('ledger_accounts').select('id').eq('user_id', userId).eq('account_type', 'driver').maybeSingle(),
+        supabase.from('payout_requests').select('*').eq('driver_id', userId).order('created_at', { ascending: false }).limit(10),
+        supabase.from('rides').select('id', { count: 'exact', head: true }).eq('driver_id', userId),
+      ])
+
+      let lines: LedgerLine[] = []
+      if (accountResult.data) {
+        // The wallet is in UGX; earnings in other markets wait until payouts open there
+        const { data } = await supabase
+          .from('ledger_lines')
+          .select('*, entry:ledger_entries!inner(entry_type, description, booking_id, currency)')
+          .eq('account_id', accountResult.data.id)
+          .eq('entry.currency', 'UGX')
+          .order('created_at', { ascending: false })
+          .limit(20)
+        lines = (data as LedgerLine[]) || []
+      }
+
+      if (cancelled) return
+      setWallet(walletResult.data as Wallet | null)
+      setPayouts((payoutsResult.data as PayoutRequest[]) || [])
+      setHistory(lines)
+      setIsDriver((ridesResult.count || 0) > 0 || !!accountResult.data)
+    }
+
+    fetchWallet()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, reloadKey])
+
+  const reload = () => setReloadKey((key) => key + 1)
+
+  const handleSendCode = async () => {
+    // Supabase Auth takes the number as +256XXXXXXXXX
+    const parsed = parsePhoneNumber(phone)
+    if (!parsed.ok) {
+      toast({ title: 'Invalid phone number', description: parsed.message, variant: 'destructive' })
+      return
+    }
+    const e164 = parsed.phone.e164
+
+    setBusy(true)
+    const { error } = await supabase.auth.updateUser({ phone: e164 })
+    if (error) {
+      toast({ title: 'Could not send code', description: error.message, variant: 'destructive' })
+    } else {
+      setCodeSentTo(e164)
+      toast({ title: 'Code sent', description: `Enter the code we sent to ${e164}.` })
+    }
+    setBusy(false)
+  }
+
+  const handleVerifyCode = async () => {
+    if (!codeSentTo) return
+
+    setBusy(true)
+    const { error } = await supabase.auth.verifyOtp({ phone: codeSentTo, token: code, type: 'phone_change' })
+    if (error) {
+      toast({ title: 'Verification failed', description: error.message, variant: 'destructive' })
+    } else {
+      toast({ title: 'Number verified', description: 'Payouts will be sent to this number.', variant: 'success' })
+      setCodeSentTo(null)
+      setCode('')
+      setPhone('')
+      reload()
+    }
+    setBusy(false)
+  }
+
+  const handleRequestPayout = async () => {
+    if (!wallet) return
+
+    setBusy(true)
+    const { data, error } = await supabase.rpc('request_payout', {
+      p_amount: Number(amount || wallet.available),
+    })
+    const result = data as RequestPayoutResult | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Payout not requested',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'Payout requested',
+        description: 'We will send it once it has been approved.',
+        variant: 'success',
+      })
+      setAmount('')
+      reload()
+    }
+    setBusy(false)
+  }
+
+  const handleCancelPayout = async (payoutId: string) => {
+    setBusy(true)
+    const { error } = await supabase.rpc('cancel_payout_request', { p_payout_id: payoutId })
+    if (error) {
+      toast({ title: 'Could not cancel', description: error.message, variant: 'destructive' })
+    }
+    reload()
+    setBusy(false)
+  }
+
+  if (!wallet || !isDriver) return null
+
+  const hasOpenPayout = payouts.some((payout) => payout.status === 'requested' || payout.status === 'approved')
+  const canRequest = !!wallet.payout_phone && !hasOpenPayout && wallet.available >= wallet.minimum_payout
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-5 space-y-5">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <WalletIcon className="w-4 h-4 text-coral-500" />
+            <span className="text-sm font-medium">Driver wallet</span>
+          </div>
+          <span className="text-lg font-semibold">{formatCurrency(wallet.balance)}</span>
+        </div>
+        {wallet.reserved > 0 && (
+          <p className="text-xs text-muted-foreground -mt-3">
+            {formatCurrency(wallet.reserved)} reserved for a payout in progress
+          </p>
+        )}
+
+        {/* Payout number */}
+        {wallet.payout_phone ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <ShieldCheck className="w-4 h-4 text-green-600" />
+            Payouts go to {wallet.payout_phone}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="payoutPhone">Verify your mobile money number</Label>
+            {codeSentTo ? (
+              <div className="flex gap-2">
+                <Input
+                  id="payoutPhone"
+                  inputMode="numeric"
+                  placeholder="6-digit code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+                <Button onClick={handleVerifyCode} loading={busy} disabled={!code}>
+                  Verify
+                </Button>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <Input
+                  id="payoutPhone"
+                  type="tel"
+                  placeholder="07XX XXX XXX"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                />
+                <Button onClick={handleSendCode} loading={busy} disabled={!phone}>
+                  Send code
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Request payout */}
+        {wallet.payout_phone && !hasOpenPayout && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={wallet.minimum_payout}
+                max={wallet.available}
+                placeholder={String(wallet.available)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <Button onClick={handleRequestPayout} loading={busy} disabled={!canRequest}>
+                Request payout
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Minimum payout {formatCurrency(wallet.minimum_payout)}. Payouts are sent after approval.
+            </p>
+          </div>
+        )}
+
+        {/* Payout requests */}
+        {payouts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase">Payouts</p>
+            {payouts.map((payout) => (
+              <div key={payout.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p>{formatCurrency(payout.amount)}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatDate(payout.created_at)} · {PAYOUT_LABELS[payout.status]}
+                    {payout.rejection_reason && ` · ${payout.rejection_reason}`}
+                  </p>
+                </div>
+                {payout.status === 'requested' && (
+                  <Button variant="ghost" size="sm" onClick={() => handleCancelPayout(payout.id)} disabled={busy}>
+                    Cancel
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* History */}
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground uppercase">History</p>
+            {history.map((line) => (
+              <div key={line.id} className="flex items-center justify-between text-sm">
+                <div>
+                  <p>{line.entry ? ENTRY_LABELS[line.entry.entry_type] : 'Entry'}</p>
+                  <p className="text-xs text-muted-foreground">{formatDate(line.created_at)}</p>
+                </div>
+                {/* A credit to the driver's account is money in their wallet */}
+                <span className={line.amount < 0 ? 'text-green-700' : ''}>
+                  {line.amount < 0 ? '+' : '-'}{formatCurrency(Math.abs(line.amount))}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import { formatCurrency } from '@/lib/utils'
+import type { Payment, UpdateRefundPhoneResult } from '@/types'
+import { marketForCurrency } from '@shared/markets'
+import { AlertTriangle } from 'lucide-react'
+
+interface FailedRefundsProps {
+  userId: string
+  className?: string
+}
+
+// Refunds to this user that could not be paid out and need a corrected mobile money number
+export function FailedRefunds({ userId, className }: FailedRefundsProps) {
+  const { toast } = useToast()
+  const [refunds, setRefunds] = useState<Payment[]>([])
+  const [phoneNumbers, setPhoneNumbers] = useState<Record<string, string>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+
+  // Bumped after a successful retry so the list is fetched again
+  const [reloadKey, setReloadKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchRefunds = async () => {
+      const { data } = await supabase
+        .from('payments')
+        .select('*')
+        .eq('user_id', userId)
+        .in('payment_type', ['refund_to_passenger', 'refund_to_driver'])
+        .eq('status', 'failed')
+        .or('awaiting_phone_update.eq.true,dead_lettered_at.not.is.null')
+        .order('created_at', { ascending: false })
+
+      if (!cancelled) setRefunds((data as Payment[]) || [])
+    }
+
+    fetchRefunds()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, reloadKey])
+
+  const handleRetry = async (refund: Payment) => {
+    setSavingId(refund.id)
+
+    const { data, error } = await supabase.rpc('update_refund_phone', {
+      p_payment_id: refund.id,
+      p_phone_number: phoneNumbers[refund.id] || '',
+    })
+    const result = data as UpdateRefundPhoneResult | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Could not update number',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'Refund will be retried',
+        description: `We'll send ${formatCurrency(refund.amount, refund.currency)} to the new number within a few minutes.`,
+        variant: 'success',
+      })
+      setReloadKey((key) => key + 1)
+    }
+
+    setSavingId(null)
+  }
+
+  if (refunds.length === 0) return null
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-5 space-y-4">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 text-yellow-600" />
+          <span className="text-sm font-medium">Refunds we couldn't send</span>
+        </div>
+        {refunds.map((refund) => (
+          <div key={refund.id} className="space-y-2 pt-3 border-t first:border-t-0 first:pt-0">
+            <p className="text-sm">
+              {formatCurrency(refund.amount, refund.currency)} to {refund.phone_number}
+            </p>
+            {refund.error_message && (
+              <p className="text-xs text-muted-foreground">{refund.error_message}</p>
+            )}
+            <div className="flex gap-2">
+              <Input
+                type="tel"
+                placeholder={marketForCurrency(refund.currency).phoneExample}
+                value={phoneNumbers[refund.id] || ''}
+                onChange={(e) => setPhoneNumbers({ ...phoneNumbers, [refund.id]: e.target.value })}
+              />
+              <Button
+                onClick={() => handleRetry(refund)}
+                loading={savingId === refund.id}
+                disabled={!phoneNumbers[refund.id]}
+              >
+                Retry
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
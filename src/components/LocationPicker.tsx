@@ -3,6 +3,7 @@ import { Input } from '@/components/ui/input'
 import { MapLocationPicker } from './MapLocationPicker'
 import { MapPin, Loader2, X, Map, Navigation } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { MARKET_CODES, MARKETS, type MarketCode } from '@shared/markets'
 
 interface Location {
   lat: number
@@ -16,6 +17,8 @@ interface LocationPickerProps {
   placeholder?: string
   markerColor?: 'pickup' | 'dropoff'
   className?: string
+  // Only suggest places in this market; every market's places when not given
+  market?: MarketCode
 }
 
 interface NominatimResult {
@@ -40,6 +43,7 @@ export function LocationPicker({
   placeholder = 'Search location',
   markerColor = 'pickup',
   className,
+  market,
 }: LocationPickerProps) {
   const [input, setInput] = useState(value?.name || '')
   const [suggestions, setSuggestions] = useState<NominatimResult[]>([])
@@ -135,8 +139,9 @@ export function LocationPicker({
     try {
       // Use Nominatim API - free OpenStreetMap geocoding
       const encodedQuery = encodeURIComponent(searchText)
+      const countryCodes = (market ? [market] : MARKET_CODES).map((code) => MARKETS[code].geocodingCountry).join(',')
       const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodedQuery}&countrycodes=ug&limit=5&addressdetails=1`,
+        `https://nominatim.openstreetmap.org/search?format=json&q=${encodedQuery}&countrycodes=${countryCodes}&limit=5&addressdetails=1`,
         {
           headers: {
             'Accept-Language': 'en',
@@ -158,7 +163,7 @@ export function LocationPicker({
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [market])
 
   // Handle input change
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -317,6 +322,7 @@ export function LocationPicker({
         initialLocation={value}
         title={markerColor === 'pickup' ? 'Select Pickup Location' : 'Select Drop-off Location'}
         markerColor={markerColor}
+        market={market}
       />
     </>
   )
@@ -4,6 +4,7 @@ import L from 'leaflet'
 import { Button } from '@/components/ui/button'
 import { X, MapPin, Loader2, Check, Navigation } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { DEFAULT_MARKET, getMarket, type MarketCode } from '@shared/markets'
 import 'leaflet/dist/leaflet.css'
 
 interface Location {
@@ -19,6 +20,8 @@ interface MapLocationPickerProps {
   initialLocation?: Location | null
   title?: string
   markerColor?: 'pickup' | 'dropoff'
+  // Centres the map on this market's capital until a location is picked
+  market?: MarketCode
 }
 
 // Custom marker icon
@@ -69,6 +72,7 @@ export function MapLocationPicker({
   initialLocation,
   title = 'Select Location',
   markerColor = 'pickup',
+  market = DEFAULT_MARKET,
 }: MapLocationPickerProps) {
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lng: number } | null>(
     initialLocation ? { lat: initialLocation.lat, lng: initialLocation.lng } : null
@@ -77,8 +81,9 @@ export function MapLocationPicker({
   const [loading, setLoading] = useState(false)
   const [gettingLocation, setGettingLocation] = useState(false)
 
-  // Default center (Kampala, Uganda)
-  const defaultCenter: [number, number] = [0.3476, 32.5825]
+  // Default center (the market's capital, Kampala unless given)
+  const { mapCenter } = getMarket(market)
+  const defaultCenter: [number, number] = [mapCenter.lat, mapCenter.lng]
 
   // Get user's current location
   const getCurrentLocation = () => {
@@ -0,0 +1,77 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ReviewDialog } from '@/components/ReviewDialog'
+import { formatDate } from '@/lib/utils'
+import type { PendingReview } from '@/types'
+import { Star } from 'lucide-react'
+
+interface PendingReviewsProps {
+  userId: string
+  // Bumped by the parent when a ride or booking was just completed
+  reloadKey?: number
+  className?: string
+}
+
+// The post-ride prompt: completed trips the user hasn't reviewed yet, as passenger or driver
+export function PendingReviews({ userId, reloadKey = 0, className }: PendingReviewsProps) {
+  const [pending, setPending] = useState<PendingReview[]>([])
+  const [reviewing, setReviewing] = useState<PendingReview | null>(null)
+  // Bumped after a review is sent so the list is fetched again
+  const [submittedKey, setSubmittedKey] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchPending = async () => {
+      const { data } = await supabase.rpc('pending_reviews')
+      if (!cancelled) setPending((data as PendingReview[]) || [])
+    }
+
+    fetchPending()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, reloadKey, submittedKey])
+
+  if (pending.length === 0) return null
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Star className="w-4 h-4 text-yellow-500 fill-yellow-500" />
+          <span className="text-sm font-medium">How was your trip?</span>
+        </div>
+        {pending.map((review) => (
+          <div key={review.booking_id} className="flex items-center gap-3">
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={review.reviewee_avatar_url || undefined} />
+              <AvatarFallback className="bg-coral-100 text-navy-800 text-xs">
+                {review.reviewee_name[0]}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium truncate">{review.reviewee_name}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {review.origin_name} → {review.destination_name} · {formatDate(review.departure_time)}
+              </p>
+              <p className="text-xs text-muted-foreground">Review by {formatDate(review.review_by)}</p>
+            </div>
+            <Button size="sm" onClick={() => setReviewing(review)}>
+              Rate
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+
+      <ReviewDialog
+        review={reviewing}
+        onClose={() => setReviewing(null)}
+        onSubmitted={() => setSubmittedKey((key) => key + 1)}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,33 @@
+import type { ReactNode } from 'react'
+import { cn } from '@/lib/utils'
+import { DEFAULT_MARKET, type MarketCode } from '@shared/markets'
+import { NETWORK_NAMES, parsePhoneNumber } from '@shared/phone'
+
+interface PhoneNumberHintProps {
+  phoneNumber: string
+  market?: MarketCode
+  // Shown until the number is complete
+  children: ReactNode
+  className?: string
+}
+
+// Under a mobile money number input: the detected network once the number is
+// complete, or why it can't be used
+export function PhoneNumberHint({ phoneNumber, market = DEFAULT_MARKET, children, className }: PhoneNumberHintProps) {
+  const result = parsePhoneNumber(phoneNumber, market)
+  const complete = phoneNumber.replace(/\D/g, '').length >= 10
+
+  if (result.ok) {
+    return (
+      <p className={cn('text-xs font-medium text-green-700', className)}>
+        {NETWORK_NAMES[result.phone.network]} · {result.phone.e164}
+      </p>
+    )
+  }
+
+  return (
+    <p className={cn('text-xs', complete ? 'text-destructive' : 'text-muted-foreground', className)}>
+      {complete ? result.message : children}
+    </p>
+  )
+}
@@ -2,6 +2,7 @@ import { useState, useRef, useEffect } from 'react'
 import { Input } from '@/components/ui/input'
 import { MapPin, Loader2 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { MARKET_CODES, MARKETS, type MarketCode } from '@shared/markets'
 
 interface PlaceInputProps {
   value: string
@@ -9,6 +10,8 @@ interface PlaceInputProps {
   placeholder?: string
   className?: string
   markerColor?: 'green' | 'red'
+  // Only suggest places in this market; every market's places when not given
+  market?: MarketCode
 }
 
 interface Prediction {
@@ -28,6 +31,7 @@ export function PlaceInput({
   placeholder = 'Enter location',
   className,
   markerColor = 'green',
+  market,
 }: PlaceInputProps) {
   const [input, setInput] = useState(value)
   const [predictions, setPredictions] = useState<Prediction[]>([])
@@ -62,8 +66,11 @@ export function PlaceInput({
       // Use proxy or server-side endpoint in production
       // For now, we'll use a simple approach
       const encodedInput = encodeURIComponent(searchText)
+      const components = (market ? [market] : MARKET_CODES)
+        .map((code) => `country:${MARKETS[code].geocodingCountry}`)
+        .join('|')
       const url = `https://corsproxy.io/?${encodeURIComponent(
-        `https://maps.googleapis.com/maps/api/place/autocomplete/json?input=${encodedInput}&components=country:ug&key=${GOOGLE_MAPS_API_KEY}`
+        `https://maps.googleapis.com/maps/api/place/autocomplete/json?input=${encodedInput}&components=${encodeURIComponent(components)}&key=${GOOGLE_MAPS_API_KEY}`
       )}`
 
       const response = await fetch(url)
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useToast } from '@/hooks/use-toast'
+import { cn, formatDate } from '@/lib/utils'
+import { MAX_REVIEW_COMMENT_LENGTH, REVIEW_TAGS, REVIEW_TAG_LABELS } from '@/lib/reviews'
+import type { PendingReview, ReviewTag, SubmitReviewResult } from '@/types'
+import { Star } from 'lucide-react'
+
+interface ReviewDialogProps {
+  // The booking to review; the dialog is open while set
+  review: PendingReview | null
+  onClose: () => void
+  onSubmitted: () => void
+}
+
+// Stars, tags and a comment for the other side of a completed booking
+export function ReviewDialog({ review, onClose, onSubmitted }: ReviewDialogProps) {
+  const { toast } = useToast()
+  const [rating, setRating] = useState(0)
+  const [tags, setTags] = useState<ReviewTag[]>([])
+  const [comment, setComment] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const close = () => {
+    setRating(0)
+    setTags([])
+    setComment('')
+    onClose()
+  }
+
+  const toggleTag = (tag: ReviewTag) => {
+    setTags(tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag])
+  }
+
+  const handleSubmit = async () => {
+    if (!review || rating === 0) return
+    setSubmitting(true)
+
+    const { data, error } = await supabase.rpc('submit_review', {
+      p_booking_id: review.booking_id,
+      p_rating: rating,
+      p_tags: tags,
+      p_comment: comment,
+    })
+    const result = data as SubmitReviewResult | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Review not sent',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      // Reviews are blind: neither side sees the other's until both have reviewed or the window closes
+      toast({
+        title: 'Thanks for your review',
+        description: result.revealed
+          ? `Your review and ${review.reviewee_name}'s are now visible.`
+          : `It will be shown once ${review.reviewee_name} has reviewed you too, or on ${formatDate(result.reveal_by)}.`,
+        variant: 'success',
+      })
+      close()
+      onSubmitted()
+    }
+
+    setSubmitting(false)
+  }
+
+  return (
+    <Dialog open={!!review} onOpenChange={close}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Rate your {review?.reviewee_role === 'driver' ? 'driver' : 'passenger'}
+          </DialogTitle>
+          <DialogDescription>
+            How was your trip from {review?.origin_name} to {review?.destination_name} with {review?.reviewee_name}?
+            They won't see your review until they've reviewed you too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex justify-center gap-2">
+            {[1, 2, 3, 4, 5].map((stars) => (
+              <button
+                key={stars}
+                type="button"
+                aria-label={`${stars} star${stars > 1 ? 's' : ''}`}
+                onClick={() => setRating(stars)}
+              >
+                <Star
+                  className={cn(
+                    'w-8 h-8',
+                    stars <= rating ? 'text-yellow-500 fill-yellow-500' : 'text-muted-foreground'
+                  )}
+                />
+              </button>
+            ))}
+          </div>
+
+          {review && (
+            <div className="flex flex-wrap gap-2">
+              {REVIEW_TAGS[review.reviewee_role].map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={cn(
+                    'text-xs px-3 py-1 rounded-full border font-medium',
+                    tags.includes(tag) ? 'bg-navy-900 text-white border-navy-900' : 'text-muted-foreground'
+                  )}
+                >
+                  {REVIEW_TAG_LABELS[tag]}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <textarea
+            className="flex min-h-[80px] w-full rounded-lg border border-input bg-background px-4 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            placeholder="Anything else? (optional)"
+            maxLength={MAX_REVIEW_COMMENT_LENGTH}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>
+            Later
+          </Button>
+          <Button loading={submitting} disabled={rating === 0} onClick={handleSubmit}>
+            Submit review
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent } from '@/components/ui/card'
+import { REVIEW_TAG_LABELS } from '@/lib/reviews'
+import type { Review, User } from '@/types'
+import { Star } from 'lucide-react'
+
+interface ReviewListProps {
+  // Whose received reviews to show
+  userId: string
+  title?: string
+  limit?: number
+  className?: string
+}
+
+type ReviewWithReviewer = Review & { reviewer: Pick<User, 'full_name' | 'avatar_url'> }
+
+// The latest reviews a user received, from passengers and drivers alike
+export function ReviewList({ userId, title = 'Reviews', limit = 10, className }: ReviewListProps) {
+  const [reviews, setReviews] = useState<ReviewWithReviewer[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchReviews = async () => {
+      const { data } = await supabase
+        .from('reviews')
+        .select('*, reviewer:users!reviews_reviewer_id_fkey(full_name, avatar_url)')
+        .eq('reviewee_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (!cancelled) setReviews((data as ReviewWithReviewer[]) || [])
+    }
+
+    fetchReviews()
+    return () => {
+      cancelled = true
+    }
+  }, [userId, limit])
+
+  if (reviews.length === 0) return null
+
+  return (
+    <Card className={className}>
+      <CardContent className="p-5 space-y-4">
+        <p className="text-sm font-medium">{title}</p>
+        {reviews.map((review) => (
+          <div key={review.id} className="space-y-1 pt-3 border-t first:border-t-0 first:pt-0">
+            <div className="flex items-center justify-between">
+              <Link to={`/users/${review.reviewer_id}`} className="text-sm font-medium hover:underline">
+                {review.reviewer.full_name}
+              </Link>
+              <span className="flex items-center gap-0.5">
+                {[1, 2, 3, 4, 5].map((stars) => (
+                  <Star
+                    key={stars}
+                    className={stars <= review.rating ? 'w-3 h-3 text-yellow-500 fill-yellow-500' : 'w-3 h-3 text-muted-foreground'}
+                  />
+                ))}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {review.reviewee_role === 'passenger' ? 'As a passenger' : 'As a driver'} ·{' '}
+              {new Date(review.created_at).toLocaleDateString('en-UG', { day: 'numeric', month: 'short', year: 'numeric' })}
+            </p>
+            {review.tags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {review.tags.map((tag) => (
+                  <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-muted">
+                    {REVIEW_TAG_LABELS[tag]}
+                  </span>
+                ))}
+              </div>
+            )}
+            {review.comment && <p className="text-sm">{review.comment}</p>}
+            {!review.revealed_at && (
+              <p className="text-xs text-muted-foreground italic">Only you can see this until it is revealed</p>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,6 +4,7 @@ import L from 'leaflet'
 import { Button } from '@/components/ui/button'
 import { X, Calendar, Users, Loader2 } from 'lucide-react'
 import { formatCurrency, formatDate } from '@/lib/utils'
+import { getMarket } from '@shared/markets'
 import 'leaflet/dist/leaflet.css'
 
 interface Location {
@@ -22,6 +23,7 @@ interface RideWithRoute {
   destination_lng: number
   departure_time: string
   price: number
+  market?: string
   available_seats: number
   driver_name?: string
   route?: [number, number][]
@@ -247,7 +249,7 @@ export function RidesMapView({
                             {ride.available_seats} seats
                           </span>
                         </div>
-                        <p className="font-bold text-coral-500 mb-2">{formatCurrency(ride.price)}</p>
+                        <p className="font-bold text-coral-500 mb-2">{formatCurrency(ride.price, getMarket(ride.market).currency)}</p>
                         {onRideSelect && (
                           <Button
                             size="sm"
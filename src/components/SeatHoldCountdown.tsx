@@ -0,0 +1,35 @@
+import { Timer } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useCountdown } from '@/hooks/useCountdown'
+
+interface SeatHoldCountdownProps {
+  expiresAt: string | null
+  className?: string
+}
+
+// Live countdown for the seats held by a pending_payment booking
+export function SeatHoldCountdown({ expiresAt, className }: SeatHoldCountdownProps) {
+  const secondsLeft = useCountdown(expiresAt)
+
+  if (secondsLeft === null) return null
+
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = (secondsLeft % 60).toString().padStart(2, '0')
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 text-sm font-medium',
+        secondsLeft > 0 ? 'text-yellow-800' : 'text-red-700',
+        className
+      )}
+    >
+      <Timer className="w-4 h-4" />
+      {secondsLeft > 0 ? (
+        <span>Seat held for {minutes}:{seconds}</span>
+      ) : (
+        <span>Seat hold expired. Pay now to re-take your seat if it's still free.</span>
+      )}
+    </div>
+  )
+}
@@ -25,11 +25,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const fetchProfile = async (userId: string, userEmail?: string, fullName?: string): Promise<User | null> => {
     try {
+      // Through my_profile: phone_number isn't selectable on users directly
       const { data, error } = await withTimeout(
         supabase
-          .from('users')
-          .select('*')
-          .eq('id', userId)
+          .rpc('my_profile')
           .single(),
         10000
       )
@@ -40,16 +39,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // If profile doesn't exist (trigger may have failed), create it
         if (error.code === 'PGRST116') {
           console.log('Profile not found, creating one...')
-          const { data: newProfile, error: createError } = await withTimeout(
+          const { error: createError } = await withTimeout(
             supabase
               .from('users')
               .insert({
                 id: userId,
                 email: userEmail || '',
                 full_name: fullName || 'User',
-              })
-              .select()
-              .single(),
+              }),
             10000
           )
 
@@ -57,7 +54,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             console.error('Error creating profile:', createError)
             return null
           }
-          return newProfile as User
+
+          const { data: newProfile } = await withTimeout(
+            supabase
+              .rpc('my_profile')
+              .single(),
+            10000
+          )
+          return (newProfile as User | null) ?? null
         }
         return null
       }
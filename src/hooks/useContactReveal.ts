@@ -0,0 +1,33 @@
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useToast } from '@/hooks/use-toast'
+import type { RevealContactResult } from '@/types'
+
+// The other side's phone number per confirmed booking, fetched when the user
+// asks for it; every reveal is logged server-side
+export function useContactReveal() {
+  const { toast } = useToast()
+  const [phoneNumbers, setPhoneNumbers] = useState<Record<string, string>>({})
+  const [revealingId, setRevealingId] = useState<string | null>(null)
+
+  const reveal = async (bookingId: string) => {
+    setRevealingId(bookingId)
+
+    const { data, error } = await supabase.rpc('reveal_contact', { p_booking_id: bookingId })
+    const result = data as RevealContactResult | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Number not available',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      setPhoneNumbers((numbers) => ({ ...numbers, [bookingId]: result.phone_number }))
+    }
+
+    setRevealingId(null)
+  }
+
+  return { phoneNumbers, revealingId, reveal }
+}
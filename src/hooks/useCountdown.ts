@@ -0,0 +1,16 @@
+import { useState, useEffect } from 'react'
+
+// Seconds left until an ISO timestamp, ticking every second (null when there is no target)
+export function useCountdown(expiresAt: string | null): number | null {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!expiresAt) return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [expiresAt])
+
+  if (!expiresAt) return null
+  return Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000))
+}
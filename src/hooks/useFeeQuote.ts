@@ -0,0 +1,37 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { quoteBookingFee, type FeeQuote } from '@shared/fees'
+import { DEFAULT_MARKET, type MarketCode } from '@shared/markets'
+
+// Per-seat fee quote for a ride from its fee schedule (null while loading or without a price)
+export function useFeeQuote(
+  price: number,
+  distanceKm: number | null = null,
+  driverId: string | null = null,
+  market: MarketCode = DEFAULT_MARKET
+): FeeQuote | null {
+  const key = `${price}:${distanceKm}:${driverId}:${market}`
+  const [result, setResult] = useState<{ key: string; quote: FeeQuote } | null>(null)
+
+  useEffect(() => {
+    if (price <= 0) return
+    let cancelled = false
+
+    // Debounced so typing a price doesn't quote every keystroke
+    const timeout = setTimeout(async () => {
+      try {
+        const quote = await quoteBookingFee(supabase, { price, distanceKm, driverId, market })
+        if (!cancelled) setResult({ key, quote })
+      } catch (error) {
+        console.error('Fee quote error:', error)
+      }
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [key, price, distanceKm, driverId, market])
+
+  return result?.key === key ? result.quote : null
+}
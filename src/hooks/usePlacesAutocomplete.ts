@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
+import { MARKET_CODES, MARKETS, type MarketCode } from '@shared/markets'
 
 interface PlacePrediction {
   place_id: string
@@ -19,11 +20,12 @@ interface PlaceDetails {
 interface UsePlacesAutocompleteOptions {
   apiKey: string
   debounceMs?: number
-  country?: string
+  // Only predict places in this market; every market's places when not given
+  market?: MarketCode
 }
 
 export function usePlacesAutocomplete(options: UsePlacesAutocompleteOptions) {
-  const { apiKey, debounceMs = 300, country = 'ug' } = options
+  const { apiKey, debounceMs = 300, market } = options
   const [input, setInput] = useState('')
   const [predictions, setPredictions] = useState<PlacePrediction[]>([])
   const [loading, setLoading] = useState(false)
@@ -37,10 +39,13 @@ export function usePlacesAutocomplete(options: UsePlacesAutocompleteOptions) {
 
     setLoading(true)
     try {
+      const components = (market ? [market] : MARKET_CODES)
+        .map((code) => `country:${MARKETS[code].geocodingCountry}`)
+        .join('|')
       const response = await fetch(
         `https://maps.googleapis.com/maps/api/place/autocomplete/json?input=${encodeURIComponent(
           inputText
-        )}&components=country:${country}&key=${apiKey}`
+        )}&components=${encodeURIComponent(components)}&key=${apiKey}`
       )
       const data = await response.json()
 
@@ -53,7 +58,7 @@ export function usePlacesAutocomplete(options: UsePlacesAutocompleteOptions) {
     } finally {
       setLoading(false)
     }
-  }, [apiKey, country])
+  }, [apiKey, market])
 
   useEffect(() => {
     if (debounceRef.current) {
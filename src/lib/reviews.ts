@@ -0,0 +1,18 @@
+import type { ReviewTag } from '@/types'
+
+export const REVIEW_TAG_LABELS: Record<ReviewTag, string> = {
+  punctual: 'Punctual',
+  safe_driving: 'Safe driving',
+  clean_car: 'Clean car',
+  friendly: 'Friendly',
+  respectful: 'Respectful',
+}
+
+// The tags a review can carry, by who is reviewed. The database checks them
+// in review_tags() (supabase/reviews-migration.sql), keep the two in step.
+export const REVIEW_TAGS: Record<'driver' | 'passenger', ReviewTag[]> = {
+  driver: ['punctual', 'safe_driving', 'clean_car', 'friendly'],
+  passenger: ['punctual', 'friendly', 'respectful'],
+}
+
+export const MAX_REVIEW_COMMENT_LENGTH = 500
@@ -1,14 +1,16 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { marketForCurrency, type CurrencyCode } from "@shared/markets"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
-export function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-UG', {
+// In the format of the currency's market, e.g. USh 12,000 or Ksh 350
+export function formatCurrency(amount: number, currency: CurrencyCode = 'UGX'): string {
+  return new Intl.NumberFormat(marketForCurrency(currency).locale, {
     style: 'currency',
-    currency: 'UGX',
+    currency,
     minimumFractionDigits: 0,
     maximumFractionDigits: 0,
   }).format(amount)
@@ -24,11 +26,3 @@ export function formatDate(date: Date | string): string {
     minute: '2-digit',
   }).format(d)
 }
-
-export function calculateBookingFee(ridePrice: number): number {
-  return Math.ceil(ridePrice * 0.1)
-}
-
-export function calculateDriverPayout(ridePrice: number): number {
-  return ridePrice - calculateBookingFee(ridePrice)
-}
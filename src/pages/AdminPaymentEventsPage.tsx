@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react'
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import type { Payment, PaymentEvent, PaymentEventType } from '@/types'
+import { ArrowLeft, Search } from 'lucide-react'
+
+const EVENT_LABELS: Record<PaymentEventType, string> = {
+  provider_request: 'Sent to provider',
+  provider_response: 'Provider answered',
+  provider_error: 'Provider call failed',
+  webhook_received: 'Webhook received',
+}
+
+const EVENT_STYLES: Record<PaymentEventType, string> = {
+  provider_request: 'bg-blue-500',
+  provider_response: 'bg-green-500',
+  provider_error: 'bg-red-500',
+  webhook_received: 'bg-coral-500',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface Timeline {
+  query: string
+  payment: Payment | null
+  events: PaymentEvent[]
+}
+
+function formatTime(timestamp: string) {
+  return new Date(timestamp).toLocaleString('en-UG', {
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  })
+}
+
+function JsonBlock({ label, value }: { label: string; value: unknown }) {
+  if (value === null || value === undefined) return null
+  return (
+    <div>
+      <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+      <pre className="text-xs bg-muted rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+        {typeof value === 'string' ? value : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  )
+}
+
+// Everything sent to and received from the payment provider for one payment,
+// for settling disputes (supabase/payment-events-migration.sql)
+export default function AdminPaymentEventsPage() {
+  const { profile } = useAuth()
+  const navigate = useNavigate()
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const query = searchParams.get('payment')?.trim() || ''
+  const [input, setInput] = useState(query)
+  const [timeline, setTimeline] = useState<Timeline | null>(null)
+
+  const isAdmin = profile?.role === 'admin'
+
+  useEffect(() => {
+    if (!isAdmin || !query) return
+    let cancelled = false
+
+    const fetchTimeline = async () => {
+      // Look the payment up by ID or by the reference sent to the provider
+      const { data: payment, error } = await supabase
+        .from('payments')
+        .select('*')
+        .eq(UUID_PATTERN.test(query) ? 'id' : 'pandora_reference', query)
+        .maybeSingle()
+
+      if (error) console.error('Fetch payment error:', error)
+
+      let events: PaymentEvent[] = []
+      if (payment) {
+        const { data, error: eventsError } = await supabase
+          .from('payment_events')
+          .select('*')
+          .eq('payment_id', payment.id)
+          .order('created_at', { ascending: true })
+
+        if (eventsError) console.error('Fetch payment events error:', eventsError)
+        events = (data as PaymentEvent[]) || []
+      }
+
+      if (cancelled) return
+      setTimeline({ query, payment: payment as Payment | null, events })
+    }
+
+    fetchTimeline()
+    return () => {
+      cancelled = true
+    }
+  }, [isAdmin, query])
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSearchParams(input.trim() ? { payment: input.trim() } : {})
+  }
+
+  if (profile && !isAdmin) {
+    return <Navigate to="/" replace />
+  }
+
+  // Results from an earlier search are not shown while the new one loads
+  const current = timeline?.query === query ? timeline : null
+  const loading = !!query && !current
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-gradient-to-b from-navy-900 to-navy-800 pt-12 pb-8 px-4">
+        <div className="max-w-lg mx-auto flex items-center gap-3">
+          <button onClick={() => navigate(-1)} className="text-white">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-semibold text-white">Payment Timeline</h1>
+        </div>
+      </div>
+
+      <div className="px-4 mt-4 max-w-lg mx-auto space-y-3">
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            placeholder="Payment ID or reference"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+          />
+          <Button type="submit" variant="outline">
+            <Search className="w-4 h-4" />
+          </Button>
+        </form>
+
+        {!query ? (
+          <p className="text-center text-muted-foreground py-12">
+            Enter a payment to see every provider call and webhook for it.
+          </p>
+        ) : loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : !current?.payment ? (
+          <p className="text-center text-muted-foreground py-12">No payment found for {query}.</p>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-4 space-y-1 text-sm">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{current.payment.payment_type.replace(/_/g, ' ')}</p>
+                    <p className="text-xs text-muted-foreground break-all">{current.payment.pandora_reference || current.payment.id}</p>
+                  </div>
+                  <span className="font-semibold">{formatCurrency(current.payment.amount, current.payment.currency)}</span>
+                </div>
+                <p className="text-muted-foreground">
+                  {current.payment.status} · {current.payment.phone_number} · created {formatDate(current.payment.created_at)}
+                </p>
+                {current.payment.error_message && (
+                  <p className="text-destructive">{current.payment.error_message}</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {current.events.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No provider events recorded for this payment.</p>
+            ) : (
+              <div className="space-y-2">
+                {current.events.map((event) => (
+                  <Card key={event.id}>
+                    <CardContent className="p-4">
+                      <details>
+                        <summary className="cursor-pointer list-none">
+                          <div className="flex items-start gap-3">
+                            <div className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${EVENT_STYLES[event.event_type]}`} />
+                            <div className="flex-1 min-w-0">
+                              <div className="flex justify-between gap-2">
+                                <p className="text-sm font-medium">
+                                  {EVENT_LABELS[event.event_type]} ({event.operation.replace(/_/g, ' ')})
+                                </p>
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                  {formatTime(event.created_at)}
+                                </span>
+                              </div>
+                              <p className="text-xs text-muted-foreground break-all">
+                                {[
+                                  event.provider,
+                                  event.http_status !== null && `HTTP ${event.http_status}`,
+                                  event.duration_ms !== null && `${event.duration_ms} ms`,
+                                  event.outcome,
+                                ].filter(Boolean).join(' · ')}
+                              </p>
+                            </div>
+                          </div>
+                        </summary>
+                        <div className="mt-3 space-y-2">
+                          {event.url && (
+                            <p className="text-xs break-all">
+                              {event.http_method} {event.url}
+                            </p>
+                          )}
+                          <JsonBlock label="Request headers" value={event.request_headers} />
+                          <JsonBlock label="Request body" value={event.request_body} />
+                          <JsonBlock label="Response headers" value={event.response_headers} />
+                          <JsonBlock label="Response body" value={event.response_body} />
+                        </div>
+                      </details>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
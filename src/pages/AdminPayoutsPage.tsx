@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react'
+import { Navigate, useNavigate } from 'react-router-dom'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent } from '@/components/ui/card'
+import { useToast } from '@/hooks/use-toast'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import type { PayoutRequest } from '@/types'
+import { ArrowLeft } from 'lucide-react'
+
+export default function AdminPayoutsPage() {
+  const { profile } = useAuth()
+  const navigate = useNavigate()
+  const { toast } = useToast()
+
+  const [payouts, setPayouts] = useState<PayoutRequest[]>([])
+  // Emails aren't selectable from users, so they come from admin_user_emails()
+  const [emails, setEmails] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [reviewingId, setReviewingId] = useState<string | null>(null)
+  // Bumped after each review so the queue is fetched again
+  const [reloadKey, setReloadKey] = useState(0)
+
+  const isAdmin = profile?.role === 'admin'
+
+  useEffect(() => {
+    if (!isAdmin) return
+    let cancelled = false
+
+    const fetchPayouts = async () => {
+      const { data, error } = await supabase
+        .from('payout_requests')
+        .select('*, driver:users!payout_requests_driver_id_fkey(id, full_name)')
+        .eq('status', 'requested')
+        .order('created_at', { ascending: true })
+
+      const requests = (data as PayoutRequest[]) || []
+      const { data: emailData } = requests.length > 0
+        ? await supabase.rpc('admin_user_emails', { p_user_ids: requests.map((payout) => payout.driver_id) })
+        : { data: [] }
+
+      if (cancelled) return
+      if (error) console.error('Fetch payout requests error:', error)
+      setPayouts(requests)
+      setEmails(Object.fromEntries(
+        ((emailData as { id: string; email: string }[]) || []).map((row) => [row.id, row.email])
+      ))
+      setLoading(false)
+    }
+
+    fetchPayouts()
+    return () => {
+      cancelled = true
+    }
+  }, [isAdmin, reloadKey])
+
+  const handleReview = async (payout: PayoutRequest, approve: boolean) => {
+    setReviewingId(payout.id)
+
+    const { data, error } = await supabase.functions.invoke('review-payout', {
+      body: {
+        payout_id: payout.id,
+        approve,
+        reason: approve ? undefined : reasons[payout.id],
+      },
+    })
+
+    if (error || !data?.success) {
+      toast({
+        title: approve ? 'Payout not sent' : 'Could not reject payout',
+        description: data?.error || error?.message || 'Please try again.',
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: approve ? 'Payout approved' : 'Payout rejected',
+        description: data.message,
+        variant: 'success',
+      })
+    }
+
+    setReviewingId(null)
+    setReloadKey((key) => key + 1)
+  }
+
+  if (profile && !isAdmin) {
+    return <Navigate to="/" replace />
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="bg-gradient-to-b from-navy-900 to-navy-800 pt-12 pb-8 px-4">
+        <div className="max-w-lg mx-auto flex items-center gap-3">
+          <button onClick={() => navigate(-1)} className="text-white">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <h1 className="text-xl font-semibold text-white">Payout Requests</h1>
+        </div>
+      </div>
+
+      <div className="px-4 mt-4 max-w-lg mx-auto space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : payouts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No payout requests waiting for review.</p>
+        ) : (
+          payouts.map((payout) => (
+            <Card key={payout.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="font-medium">{payout.driver?.full_name}</p>
+                    <p className="text-xs text-muted-foreground">{emails[payout.driver_id]}</p>
+                  </div>
+                  <span className="font-semibold">{formatCurrency(payout.amount)}</span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  To {payout.phone_number} · requested {formatDate(payout.created_at)}
+                </p>
+                <Input
+                  placeholder="Reason (if rejecting)"
+                  value={reasons[payout.id] || ''}
+                  onChange={(e) => setReasons({ ...reasons, [payout.id]: e.target.value })}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={() => handleReview(payout, true)}
+                    loading={reviewingId === payout.id}
+                    disabled={reviewingId !== null}
+                  >
+                    Approve and send
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="flex-1"
+                    onClick={() => handleReview(payout, false)}
+                    disabled={reviewingId !== null}
+                  >
+                    Reject
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -5,11 +5,14 @@ import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent } from '@/components/ui/card'
 import { LocationPicker } from '@/components/LocationPicker'
 import { CarPhotoUpload } from '@/components/CarPhotoUpload'
 import { useToast } from '@/hooks/use-toast'
-import { formatCurrency, calculateBookingFee } from '@/lib/utils'
+import { formatCurrency } from '@/lib/utils'
+import { useFeeQuote } from '@/hooks/useFeeQuote'
+import { DEFAULT_MARKET, MARKET_CODES, MARKETS, type MarketCode } from '@shared/markets'
 import { ArrowLeft, Info, Car, Check } from 'lucide-react'
 import type { CarPhoto } from '@/types'
 
@@ -24,6 +27,7 @@ export default function CreateRidePage() {
   const navigate = useNavigate()
   const { toast } = useToast()
 
+  const [market, setMarket] = useState<MarketCode>(DEFAULT_MARKET)
   const [origin, setOrigin] = useState<Location | null>(null)
   const [destination, setDestination] = useState<Location | null>(null)
   const [departureDate, setDepartureDate] = useState('')
@@ -34,6 +38,7 @@ export default function CreateRidePage() {
   const [carBrand, setCarBrand] = useState('')
   const [carModel, setCarModel] = useState('')
   const [carYear, setCarYear] = useState('')
+  const [fullFareInApp, setFullFareInApp] = useState(false)
   const [loading, setLoading] = useState(false)
   const [carPhotos, setCarPhotos] = useState<CarPhoto[]>([])
   const [selectedPhotoId, setSelectedPhotoId] = useState<string | null>(null)
@@ -70,6 +75,15 @@ export default function CreateRidePage() {
     }
   }
 
+  // The ride is priced and paid for in the market it departs from
+  const marketConfig = MARKETS[market]
+
+  const handleMarketChange = (value: string) => {
+    setMarket(value as MarketCode)
+    // The pickup was searched for in the previous market
+    setOrigin(null)
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
@@ -102,11 +116,12 @@ export default function CreateRidePage() {
       return
     }
 
-    // Use coordinates from selected locations (default to Uganda center if somehow missing)
-    const originLat = origin.lat || 0.3476
-    const originLng = origin.lng || 32.5825
-    const destLat = destination.lat || 0.3476
-    const destLng = destination.lng || 32.5825
+    // Use coordinates from selected locations (default to the market's capital if somehow missing)
+    const { mapCenter } = MARKETS[market]
+    const originLat = origin.lat || mapCenter.lat
+    const originLng = origin.lng || mapCenter.lng
+    const destLat = destination.lat || mapCenter.lat
+    const destLng = destination.lng || mapCenter.lng
 
     const departureDateTime = new Date(`${departureDate}T${departureTime}`)
 
@@ -120,10 +135,10 @@ export default function CreateRidePage() {
     }
 
     const priceNum = parseInt(price)
-    if (isNaN(priceNum) || priceNum < 1000) {
+    if (isNaN(priceNum) || priceNum < marketConfig.minimumPrice) {
       toast({
         title: 'Invalid price',
-        description: 'Please enter a valid price (minimum 1,000 UGX).',
+        description: `Please enter a valid price (minimum ${formatCurrency(marketConfig.minimumPrice, marketConfig.currency)}).`,
         variant: 'destructive',
       })
       return
@@ -149,6 +164,8 @@ export default function CreateRidePage() {
       car_year: carYear ? parseInt(carYear) : null,
       status: 'active',
       car_photo_id: selectedPhotoId,
+      full_fare_in_app: fullFareInApp && marketConfig.driverPayouts,
+      market,
     }).select().single()
 
     if (error) {
@@ -171,7 +188,8 @@ export default function CreateRidePage() {
   }
 
   const priceNum = parseInt(price) || 0
-  const bookingFee = calculateBookingFee(priceNum)
+  // The fee schedule for a ride by this driver (route distance isn't known yet)
+  const feeQuote = useFeeQuote(priceNum, null, user?.id ?? null, market)
 
   // Get minimum date and time
   const now = new Date()
@@ -217,6 +235,27 @@ export default function CreateRidePage() {
             )}
 
             <form onSubmit={handleSubmit} className="space-y-5">
+              {/* Market */}
+              <div className="space-y-2">
+                <Label htmlFor="market">Departing from</Label>
+                <Select value={market} onValueChange={handleMarketChange}>
+                  <SelectTrigger id="market">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MARKET_CODES.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {MARKETS[code].name} ({MARKETS[code].currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Passengers pay in {marketConfig.currency}, the currency of the country you set off from, even
+                  if you end up across the border.
+                </p>
+              </div>
+
               {/* Route */}
               <div className="space-y-3">
                 <Label>Route</Label>
@@ -225,6 +264,7 @@ export default function CreateRidePage() {
                   onChange={setOrigin}
                   placeholder="Pickup location"
                   markerColor="pickup"
+                  market={market}
                 />
                 <LocationPicker
                   value={destination}
@@ -263,15 +303,15 @@ export default function CreateRidePage() {
               {/* Price & Seats */}
               <div className="grid grid-cols-2 gap-3">
                 <div className="space-y-2">
-                  <Label htmlFor="price">Price per seat (UGX)</Label>
+                  <Label htmlFor="price">Price per seat ({marketConfig.currency})</Label>
                   <Input
                     id="price"
                     type="number"
-                    placeholder="e.g., 15000"
+                    placeholder={`e.g., ${marketConfig.minimumPrice * 15}`}
                     value={price}
                     onChange={(e) => setPrice(e.target.value)}
-                    min="1000"
-                    step="500"
+                    min={marketConfig.minimumPrice}
+                    step={marketConfig.priceStep}
                     required
                   />
                 </div>
@@ -290,23 +330,44 @@ export default function CreateRidePage() {
               </div>
 
               {/* Price Breakdown */}
-              {priceNum > 0 && (
+              {priceNum > 0 && feeQuote && (
                 <div className="p-4 bg-coral-50 rounded-lg space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-muted-foreground">Your price per seat</span>
-                    <span className="font-medium">{formatCurrency(priceNum)}</span>
+                    <span className="font-medium">{formatCurrency(priceNum, marketConfig.currency)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-muted-foreground">Passenger pays to book (10%)</span>
-                    <span className="text-navy-900">{formatCurrency(bookingFee)}</span>
+                    <span className="text-muted-foreground">Blue Ox booking fee</span>
+                    <span className="text-navy-900">{formatCurrency(feeQuote.fee_per_seat, marketConfig.currency)}</span>
                   </div>
                   <div className="flex justify-between text-sm pt-2 border-t border-coral-200">
-                    <span className="text-muted-foreground">You receive in cash (90%)</span>
-                    <span className="font-semibold">{formatCurrency(priceNum - bookingFee)}</span>
+                    <span className="text-muted-foreground">
+                      {fullFareInApp && marketConfig.driverPayouts ? 'You receive in your wallet' : 'You receive in cash'}
+                    </span>
+                    <span className="font-semibold">{formatCurrency(feeQuote.driver_share_per_seat, marketConfig.currency)}</span>
                   </div>
                 </div>
               )}
 
+              {/* Payment mode (wallets are only paid out in some markets) */}
+              {marketConfig.driverPayouts && (
+                <label className="flex items-start gap-3 p-4 rounded-lg border cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mt-1 h-4 w-4 accent-coral-500"
+                    checked={fullFareInApp}
+                    onChange={(e) => setFullFareInApp(e.target.checked)}
+                  />
+                  <span className="space-y-1">
+                    <span className="block text-sm font-medium">Passengers pay the full fare in the app</span>
+                    <span className="block text-xs text-muted-foreground">
+                      No cash on the day. Your share is added to your wallet once the ride is completed, and
+                      returned to the passenger if the booking is cancelled.
+                    </span>
+                  </span>
+                </label>
+              )}
+
               {/* Notes */}
               <div className="space-y-2">
                 <Label htmlFor="notes">Notes (optional)</Label>
@@ -433,7 +494,9 @@ export default function CreateRidePage() {
               <div className="flex items-start gap-2 text-sm text-muted-foreground">
                 <Info className="w-4 h-4 mt-0.5 shrink-0" />
                 <p>
-                  Passengers pay 10% booking fee online. You collect the remaining 90% in cash after the ride.
+                  {fullFareInApp
+                    ? 'Passengers pay the full fare online. Your share goes to your wallet after the ride.'
+                    : 'Passengers pay a booking fee online. You collect the rest of the fare in cash after the ride.'}
                 </p>
               </div>
 
@@ -8,6 +8,7 @@ import { LocationPicker } from '@/components/LocationPicker'
 import { HomePageSEO } from '@/components/SEO'
 import { formatCurrency, formatDate } from '@/lib/utils'
 import type { Ride } from '@/types'
+import { getMarket } from '@shared/markets'
 import { Search, Calendar, Users, Star, Plus, ArrowRight, RefreshCw, Shield, Wallet, UserCheck } from 'lucide-react'
 
 interface Location {
@@ -359,7 +360,7 @@ export default function HomePage({
                   <div className="flex items-start gap-3">
                     <div className="w-6 h-6 rounded-full bg-coral-500 text-white flex items-center justify-center text-xs font-bold flex-shrink-0">2</div>
                     <div>
-                      <p className="text-sm font-medium text-navy-900">Book with 10% deposit</p>
+                      <p className="text-sm font-medium text-navy-900">Book with a small deposit</p>
                       <p className="text-xs text-coral-500">Pay via Mobile Money to secure your seat</p>
                     </div>
                   </div>
@@ -367,7 +368,7 @@ export default function HomePage({
                     <div className="w-6 h-6 rounded-full bg-coral-500 text-white flex items-center justify-center text-xs font-bold flex-shrink-0">3</div>
                     <div>
                       <p className="text-sm font-medium text-navy-900">Travel and pay the rest</p>
-                      <p className="text-xs text-coral-500">Pay 90% in cash to your driver after the ride</p>
+                      <p className="text-xs text-coral-500">Pay the rest in cash to your driver after the ride, or the full fare in the app where the driver offers it</p>
                     </div>
                   </div>
                 </div>
@@ -385,7 +386,7 @@ export default function HomePage({
               <CardContent className="p-4">
                 <h3 className="font-medium text-navy-900 mb-2">Payment reminder</h3>
                 <p className="text-sm text-navy-800">
-                  Book with 10% via Mobile Money, pay 90% cash to driver after the ride.
+                  Book with a booking fee via Mobile Money, pay the rest in cash to the driver after the ride. Some drivers take the full fare in the app instead.
                 </p>
               </CardContent>
             </Card>
@@ -425,7 +426,7 @@ function RideCard({ ride }: { ride: RideWithDriver }) {
               </div>
             </div>
             <div className="text-right ml-4">
-              <p className="font-bold text-coral-500">{formatCurrency(ride.price)}</p>
+              <p className="font-bold text-coral-500">{formatCurrency(ride.price, getMarket(ride.market).currency)}</p>
               <p className="text-xs text-muted-foreground">per seat</p>
             </div>
           </div>
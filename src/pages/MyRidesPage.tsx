@@ -1,15 +1,31 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { useNavigate } from 'react-router-dom'
+import { Link, useNavigate } from 'react-router-dom'
 import { supabase, withTimeout, checkSessionHealth, forceLogout, RequestTimeoutError } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { PendingReviews } from '@/components/PendingReviews'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { useToast } from '@/hooks/use-toast'
+import { useContactReveal } from '@/hooks/useContactReveal'
 import { formatCurrency, formatDate } from '@/lib/utils'
-import type { Ride, Booking, User } from '@/types'
-import { Calendar, Users, Plus, X, Phone, MessageCircle } from 'lucide-react'
+import type {
+  Ride,
+  Booking,
+  User,
+  Payment,
+  CancellationQuote,
+  CancelRideBookingResult,
+  CancelRideResponse,
+  CompleteRideResult,
+  CurrencyCode,
+  DisputeBookingResult,
+  PaymentDocumentRequest,
+} from '@/types'
+import { getMarket } from '@shared/markets'
+import { Calendar, Users, Plus, X, Phone, MessageCircle, FileText, CheckCircle, AlertTriangle } from 'lucide-react'
 
 interface RideWithBookings extends Ride {
   bookings: (Booking & { passenger: User })[]
@@ -17,12 +33,45 @@ interface RideWithBookings extends Ride {
 
 interface BookingWithRide extends Booking {
   ride: Ride & { driver: User }
+  payments: Pick<Payment, 'id' | 'payment_type' | 'status'>[]
+}
+
+// Payments with a receipt: booking fees that went through (a refunded one was
+// still paid) and refunds that reached the passenger
+function receiptPayments(booking: BookingWithRide) {
+  return (booking.payments || []).filter((payment) =>
+    payment.payment_type === 'booking_fee'
+      ? payment.status === 'completed' || payment.status === 'refunded'
+      : payment.payment_type === 'refund_to_passenger' && payment.status === 'completed'
+  )
+}
+
+// Once a ride has departed either side can confirm it happened or dispute it,
+// until the booking is completed (see ride-completion-migration.sql)
+function hasDeparted(ride: Ride) {
+  return new Date(ride.departure_time) <= new Date()
+}
+
+// The driver can only complete the ride once it is due to have arrived:
+// departure plus its duration, or 12 hours if unknown (ride_expected_arrival())
+function expectedArrival(ride: Ride) {
+  return new Date(new Date(ride.departure_time).getTime() + (ride.duration_minutes ?? 720) * 60 * 1000)
+}
+
+function hasOpenDispute(booking: Booking) {
+  return !!booking.disputed_at && !booking.dispute_resolved_at
+}
+
+function currentMonth() {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`
 }
 
 export default function MyRidesPage() {
   const { user } = useAuth()
   const navigate = useNavigate()
   const { toast } = useToast()
+  const { phoneNumbers, revealingId, reveal } = useContactReveal()
 
   const [activeTab, setActiveTab] = useState('bookings')
   const [myRides, setMyRides] = useState<RideWithBookings[]>([])
@@ -30,6 +79,23 @@ export default function MyRidesPage() {
   const [loading, setLoading] = useState(true)
   const [cancelDialog, setCancelDialog] = useState<{ type: 'ride' | 'booking'; id: string } | null>(null)
   const [canceling, setCanceling] = useState(false)
+  // What the passenger gets back under the ride's cancellation policy (confirmed bookings only)
+  const [cancelQuote, setCancelQuote] = useState<CancellationQuote | null>(null)
+  // Per-passenger outcome of the last ride cancellation, shown to the driver
+  const [cancelRideResults, setCancelRideResults] = useState<{
+    currency: CurrencyCode
+    bookings: CancelRideBookingResult[]
+  } | null>(null)
+  const [statementMonth, setStatementMonth] = useState(currentMonth)
+  // Which receipt or statement is being generated, e.g. `${paymentId}:pdf`
+  const [openingDocument, setOpeningDocument] = useState<string | null>(null)
+  // The ride or booking being confirmed as completed
+  const [completingId, setCompletingId] = useState<string | null>(null)
+  const [disputeDialog, setDisputeDialog] = useState<{ bookingId: string; role: 'passenger' | 'driver' } | null>(null)
+  const [disputeReason, setDisputeReason] = useState('')
+  const [disputing, setDisputing] = useState(false)
+  // Bumped when a trip is completed so the review prompt picks it up
+  const [reviewsKey, setReviewsKey] = useState(0)
 
   const [error, setError] = useState<string | null>(null)
   const fetchInProgress = useRef(false)
@@ -57,7 +123,7 @@ export default function MyRidesPage() {
           .from('rides')
           .select(`
             *,
-            bookings:bookings(*, passenger:users(*))
+            bookings:bookings(*, passenger:users(id, full_name, avatar_url, average_rating, total_rides))
           `)
           .eq('driver_id', user?.id)
           .order('departure_time', { ascending: true }),
@@ -77,7 +143,8 @@ export default function MyRidesPage() {
           .from('bookings')
           .select(`
             *,
-            ride:rides(*, driver:users(*))
+            ride:rides(*, driver:users(id, full_name, avatar_url, average_rating, total_rides)),
+            payments:payments(id, payment_type, status)
           `)
           .eq('passenger_id', user?.id)
           .order('created_at', { ascending: false }),
@@ -115,40 +182,28 @@ export default function MyRidesPage() {
   const handleCancelRide = async (rideId: string) => {
     setCanceling(true)
 
-    // Cancel the ride
-    const { error } = await supabase
-      .from('rides')
-      .update({ status: 'cancelled' })
-      .eq('id', rideId)
+    // The server cancels the ride and every booking, and queues all refunds at once
+    const { data, error } = await supabase.functions.invoke('cancel-ride', {
+      body: { ride_id: rideId },
+    })
+    const result = data as CancelRideResponse | null
 
-    if (error) {
+    if (error || !result?.success) {
       toast({
         title: 'Failed to cancel ride',
-        description: error.message,
+        description: (result && !result.success ? result.error : error?.message) || 'Please try again.',
         variant: 'destructive',
       })
     } else {
-      // Refund all confirmed bookings
-      const ride = myRides.find(r => r.id === rideId)
-      const confirmedBookings = ride?.bookings.filter(b => b.status === 'confirmed') || []
-
-      for (const booking of confirmedBookings) {
-        // Trigger refund via edge function
-        await supabase.functions.invoke('process-refund', {
-          body: {
-            booking_id: booking.id,
-            cancellation_type: 'driver',
-          },
-        })
-      }
-
       toast({
         title: 'Ride cancelled',
-        description: confirmedBookings.length > 0
-          ? 'Passengers will be refunded.'
-          : 'Your ride has been cancelled.',
+        description: result.message,
         variant: 'success',
       })
+      if (result.bookings.length > 0) {
+        const ride = myRides.find((r) => r.id === rideId)
+        setCancelRideResults({ currency: getMarket(ride?.market).currency, bookings: result.bookings })
+      }
       fetchData()
     }
 
@@ -156,6 +211,44 @@ export default function MyRidesPage() {
     setCancelDialog(null)
   }
 
+  const openCancelBookingDialog = async (booking: BookingWithRide) => {
+    setCancelQuote(null)
+    setCancelDialog({ type: 'booking', id: booking.id })
+
+    if (booking.status === 'confirmed') {
+      const { data } = await supabase.rpc('evaluate_cancellation', {
+        p_ride_id: booking.ride_id,
+        p_cancelled_by: 'passenger',
+        p_amount: booking.booking_fee,
+        p_fare: booking.driver_fare,
+      })
+      setCancelQuote(data as CancellationQuote | null)
+    }
+  }
+
+  const getCancelBookingDescription = () => {
+    const booking = myBookings.find(b => b.id === cancelDialog?.id)
+    if (booking?.status !== 'confirmed') {
+      return "You haven't paid for this booking yet, so nothing will be charged."
+    }
+    if (!cancelQuote) {
+      return 'Checking the cancellation policy...'
+    }
+    if (!cancelQuote.success) {
+      return cancelQuote.message
+    }
+    const feeRefund = cancelQuote.passenger_amount - cancelQuote.fare_amount
+    const { currency } = getMarket(booking.ride.market)
+    const policy = `${cancelQuote.policy_name} policy (${cancelQuote.tier_label.toLowerCase()})`
+    const fee = feeRefund > 0
+      ? `${formatCurrency(feeRefund, currency)} of your ${formatCurrency(booking.booking_fee, currency)} booking fee will be refunded`
+      : 'your booking fee will not be refunded'
+    const fare = cancelQuote.fare_amount > 0
+      ? `, and your ${formatCurrency(cancelQuote.fare_amount, currency)} fare will be returned in full`
+      : ''
+    return `${policy}: ${fee}${fare}.`
+  }
+
   const handleCancelBooking = async (bookingId: string) => {
     setCanceling(true)
 
@@ -187,11 +280,23 @@ export default function MyRidesPage() {
         variant: 'success',
       })
     } else {
-      // Just cancel the booking without refund
-      await supabase
-        .from('bookings')
-        .update({ status: 'cancelled_by_passenger' })
-        .eq('id', bookingId)
+      // Just cancel the booking without refund (the state machine only allows this while unpaid)
+      const { error } = await supabase.rpc('transition_booking', {
+        p_booking_id: bookingId,
+        p_to_status: 'cancelled_by_passenger',
+        p_reason: 'passenger_cancelled_before_payment',
+      })
+
+      if (error) {
+        toast({
+          title: 'Cancellation failed',
+          description: error.message,
+          variant: 'destructive',
+        })
+        setCanceling(false)
+        setCancelDialog(null)
+        return
+      }
 
       toast({
         title: 'Booking cancelled',
@@ -204,6 +309,130 @@ export default function MyRidesPage() {
     setCancelDialog(null)
   }
 
+  const handleConfirmBooking = async (bookingId: string) => {
+    setCompletingId(bookingId)
+
+    const { error } = await supabase.rpc('transition_booking', {
+      p_booking_id: bookingId,
+      p_to_status: 'completed',
+      p_reason: 'passenger_confirmed_completion',
+    })
+
+    if (error) {
+      toast({
+        title: 'Could not confirm ride',
+        description: error.message,
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'Ride confirmed',
+        description: 'Thanks for riding with Blue Ox.',
+        variant: 'success',
+      })
+      fetchData()
+      setReviewsKey((key) => key + 1)
+    }
+
+    setCompletingId(null)
+  }
+
+  const handleCompleteRide = async (rideId: string) => {
+    setCompletingId(rideId)
+
+    const { data, error } = await supabase.rpc('complete_ride', { p_ride_id: rideId })
+    const result = data as CompleteRideResult | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Could not complete ride',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'Ride completed',
+        description: result.disputed_bookings > 0
+          ? `${result.disputed_bookings} disputed booking(s) stay open until we resolve them.`
+          : undefined,
+        variant: 'success',
+      })
+      fetchData()
+      setReviewsKey((key) => key + 1)
+    }
+
+    setCompletingId(null)
+  }
+
+  const openDisputeDialog = (bookingId: string, role: 'passenger' | 'driver') => {
+    setDisputeReason('')
+    setDisputeDialog({ bookingId, role })
+  }
+
+  const handleDispute = async () => {
+    if (!disputeDialog) return
+    setDisputing(true)
+
+    const { data, error } = await supabase.rpc('dispute_booking_completion', {
+      p_booking_id: disputeDialog.bookingId,
+      p_reason: disputeReason,
+    })
+    const result = data as DisputeBookingResult | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Could not report the problem',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      toast({
+        title: 'Problem reported',
+        description: "We'll look into it and get back to you. The booking stays open until then.",
+        variant: 'success',
+      })
+      setDisputeDialog(null)
+      fetchData()
+    }
+
+    setDisputing(false)
+  }
+
+  // Receipts and statements are rendered by the server: HTML opens in a new
+  // tab to view or print, PDF is downloaded
+  const openDocument = async (key: string, request: PaymentDocumentRequest) => {
+    setOpeningDocument(key)
+    // Opened before the request so the browser doesn't block it as a popup
+    const tab = request.format === 'pdf' ? null : window.open('', '_blank')
+
+    const { data, error } = await supabase.functions.invoke('payment-documents', { body: request })
+
+    if (error || !data) {
+      tab?.close()
+      toast({
+        title: request.document === 'receipt' ? 'Could not load receipt' : 'Could not load statement',
+        description: error?.message || 'Please try again.',
+        variant: 'destructive',
+      })
+    } else {
+      const blob = data instanceof Blob ? data : new Blob([data], { type: 'text/html' })
+      const url = URL.createObjectURL(blob)
+      if (tab) {
+        tab.location.href = url
+      } else {
+        const link = document.createElement('a')
+        link.href = url
+        link.download = request.document === 'receipt'
+          ? `blueox-receipt-${request.payment_id}.pdf`
+          : `blueox-statement-${request.month}.pdf`
+        link.click()
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000)
+    }
+
+    setOpeningDocument(null)
+  }
+
   const getStatusBadge = (status: string) => {
     const styles: Record<string, string> = {
       active: 'bg-green-100 text-green-800',
@@ -275,6 +504,43 @@ export default function MyRidesPage() {
 
       <div className="px-4 mt-6">
         <div className="max-w-lg mx-auto">
+          {user && <PendingReviews userId={user.id} reloadKey={reviewsKey} className="mb-4" />}
+
+          {/* Monthly statement */}
+          <Card className="mb-4">
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 mb-3">
+                <FileText className="w-4 h-4 text-muted-foreground" />
+                <span className="text-sm font-medium">Monthly statement</span>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  type="month"
+                  value={statementMonth}
+                  max={currentMonth()}
+                  onChange={(e) => setStatementMonth(e.target.value)}
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  loading={openingDocument === 'statement:html'}
+                  disabled={!statementMonth || openingDocument !== null}
+                  onClick={() => openDocument('statement:html', { document: 'statement', month: statementMonth })}
+                >
+                  View
+                </Button>
+                <Button
+                  variant="outline"
+                  loading={openingDocument === 'statement:pdf'}
+                  disabled={!statementMonth || openingDocument !== null}
+                  onClick={() => openDocument('statement:pdf', { document: 'statement', month: statementMonth, format: 'pdf' })}
+                >
+                  PDF
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
           <Tabs value={activeTab} onValueChange={setActiveTab}>
             <TabsList className="w-full">
               <TabsTrigger value="bookings" className="flex-1">
@@ -338,9 +604,11 @@ export default function MyRidesPage() {
                           <div className="w-8 h-8 rounded-full bg-coral-100 flex items-center justify-center text-navy-800 text-xs font-medium">
                             {booking.ride.driver.full_name[0]}
                           </div>
-                          <span className="text-sm">{booking.ride.driver.full_name}</span>
+                          <Link to={`/users/${booking.ride.driver_id}`} className="text-sm hover:underline">
+                            {booking.ride.driver.full_name}
+                          </Link>
                         </div>
-                        <span className="font-medium">{formatCurrency(booking.ride.price)}</span>
+                        <span className="font-medium">{formatCurrency(booking.ride.price, getMarket(booking.ride.market).currency)}</span>
                       </div>
 
                       {/* Actions */}
@@ -354,16 +622,16 @@ export default function MyRidesPage() {
                           </Button>
                         )}
 
-                        {booking.status === 'confirmed' && (
+                        {booking.status === 'confirmed' && (phoneNumbers[booking.id] ? (
                           <>
-                            <a href={`tel:${booking.ride.driver.phone_number}`} className="flex-1">
+                            <a href={`tel:${phoneNumbers[booking.id]}`} className="flex-1">
                               <Button variant="outline" className="w-full">
                                 <Phone className="w-4 h-4 mr-1" />
                                 Call
                               </Button>
                             </a>
                             <a
-                              href={`https://wa.me/${booking.ride.driver.phone_number?.replace(/\D/g, '')}`}
+                              href={`https://wa.me/${phoneNumbers[booking.id].replace(/\D/g, '')}`}
                               className="flex-1"
                             >
                               <Button variant="outline" className="w-full">
@@ -372,19 +640,86 @@ export default function MyRidesPage() {
                               </Button>
                             </a>
                           </>
-                        )}
+                        ) : (
+                          <Button
+                            variant="outline"
+                            className="flex-1"
+                            loading={revealingId === booking.id}
+                            onClick={() => reveal(booking.id)}
+                          >
+                            <Phone className="w-4 h-4 mr-1" />
+                            Contact driver
+                          </Button>
+                        ))}
 
                         {(booking.status === 'pending_payment' || booking.status === 'confirmed') &&
                           new Date(booking.ride.departure_time) > new Date() && (
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => setCancelDialog({ type: 'booking', id: booking.id })}
+                            onClick={() => openCancelBookingDialog(booking)}
                           >
                             <X className="w-4 h-4" />
                           </Button>
                         )}
                       </div>
+
+                      {/* Completion */}
+                      {booking.status === 'confirmed' && hasDeparted(booking.ride) && (
+                        hasOpenDispute(booking) ? (
+                          <p className="mt-3 flex items-center gap-2 text-xs text-yellow-700">
+                            <AlertTriangle className="w-3 h-3" />
+                            Disputed. We're looking into it.
+                          </p>
+                        ) : (
+                          <div className="mt-3 flex gap-2">
+                            <Button
+                              className="flex-1"
+                              loading={completingId === booking.id}
+                              disabled={completingId !== null}
+                              onClick={() => handleConfirmBooking(booking.id)}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Confirm ride
+                            </Button>
+                            <Button
+                              variant="outline"
+                              className="flex-1"
+                              onClick={() => openDisputeDialog(booking.id, 'passenger')}
+                            >
+                              Report a problem
+                            </Button>
+                          </div>
+                        )
+                      )}
+
+                      {/* Receipts */}
+                      {receiptPayments(booking).length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          {receiptPayments(booking).map((payment) => (
+                            <div key={payment.id} className="flex items-center gap-2 text-xs text-muted-foreground">
+                              <FileText className="w-3 h-3" />
+                              <span className="flex-1">
+                                {payment.payment_type === 'booking_fee' ? 'Payment receipt' : 'Refund receipt'}
+                              </span>
+                              <button
+                                className="text-primary font-medium disabled:opacity-50"
+                                disabled={openingDocument !== null}
+                                onClick={() => openDocument(`${payment.id}:html`, { document: 'receipt', payment_id: payment.id })}
+                              >
+                                {openingDocument === `${payment.id}:html` ? 'Opening...' : 'View'}
+                              </button>
+                              <button
+                                className="text-primary font-medium disabled:opacity-50"
+                                disabled={openingDocument !== null}
+                                onClick={() => openDocument(`${payment.id}:pdf`, { document: 'receipt', payment_id: payment.id, format: 'pdf' })}
+                              >
+                                {openingDocument === `${payment.id}:pdf` ? 'Downloading...' : 'PDF'}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))
@@ -426,7 +761,7 @@ export default function MyRidesPage() {
                         </div>
                         <div className="text-right">
                           {getStatusBadge(ride.status)}
-                          <p className="text-sm font-medium mt-1">{formatCurrency(ride.price)}/seat</p>
+                          <p className="text-sm font-medium mt-1">{formatCurrency(ride.price, getMarket(ride.market).currency)}/seat</p>
                         </div>
                       </div>
 
@@ -455,19 +790,45 @@ export default function MyRidesPage() {
                                       {booking.passenger.full_name[0]}
                                     </div>
                                     <div>
-                                      <p className="text-sm font-medium">{booking.passenger.full_name}</p>
+                                      <Link to={`/users/${booking.passenger_id}`} className="text-sm font-medium hover:underline">
+                                        {booking.passenger.full_name}
+                                      </Link>
                                       <p className="text-xs text-muted-foreground">
                                         {booking.seats_booked} seat(s)
                                       </p>
                                     </div>
                                   </div>
-                                  {booking.passenger.phone_number && (
-                                    <a href={`tel:${booking.passenger.phone_number}`}>
-                                      <Button variant="ghost" size="sm">
+                                  <div className="flex items-center">
+                                    {hasOpenDispute(booking) ? (
+                                      <span className="text-xs text-yellow-700">Disputed</span>
+                                    ) : hasDeparted(ride) && (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => openDisputeDialog(booking.id, 'driver')}
+                                      >
+                                        Report
+                                      </Button>
+                                    )}
+                                    {phoneNumbers[booking.id] ? (
+                                      <a href={`tel:${phoneNumbers[booking.id]}`}>
+                                        <Button variant="ghost" size="sm">
+                                          <Phone className="w-4 h-4 mr-1" />
+                                          {phoneNumbers[booking.id]}
+                                        </Button>
+                                      </a>
+                                    ) : (
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        aria-label={`Show ${booking.passenger.full_name}'s phone number`}
+                                        loading={revealingId === booking.id}
+                                        onClick={() => reveal(booking.id)}
+                                      >
                                         <Phone className="w-4 h-4" />
                                       </Button>
-                                    </a>
-                                  )}
+                                    )}
+                                  </div>
                                 </div>
                               ))}
                           </div>
@@ -486,6 +847,26 @@ export default function MyRidesPage() {
                           </Button>
                         </div>
                       )}
+
+                      {(ride.status === 'active' || ride.status === 'full') && hasDeparted(ride) && (
+                        <div className="mt-4 pt-4 border-t">
+                          {expectedArrival(ride) <= new Date() ? (
+                            <Button
+                              className="w-full"
+                              loading={completingId === ride.id}
+                              disabled={completingId !== null}
+                              onClick={() => handleCompleteRide(ride.id)}
+                            >
+                              <CheckCircle className="w-4 h-4 mr-1" />
+                              Confirm ride completed
+                            </Button>
+                          ) : (
+                            <p className="text-xs text-muted-foreground text-center">
+                              You can confirm the ride completed once it is due to arrive ({formatDate(expectedArrival(ride))}).
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))
@@ -504,8 +885,8 @@ export default function MyRidesPage() {
             </DialogTitle>
             <DialogDescription>
               {cancelDialog?.type === 'ride'
-                ? 'All confirmed passengers will be refunded their booking fees.'
-                : 'Refund policy: Cancel more than 1 hour before departure for a full refund. Cancellations within 1 hour forfeit the booking fee to the driver.'}
+                ? 'All bookings will be cancelled and confirmed passengers refunded under the ride\'s cancellation policy.'
+                : getCancelBookingDescription()}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter>
@@ -528,6 +909,78 @@ export default function MyRidesPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Dispute Dialog */}
+      <Dialog open={!!disputeDialog} onOpenChange={() => setDisputeDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report a problem</DialogTitle>
+            <DialogDescription>
+              {disputeDialog?.role === 'driver'
+                ? "Tell us what happened, e.g. the passenger didn't show up. The booking won't be completed until we've looked into it."
+                : "Tell us what happened, e.g. the driver never came. The booking won't be completed, and the driver won't be paid any fare you paid in the app, until we've looked into it."}
+            </DialogDescription>
+          </DialogHeader>
+          <textarea
+            className="flex min-h-[80px] w-full rounded-lg border border-input bg-background px-4 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+            placeholder="What went wrong?"
+            value={disputeReason}
+            onChange={(e) => setDisputeReason(e.target.value)}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisputeDialog(null)}>
+              Never mind
+            </Button>
+            <Button
+              variant="destructive"
+              loading={disputing}
+              disabled={!disputeReason.trim()}
+              onClick={handleDispute}
+            >
+              Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Ride Cancellation Results */}
+      <Dialog open={!!cancelRideResults} onOpenChange={() => setCancelRideResults(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ride Cancelled</DialogTitle>
+            <DialogDescription>
+              What happened to each passenger's booking.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {cancelRideResults?.bookings.map((result) => (
+              <div key={result.booking_id} className="p-3 bg-muted rounded-lg text-sm">
+                <p className="font-medium">{result.passenger_name}</p>
+                {result.refunds.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    {result.previous_status === 'pending_payment'
+                      ? 'Booking cancelled (not yet paid)'
+                      : 'Booking cancelled, no refund due'}
+                  </p>
+                ) : (
+                  result.refunds.map((refund) => (
+                    <p
+                      key={refund.to}
+                      className={refund.initiated ? 'text-green-700' : 'text-yellow-700'}
+                    >
+                      {refund.to === 'passenger' ? 'Refund' : 'Your share'} of {formatCurrency(refund.amount, cancelRideResults.currency)}{' '}
+                      {refund.initiated ? 'sent' : 'will be retried shortly'}
+                    </p>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCancelRideResults(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -1,14 +1,19 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useParams, useNavigate, useLocation } from 'react-router-dom'
+import { FunctionsFetchError, FunctionsRelayError } from '@supabase/supabase-js'
 import { supabase, withTimeout, RequestTimeoutError } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { SeatHoldCountdown } from '@/components/SeatHoldCountdown'
+import { PhoneNumberHint } from '@/components/PhoneNumberHint'
 import { useToast } from '@/hooks/use-toast'
 import { formatCurrency } from '@/lib/utils'
-import type { Booking, Ride, Payment } from '@/types'
+import { getMarket } from '@shared/markets'
+import { NETWORK_NAMES, marketNetworks, parsePhoneNumber } from '@shared/phone'
+import type { Booking, Ride, Payment, PromoCodeQuote } from '@/types'
 import { ArrowLeft, Smartphone, CheckCircle, XCircle, Loader2, RefreshCw } from 'lucide-react'
 
 interface BookingWithRide extends Booking {
@@ -28,8 +33,16 @@ export default function PaymentPage() {
   const [loading, setLoading] = useState(true)
   const [initiating, setInitiating] = useState(false)
   const [checking, setChecking] = useState(false)
+  const [promoInput, setPromoInput] = useState('')
+  const [promo, setPromo] = useState<Extract<PromoCodeQuote, { success: true }> | null>(null)
+  const [applyingPromo, setApplyingPromo] = useState(false)
+
+  // The booking is paid in the currency, and through the provider, of the ride's market
+  const market = getMarket(booking?.ride.market)
 
   const fetchInProgress = useRef(false)
+  // Kept across retries of one "Pay" tap so initiate-payment never charges twice
+  const idempotencyKey = useRef<string | null>(null)
 
   const fetchBooking = useCallback(async () => {
     // Prevent concurrent fetches
@@ -212,21 +225,50 @@ export default function PaymentPage() {
     }
   }
 
+  // Preview only; initiate-payment checks the code again when paying
+  const applyPromoCode = async () => {
+    if (!booking || !promoInput.trim()) return
+
+    setApplyingPromo(true)
+    const { data, error } = await supabase.rpc('evaluate_promo_code', {
+      p_code: promoInput,
+      p_booking_id: booking.id,
+    })
+    const result = data as PromoCodeQuote | null
+
+    if (error || !result?.success) {
+      toast({
+        title: 'Promo code not applied',
+        description: error?.message || (result && !result.success ? result.message : 'Please try again.'),
+        variant: 'destructive',
+      })
+    } else {
+      setPromo(result)
+      toast({
+        title: 'Promo code applied',
+        description: `${formatCurrency(result.discount, market.currency)} off your booking fee.`,
+        variant: 'success',
+      })
+    }
+    setApplyingPromo(false)
+  }
+
   const initiatePayment = async () => {
-    if (!booking || !user) return
+    if (!booking || !user || initiating) return
 
     // Validate phone
-    const phoneRegex = /^(\+256|0)?[7-9]\d{8}$/
-    if (!phoneRegex.test(phoneNumber.replace(/\s/g, ''))) {
+    const parsedPhone = parsePhoneNumber(phoneNumber, market.code)
+    if (!parsedPhone.ok) {
       toast({
         title: 'Invalid phone number',
-        description: 'Please enter a valid Uganda mobile money number.',
+        description: parsedPhone.message,
         variant: 'destructive',
       })
       return
     }
 
     setInitiating(true)
+    idempotencyKey.current ??= crypto.randomUUID()
 
     try {
       // Call edge function to initiate payment
@@ -234,14 +276,29 @@ export default function PaymentPage() {
         body: {
           booking_id: booking.id,
           phone_number: phoneNumber,
+          idempotency_key: idempotencyKey.current,
+          promo_code: promo?.code,
         },
       })
 
+      // If the request may not have reached the server, the next tap resends the same key
+      if (!(error instanceof FunctionsFetchError || error instanceof FunctionsRelayError)) {
+        idempotencyKey.current = null
+      }
+
       if (error) throw error
 
-      if (data.success) {
+      if (data.success && data.confirmed) {
+        // The promo code covered everything; no prompt was sent
+        toast({
+          title: 'Booking confirmed!',
+          description: data.message,
+          variant: 'success',
+        })
+        await fetchBooking()
+      } else if (data.success) {
         toast({
-          title: 'Payment initiated',
+          title: data.reused ? 'Payment already in progress' : 'Payment initiated',
           description: 'Check your phone to approve the mobile money transaction.',
           variant: 'success',
         })
@@ -256,6 +313,11 @@ export default function PaymentPage() {
         if (paymentData) {
           setPayment(paymentData as Payment)
         }
+
+        // The hold was extended while the prompt is pending
+        if (data.hold_expires_at) {
+          setBooking({ ...booking, hold_expires_at: data.hold_expires_at })
+        }
       } else {
         throw new Error(data.error || 'Payment initiation failed')
       }
@@ -281,6 +343,9 @@ export default function PaymentPage() {
 
   if (!booking) return null
 
+  const amountDue = promo ? promo.amount_due : booking.booking_fee + booking.driver_fare
+  const itemised = booking.driver_fare > 0 || !!promo
+
   // If booking is already confirmed, redirect to ride details
   if (booking.status === 'confirmed') {
     return (
@@ -344,11 +409,34 @@ export default function PaymentPage() {
                   <span className="text-muted-foreground">Seats</span>
                   <span>{booking.seats_booked}</span>
                 </div>
+                {itemised && (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Booking fee</span>
+                      <span>{formatCurrency(booking.booking_fee, market.currency)}</span>
+                    </div>
+                    {promo && (
+                      <div className="flex justify-between text-green-700">
+                        <span>Promo {promo.code}</span>
+                        <span>-{formatCurrency(promo.discount, market.currency)}</span>
+                      </div>
+                    )}
+                    {booking.driver_fare > 0 && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Driver's fare</span>
+                        <span>{formatCurrency(booking.driver_fare, market.currency)}</span>
+                      </div>
+                    )}
+                  </>
+                )}
                 <div className="flex justify-between font-medium pt-2 border-t">
-                  <span>Booking fee</span>
-                  <span className="text-navy-900">{formatCurrency(booking.booking_fee)}</span>
+                  <span>{itemised ? 'Total' : 'Booking fee'}</span>
+                  <span className="text-navy-900">{formatCurrency(amountDue, market.currency)}</span>
                 </div>
               </div>
+              {booking.status === 'pending_payment' && (
+                <SeatHoldCountdown expiresAt={booking.hold_expires_at} className="mt-4 pt-4 border-t" />
+              )}
             </CardContent>
           </Card>
 
@@ -362,6 +450,7 @@ export default function PaymentPage() {
                     <p className="font-medium text-yellow-800">Processing Payment</p>
                     <p className="text-sm text-yellow-700">
                       Waiting for confirmation on {payment.phone_number}
+                      {payment.network && ` (${NETWORK_NAMES[payment.network]})`}
                     </p>
                   </div>
                 </div>
@@ -404,7 +493,9 @@ export default function PaymentPage() {
                   </div>
                   <div>
                     <p className="font-medium">Mobile Money</p>
-                    <p className="text-sm text-muted-foreground">MTN, Airtel Money</p>
+                    <p className="text-sm text-muted-foreground">
+                      {marketNetworks(market.code).map((network) => NETWORK_NAMES[network]).join(', ')}
+                    </p>
                   </div>
                 </div>
 
@@ -414,13 +505,42 @@ export default function PaymentPage() {
                     <Input
                       id="phone"
                       type="tel"
-                      placeholder="07XX XXX XXX"
+                      placeholder={market.phoneExample}
                       value={phoneNumber}
                       onChange={(e) => setPhoneNumber(e.target.value)}
                     />
-                    <p className="text-xs text-muted-foreground">
+                    <PhoneNumberHint phoneNumber={phoneNumber} market={market.code}>
                       Enter the number to receive the payment prompt
-                    </p>
+                    </PhoneNumberHint>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="promo">Promo code (optional)</Label>
+                    {promo ? (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-green-700">{promo.code} applied</span>
+                        <Button variant="ghost" size="sm" onClick={() => setPromo(null)} disabled={initiating}>
+                          Remove
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Input
+                          id="promo"
+                          placeholder="e.g. CHURCH10"
+                          value={promoInput}
+                          onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={applyPromoCode}
+                          loading={applyingPromo}
+                          disabled={!promoInput.trim()}
+                        >
+                          Apply
+                        </Button>
+                      </div>
+                    )}
                   </div>
 
                   <Button
@@ -429,7 +549,7 @@ export default function PaymentPage() {
                     onClick={initiatePayment}
                     loading={initiating}
                   >
-                    Pay {formatCurrency(booking.booking_fee)}
+                    {amountDue === 0 ? 'Confirm booking' : `Pay ${formatCurrency(amountDue, market.currency)}`}
                   </Button>
                 </div>
               </CardContent>
@@ -443,7 +563,11 @@ export default function PaymentPage() {
               <li>You'll receive a payment prompt on your phone</li>
               <li>Enter your PIN to confirm the payment</li>
               <li>Once confirmed, you'll get the driver's contact</li>
-              <li>Pay {formatCurrency(booking.ride.price - booking.booking_fee / booking.seats_booked)} per seat in cash to the driver after the ride</li>
+              {booking.driver_fare > 0 ? (
+                <li>Your fare is paid in full; there is nothing to pay the driver on the day</li>
+              ) : (
+                <li>Pay {formatCurrency(booking.ride.price - booking.booking_fee / booking.seats_booked, market.currency)} per seat in cash to the driver after the ride</li>
+              )}
             </ol>
           </div>
         </div>
@@ -7,8 +7,11 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent } from '@/components/ui/card'
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { DriverWallet } from '@/components/DriverWallet'
+import { FailedRefunds } from '@/components/FailedRefunds'
+import { ReviewList } from '@/components/ReviewList'
 import { useToast } from '@/hooks/use-toast'
-import { Camera, Star, Car, LogOut } from 'lucide-react'
+import { Camera, Star, Car, LogOut, ShieldCheck, History } from 'lucide-react'
 
 export default function ProfilePage() {
   const { profile, updateProfile, signOut, refreshProfile } = useAuth()
@@ -224,6 +227,28 @@ export default function ProfilePage() {
               </Button>
             </form>
 
+            {profile.role === 'admin' && (
+              <Button
+                variant="outline"
+                className="w-full mt-4"
+                onClick={() => navigate('/admin/payouts')}
+              >
+                <ShieldCheck className="w-4 h-4 mr-2" />
+                Payout Requests
+              </Button>
+            )}
+
+            {profile.role === 'admin' && (
+              <Button
+                variant="outline"
+                className="w-full mt-4"
+                onClick={() => navigate('/admin/payments')}
+              >
+                <History className="w-4 h-4 mr-2" />
+                Payment Timeline
+              </Button>
+            )}
+
             {/* Sign Out */}
             <Button
               variant="outline"
@@ -235,6 +260,10 @@ export default function ProfilePage() {
             </Button>
           </CardContent>
         </Card>
+
+        <DriverWallet userId={profile.id} className="max-w-md mx-auto mt-4" />
+        <FailedRefunds userId={profile.id} className="max-w-md mx-auto mt-4" />
+        <ReviewList userId={profile.id} title="Reviews of you" className="max-w-md mx-auto mt-4" />
       </div>
     </div>
   )
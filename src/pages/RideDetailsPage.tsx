@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { Link, useParams, useNavigate } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
@@ -10,10 +10,17 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { MapView } from '@/components/MapView'
 import { RideDetailsSEO } from '@/components/SEO'
+import { SeatHoldCountdown } from '@/components/SeatHoldCountdown'
 import { useToast } from '@/hooks/use-toast'
-import { formatCurrency, formatDate, calculateBookingFee } from '@/lib/utils'
-import type { Ride, User, Booking, CarPhoto } from '@/types'
-import { ArrowLeft, Calendar, Users, Star, Phone, MessageCircle, Clock, Info, Car } from 'lucide-react'
+import { formatCurrency, formatDate } from '@/lib/utils'
+import { useFeeQuote } from '@/hooks/useFeeQuote'
+import { useContactReveal } from '@/hooks/useContactReveal'
+import { PhoneNumberHint } from '@/components/PhoneNumberHint'
+import { ReviewList } from '@/components/ReviewList'
+import { getMarket } from '@shared/markets'
+import { parsePhoneNumber } from '@shared/phone'
+import type { Ride, User, Booking, CarPhoto, CreateBookingResult, CancellationPolicy, CancellationPolicyTier, CancellationQuote } from '@/types'
+import { ArrowLeft, Calendar, Users, Star, Phone, MessageCircle, Clock, Info, Car, RotateCcw } from 'lucide-react'
 
 interface RideWithDriver extends Ride {
   driver: User
@@ -25,6 +32,7 @@ export default function RideDetailsPage() {
   const { user, profile } = useAuth()
   const navigate = useNavigate()
   const { toast } = useToast()
+  const { phoneNumbers, revealingId, reveal } = useContactReveal()
 
   const [ride, setRide] = useState<RideWithDriver | null>(null)
   const [existingBooking, setExistingBooking] = useState<Booking | null>(null)
@@ -33,8 +41,16 @@ export default function RideDetailsPage() {
   const [seats, setSeats] = useState(1)
   const [phoneNumber, setPhoneNumber] = useState('')
   const [booking, setBooking] = useState(false)
+  // Seats not taken or held by other passengers' pending bookings
+  const [bookableSeats, setBookableSeats] = useState(0)
+  // Same policy evaluation process-refund uses, so passengers see what they'd get back
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy | null>(null)
+  const [cancellationQuote, setCancellationQuote] = useState<CancellationQuote | null>(null)
 
   const isDriver = ride?.driver_id === user?.id
+  // Prices and payments are in the currency of the market the ride departs from
+  const market = getMarket(ride?.market)
+  const feeQuote = useFeeQuote(ride?.price ?? 0, ride?.distance_km ?? null, ride?.driver_id ?? null, market.code)
 
   useEffect(() => {
     if (id) {
@@ -56,7 +72,7 @@ export default function RideDetailsPage() {
       .from('rides')
       .select(`
         *,
-        driver:users(*),
+        driver:users(id, full_name, avatar_url, average_rating, total_rides),
         car_photo:car_photos(*)
       `)
       .eq('id', id)
@@ -75,6 +91,12 @@ export default function RideDetailsPage() {
 
     setRide(rideData as RideWithDriver)
 
+    const { data: bookableData } = await supabase.rpc('ride_bookable_seats', { p_ride_id: id })
+    setBookableSeats(typeof bookableData === 'number' ? bookableData : rideData.available_seats)
+
+    const { data: policyData } = await supabase.rpc('ride_cancellation_policy', { p_ride_id: id })
+    setCancellationPolicy(policyData as CancellationPolicy | null)
+
     // Check for existing booking
     if (user) {
       const { data: bookingData } = await supabase
@@ -87,6 +109,16 @@ export default function RideDetailsPage() {
 
       if (bookingData) {
         setExistingBooking(bookingData as Booking)
+
+        if (bookingData.status === 'confirmed') {
+          const { data: quoteData } = await supabase.rpc('evaluate_cancellation', {
+            p_ride_id: id,
+            p_cancelled_by: 'passenger',
+            p_amount: bookingData.booking_fee,
+            p_fare: bookingData.driver_fare,
+          })
+          setCancellationQuote(quoteData as CancellationQuote | null)
+        }
       }
     }
 
@@ -97,20 +129,20 @@ export default function RideDetailsPage() {
     if (!user || !ride) return
 
     // Validate phone number
-    const phoneRegex = /^(\+256|0)?[7-9]\d{8}$/
-    if (!phoneRegex.test(phoneNumber.replace(/\s/g, ''))) {
+    const parsedPhone = parsePhoneNumber(phoneNumber, market.code)
+    if (!parsedPhone.ok) {
       toast({
         title: 'Invalid phone number',
-        description: 'Please enter a valid Uganda phone number (07XXXXXXXX)',
+        description: parsedPhone.message,
         variant: 'destructive',
       })
       return
     }
 
-    if (seats > ride.available_seats) {
+    if (seats > bookableSeats) {
       toast({
         title: 'Not enough seats',
-        description: `Only ${ride.available_seats} seats available.`,
+        description: `Only ${bookableSeats} seats available.`,
         variant: 'destructive',
       })
       return
@@ -118,26 +150,18 @@ export default function RideDetailsPage() {
 
     setBooking(true)
 
-    const bookingFee = calculateBookingFee(ride.price) * seats
-
-    // Create booking
-    const { data: bookingData, error: bookingError } = await supabase
-      .from('bookings')
-      .insert({
-        ride_id: ride.id,
-        passenger_id: user.id,
-        seats_booked: seats,
-        booking_fee: bookingFee,
-        status: 'pending_payment',
-      })
-      .select()
-      .single()
+    // The server checks availability and works out the fee
+    const { data, error: bookingError } = await supabase.rpc('create_booking', {
+      p_ride_id: ride.id,
+      p_seats: seats,
+    })
+    const result = data as CreateBookingResult | null
 
-    if (bookingError) {
-      console.error('Booking error:', bookingError)
+    if (bookingError || !result?.success) {
+      console.error('Booking error:', bookingError || result)
       toast({
         title: 'Booking failed',
-        description: bookingError.message,
+        description: bookingError?.message || (result && !result.success ? result.message : 'Please try again.'),
         variant: 'destructive',
       })
       setBooking(false)
@@ -160,11 +184,17 @@ export default function RideDetailsPage() {
     })
 
     // Navigate to payment page
-    navigate(`/bookings/${bookingData.id}/pay`, { state: { phone: phoneNumber } })
+    navigate(`/bookings/${result.booking_id}/pay`, { state: { phone: phoneNumber } })
 
     setBooking(false)
   }
 
+  const describeRefund = (tier: CancellationPolicyTier) => {
+    if (tier.passenger_percent === 100) return 'Full refund'
+    if (tier.passenger_percent === 0) return 'No refund'
+    return `${tier.passenger_percent}% refunded`
+  }
+
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -174,7 +204,8 @@ export default function RideDetailsPage() {
       .substring(0, 2)
   }
 
-  if (loading) {
+  // Wait for the fee quote too, so prices are never shown without it
+  if (loading || (ride && !feeQuote)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
@@ -182,14 +213,17 @@ export default function RideDetailsPage() {
     )
   }
 
-  if (!ride) return null
+  if (!ride || !feeQuote) return null
 
-  const bookingFee = calculateBookingFee(ride.price)
-  const totalBookingFee = bookingFee * seats
-  const cashPayment = (ride.price - bookingFee) * seats
+  const bookingFee = feeQuote.fee_per_seat
+  const driverShare = feeQuote.driver_share_per_seat
+  // Full-fare rides are paid entirely in the app; otherwise the driver's share is paid in cash
+  const fullFare = ride.full_fare_in_app
+  const totalPayNow = (fullFare ? ride.price : bookingFee) * seats
+  const cashPayment = fullFare ? 0 : driverShare * seats
 
   const isPastRide = new Date(ride.departure_time) < new Date()
-  const rideIsBookable = !existingBooking && ride.available_seats > 0 && ride.status === 'active' && !isPastRide
+  const rideIsBookable = !existingBooking && bookableSeats > 0 && ride.status === 'active' && !isPastRide
   const canBook = user && !isDriver && rideIsBookable
   const showLoginToBook = !user && rideIsBookable
 
@@ -248,7 +282,7 @@ export default function RideDetailsPage() {
                   </div>
                   <div className="flex items-center gap-2 text-sm">
                     <Users className="w-4 h-4 text-muted-foreground" />
-                    <span>{ride.available_seats} of {ride.total_seats} seats left</span>
+                    <span>{bookableSeats} of {ride.total_seats} seats left</span>
                   </div>
                 </div>
 
@@ -344,7 +378,9 @@ export default function RideDetailsPage() {
                   </AvatarFallback>
                 </Avatar>
                 <div className="flex-1">
-                  <p className="font-semibold">{ride.driver.full_name}</p>
+                  <Link to={`/users/${ride.driver_id}`} className="font-semibold hover:underline">
+                    {ride.driver.full_name}
+                  </Link>
                   <div className="flex items-center gap-3 text-sm text-muted-foreground">
                     {ride.driver.average_rating && (
                       <span className="flex items-center gap-1">
@@ -357,55 +393,71 @@ export default function RideDetailsPage() {
                 </div>
               </div>
 
-              {/* Show driver contact only for confirmed bookings */}
-              {existingBooking?.status === 'confirmed' && ride.driver.phone_number && (
+              {/* Driver contact only for confirmed bookings; reveal_contact enforces it */}
+              {existingBooking?.status === 'confirmed' && (
                 <div className="mt-4 pt-4 border-t">
                   <p className="text-sm text-muted-foreground mb-2">Contact Driver</p>
-                  <div className="flex gap-2">
-                    <a
-                      href={`tel:${ride.driver.phone_number}`}
-                      className="flex-1"
-                    >
-                      <Button variant="outline" className="w-full">
-                        <Phone className="w-4 h-4 mr-2" />
-                        Call
-                      </Button>
-                    </a>
-                    <a
-                      href={`https://wa.me/${ride.driver.phone_number.replace(/\D/g, '')}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex-1"
+                  {phoneNumbers[existingBooking.id] ? (
+                    <div className="flex gap-2">
+                      <a
+                        href={`tel:${phoneNumbers[existingBooking.id]}`}
+                        className="flex-1"
+                      >
+                        <Button variant="outline" className="w-full">
+                          <Phone className="w-4 h-4 mr-2" />
+                          Call
+                        </Button>
+                      </a>
+                      <a
+                        href={`https://wa.me/${phoneNumbers[existingBooking.id].replace(/\D/g, '')}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex-1"
+                      >
+                        <Button variant="outline" className="w-full">
+                          <MessageCircle className="w-4 h-4 mr-2" />
+                          WhatsApp
+                        </Button>
+                      </a>
+                    </div>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      className="w-full"
+                      loading={revealingId === existingBooking.id}
+                      onClick={() => reveal(existingBooking.id)}
                     >
-                      <Button variant="outline" className="w-full">
-                        <MessageCircle className="w-4 h-4 mr-2" />
-                        WhatsApp
-                      </Button>
-                    </a>
-                  </div>
+                      <Phone className="w-4 h-4 mr-2" />
+                      Show phone number
+                    </Button>
+                  )}
                 </div>
               )}
             </CardContent>
           </Card>
 
+          <ReviewList userId={ride.driver_id} title={`Reviews of ${ride.driver.full_name}`} limit={5} />
+
           {/* Price Card */}
           <Card>
             <CardContent className="p-5">
               <div className="flex items-center justify-between mb-4">
                 <span className="text-muted-foreground">Price per seat</span>
                 <span className="text-2xl font-bold text-navy-900">
-                  {formatCurrency(ride.price)}
+                  {formatCurrency(ride.price, market.currency)}
                 </span>
               </div>
 
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Booking fee (10%)</span>
-                  <span>{formatCurrency(bookingFee)}</span>
+                  <span className="text-muted-foreground">Booking fee</span>
+                  <span>{formatCurrency(bookingFee, market.currency)}</span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-muted-foreground">Pay driver in cash (90%)</span>
-                  <span>{formatCurrency(ride.price - bookingFee)}</span>
+                  <span className="text-muted-foreground">
+                    {fullFare ? "Driver's share, paid in the app" : 'Pay driver in cash'}
+                  </span>
+                  <span>{formatCurrency(driverShare, market.currency)}</span>
                 </div>
               </div>
             </CardContent>
@@ -421,14 +473,15 @@ export default function RideDetailsPage() {
                       <Clock className="w-5 h-5 text-yellow-600" />
                       <span className="font-medium text-yellow-800">Payment Pending</span>
                     </div>
-                    <p className="text-sm text-yellow-700 mb-4">
+                    <p className="text-sm text-yellow-700 mb-3">
                       Complete payment to confirm your booking and access driver contact.
                     </p>
+                    <SeatHoldCountdown expiresAt={existingBooking.hold_expires_at} className="mb-4" />
                     <Button
                       className="w-full"
                       onClick={() => navigate(`/bookings/${existingBooking.id}/pay`)}
                     >
-                      Complete Payment ({formatCurrency(existingBooking.booking_fee)})
+                      Complete Payment ({formatCurrency(existingBooking.booking_fee + existingBooking.driver_fare, market.currency)})
                     </Button>
                   </>
                 ) : (
@@ -445,8 +498,21 @@ export default function RideDetailsPage() {
                       You have booked {existingBooking.seats_booked} seat(s). Contact the driver to coordinate pickup.
                     </p>
                     <p className="text-sm text-green-700 mt-2 font-medium">
-                      Pay {formatCurrency(cashPayment)} cash to driver after ride.
+                      {existingBooking.driver_fare > 0
+                        ? 'Your fare is paid in full. Nothing to pay the driver.'
+                        : `Pay ${formatCurrency(driverShare * existingBooking.seats_booked, market.currency)} cash to driver after ride.`}
                     </p>
+                    {cancellationQuote?.success && (
+                      <p className="text-xs text-green-700 mt-3 pt-3 border-t border-green-200">
+                        If you cancel now ({cancellationQuote.tier_label.toLowerCase()}):{' '}
+                        {cancellationQuote.passenger_amount - cancellationQuote.fare_amount > 0
+                          ? `${formatCurrency(cancellationQuote.passenger_amount - cancellationQuote.fare_amount, market.currency)} of your ${formatCurrency(existingBooking.booking_fee, market.currency)} booking fee is refunded`
+                          : 'your booking fee is not refunded'}
+                        {cancellationQuote.fare_amount > 0
+                          ? `, and your ${formatCurrency(cancellationQuote.fare_amount, market.currency)} fare is returned in full.`
+                          : '.'}
+                      </p>
+                    )}
                   </>
                 )}
               </CardContent>
@@ -478,6 +544,28 @@ export default function RideDetailsPage() {
             </Card>
           ) : null}
 
+          {/* Cancellation Policy */}
+          {cancellationPolicy && (canBook || existingBooking) && (
+            <Card>
+              <CardContent className="p-5">
+                <div className="flex items-center gap-2 mb-3">
+                  <RotateCcw className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-sm font-medium">Cancellation Policy: {cancellationPolicy.name}</span>
+                </div>
+                <div className="space-y-2">
+                  {cancellationPolicy.tiers.map((tier) => (
+                    <div key={tier.id} className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {tier.cancelled_by === 'driver' ? 'Driver cancels' : `You cancel ${tier.label.toLowerCase()}`}
+                      </span>
+                      <span className="font-medium">{describeRefund(tier)}</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Payment Info */}
           {canBook && (
             <div className="p-4 bg-coral-50 rounded-lg">
@@ -486,9 +574,19 @@ export default function RideDetailsPage() {
                 <div className="text-sm text-navy-800">
                   <p className="font-medium mb-1">How booking works</p>
                   <ul className="space-y-1">
-                    <li>1. Pay 10% booking fee ({formatCurrency(bookingFee)}/seat) via mobile money</li>
-                    <li>2. Get driver's contact after payment</li>
-                    <li>3. Pay remaining 90% ({formatCurrency(ride.price - bookingFee)}/seat) in cash to driver</li>
+                    {fullFare ? (
+                      <>
+                        <li>1. Pay the full fare ({formatCurrency(ride.price, market.currency)}/seat) via mobile money</li>
+                        <li>2. Get driver's contact after payment</li>
+                        <li>3. Nothing to pay on the day; the driver is paid after the ride</li>
+                      </>
+                    ) : (
+                      <>
+                        <li>1. Pay the booking fee ({formatCurrency(bookingFee, market.currency)}/seat) via mobile money</li>
+                        <li>2. Get driver's contact after payment</li>
+                        <li>3. Pay the rest of the fare ({formatCurrency(driverShare, market.currency)}/seat) in cash to driver</li>
+                      </>
+                    )}
                   </ul>
                 </div>
               </div>
@@ -502,7 +600,9 @@ export default function RideDetailsPage() {
         <div className="fixed bottom-16 left-0 right-0 p-4 bg-background border-t z-40">
           <div className="max-w-lg mx-auto">
             <Button className="w-full" size="lg" onClick={() => setShowBookingDialog(true)}>
-              Book Seat - {formatCurrency(bookingFee)} to reserve
+              {fullFare
+                ? `Book Seat - ${formatCurrency(ride.price, market.currency)}`
+                : `Book Seat - ${formatCurrency(bookingFee, market.currency)} to reserve`}
             </Button>
           </div>
         </div>
@@ -517,7 +617,7 @@ export default function RideDetailsPage() {
               size="lg"
               onClick={() => navigate('/login', { state: { from: `/rides/${id}` } })}
             >
-              Sign In to Book - {formatCurrency(bookingFee)} to reserve
+              Sign In to Book - {formatCurrency(bookingFee, market.currency)} to reserve
             </Button>
           </div>
         </div>
@@ -529,7 +629,7 @@ export default function RideDetailsPage() {
           <DialogHeader>
             <DialogTitle>Book Your Seat</DialogTitle>
             <DialogDescription>
-              Pay {formatCurrency(bookingFee)} per seat to reserve. You'll pay the remaining {formatCurrency(ride.price - bookingFee)} per seat in cash to the driver.
+              Pay {formatCurrency(bookingFee, market.currency)} per seat to reserve. You'll pay the remaining {formatCurrency(ride.price - bookingFee, market.currency)} per seat in cash to the driver.
             </DialogDescription>
           </DialogHeader>
 
@@ -540,12 +640,12 @@ export default function RideDetailsPage() {
                 id="seats"
                 type="number"
                 min={1}
-                max={ride.available_seats}
+                max={bookableSeats}
                 value={seats}
-                onChange={(e) => setSeats(Math.min(parseInt(e.target.value) || 1, ride.available_seats))}
+                onChange={(e) => setSeats(Math.min(parseInt(e.target.value) || 1, bookableSeats))}
               />
               <p className="text-xs text-muted-foreground">
-                Max {ride.available_seats} seat(s) available
+                Max {bookableSeats} seat(s) available
               </p>
             </div>
 
@@ -554,27 +654,29 @@ export default function RideDetailsPage() {
               <Input
                 id="phone"
                 type="tel"
-                placeholder="07XX XXX XXX"
+                placeholder={market.phoneExample}
                 value={phoneNumber}
                 onChange={(e) => setPhoneNumber(e.target.value)}
               />
-              <p className="text-xs text-muted-foreground">
+              <PhoneNumberHint phoneNumber={phoneNumber} market={market.code}>
                 You'll receive a payment prompt on this number
-              </p>
+              </PhoneNumberHint>
             </div>
 
             <div className="p-4 bg-muted rounded-lg space-y-2">
               <div className="flex justify-between text-sm">
-                <span>Booking fee ({seats} seat{seats > 1 ? 's' : ''})</span>
-                <span className="font-medium">{formatCurrency(totalBookingFee)}</span>
-              </div>
-              <div className="flex justify-between text-sm text-muted-foreground">
-                <span>Pay driver in cash</span>
-                <span>{formatCurrency(cashPayment)}</span>
+                <span>{fullFare ? 'Fare' : 'Booking fee'} ({seats} seat{seats > 1 ? 's' : ''})</span>
+                <span className="font-medium">{formatCurrency(totalPayNow, market.currency)}</span>
               </div>
+              {!fullFare && (
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>Pay driver in cash</span>
+                  <span>{formatCurrency(cashPayment, market.currency)}</span>
+                </div>
+              )}
               <div className="flex justify-between font-medium pt-2 border-t">
                 <span>Total ride cost</span>
-                <span>{formatCurrency(ride.price * seats)}</span>
+                <span>{formatCurrency(ride.price * seats, market.currency)}</span>
               </div>
             </div>
           </div>
@@ -584,7 +686,7 @@ export default function RideDetailsPage() {
               Cancel
             </Button>
             <Button onClick={handleBook} loading={booking}>
-              Pay {formatCurrency(totalBookingFee)}
+              Pay {formatCurrency(totalPayNow, market.currency)}
             </Button>
           </DialogFooter>
           </DialogContent>
@@ -10,6 +10,7 @@ import { RidesMapView } from '@/components/RidesMapView'
 import { SearchPageSEO } from '@/components/SEO'
 import { formatCurrency, formatDate } from '@/lib/utils'
 import type { Ride } from '@/types'
+import { getMarket } from '@shared/markets'
 import { Search, Calendar, Users, Star, Filter, X, Map, Route } from 'lucide-react'
 
 interface Location {
@@ -192,7 +193,7 @@ export default function SearchPage() {
                 />
               </div>
               <div className="space-y-1 col-span-2">
-                <Label htmlFor="maxPrice" className="text-xs">Max Price (UGX)</Label>
+                <Label htmlFor="maxPrice" className="text-xs">Max Price (per seat)</Label>
                 <Input
                   id="maxPrice"
                   type="number"
@@ -392,7 +393,7 @@ function RideCard({ ride, userOrigin, userDestination }: RideCardProps) {
               </div>
             </div>
             <div className="text-right ml-4">
-              <p className="font-bold text-coral-500">{formatCurrency(ride.price)}</p>
+              <p className="font-bold text-coral-500">{formatCurrency(ride.price, getMarket(ride.market).currency)}</p>
               <p className="text-xs text-muted-foreground">per seat</p>
             </div>
           </div>
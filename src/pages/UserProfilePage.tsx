@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate } from 'react-router-dom'
+import { supabase } from '@/lib/supabase'
+import { Card, CardContent } from '@/components/ui/card'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { ReviewList } from '@/components/ReviewList'
+import { REVIEW_TAG_LABELS } from '@/lib/reviews'
+import type { CarPhoto, PublicProfile, ReviewTag } from '@/types'
+import { ArrowLeft, Star, Car, ShieldCheck, Mail, Phone, Building2 } from 'lucide-react'
+
+function formatRate(rate: number | null) {
+  return rate === null ? '-' : `${Math.round(rate * 100)}%`
+}
+
+// A member's public profile, for deciding whether to ride with them. Contact
+// details are never shown here; public_profile() doesn't return them.
+export default function UserProfilePage() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const [profile, setProfile] = useState<PublicProfile | null>(null)
+  const [carPhotos, setCarPhotos] = useState<CarPhoto[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchProfile = async () => {
+      const [{ data: profileData }, { data: photoData }] = await Promise.all([
+        supabase.rpc('public_profile', { p_user_id: id }),
+        supabase
+          .from('car_photos')
+          .select('*')
+          .eq('driver_id', id)
+          .order('is_primary', { ascending: false })
+          .limit(3),
+      ])
+
+      if (cancelled) return
+      setProfile((profileData as PublicProfile | null) ?? null)
+      setCarPhotos((photoData as CarPhoto[]) || [])
+      setLoading(false)
+    }
+
+    fetchProfile()
+    return () => {
+      cancelled = true
+    }
+  }, [id])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <p className="text-muted-foreground">This member could not be found.</p>
+      </div>
+    )
+  }
+
+  const reviewCount = Object.values(profile.rating_breakdown).reduce((sum, count) => sum + count, 0)
+  const topTags = (Object.entries(profile.tag_counts) as [ReviewTag, number][])
+    .sort(([, a], [, b]) => b - a)
+  const hasDriven = profile.driver.rides_completed + profile.driver.rides_cancelled > 0
+  const hasRidden = profile.passenger.bookings_completed + profile.passenger.bookings_cancelled > 0
+
+  return (
+    <div className="min-h-screen bg-background pb-24">
+      {/* Header */}
+      <div className="bg-navy-900 pt-12 pb-20 px-4">
+        <div className="max-w-lg mx-auto">
+          <button
+            onClick={() => navigate(-1)}
+            className="flex items-center text-white/80 hover:text-white mb-4"
+          >
+            <ArrowLeft className="w-5 h-5 mr-1" />
+            Back
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 -mt-12">
+        <div className="max-w-lg mx-auto space-y-4">
+          {/* Member Card */}
+          <Card>
+            <CardContent className="p-5">
+              <div className="flex items-center gap-4">
+                <Avatar className="w-16 h-16">
+                  <AvatarImage src={profile.avatar_url || undefined} />
+                  <AvatarFallback className="bg-coral-100 text-navy-800 text-xl">
+                    {profile.full_name[0]}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1">
+                  <h1 className="text-lg font-semibold">{profile.full_name}</h1>
+                  <p className="text-sm text-muted-foreground">
+                    Member since {new Date(profile.member_since).toLocaleDateString('en-UG', { month: 'long', year: 'numeric' })}
+                  </p>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground mt-1">
+                    <span className="flex items-center gap-1">
+                      <Star className="w-4 h-4 text-yellow-500 fill-yellow-500" />
+                      {profile.average_rating?.toFixed(1) || '-'}
+                    </span>
+                    <span>{profile.total_rides} rides</span>
+                  </div>
+                </div>
+              </div>
+
+              {/* Verification badges */}
+              <div className="flex flex-wrap gap-2 mt-4">
+                {profile.badges.id_verified && (
+                  <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-green-100 text-green-800 font-medium">
+                    <ShieldCheck className="w-3 h-3" />
+                    ID verified
+                  </span>
+                )}
+                {profile.badges.phone_verified && (
+                  <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-green-100 text-green-800 font-medium">
+                    <Phone className="w-3 h-3" />
+                    Phone verified
+                  </span>
+                )}
+                {profile.badges.email_verified && (
+                  <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-green-100 text-green-800 font-medium">
+                    <Mail className="w-3 h-3" />
+                    Email verified
+                  </span>
+                )}
+                {profile.organisation && (
+                  <span className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-navy-50 text-navy-800 font-medium">
+                    <Building2 className="w-3 h-3" />
+                    {profile.organisation}
+                  </span>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Rating breakdown */}
+          {reviewCount > 0 && (
+            <Card>
+              <CardContent className="p-5 space-y-2">
+                <p className="text-sm font-medium mb-1">
+                  Ratings ({reviewCount})
+                </p>
+                {(['5', '4', '3', '2', '1'] as const).map((stars) => (
+                  <div key={stars} className="flex items-center gap-2 text-xs">
+                    <span className="w-3">{stars}</span>
+                    <Star className="w-3 h-3 text-yellow-500 fill-yellow-500" />
+                    <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                      <div
+                        className="h-full bg-yellow-500"
+                        style={{ width: `${(profile.rating_breakdown[stars] / reviewCount) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-right text-muted-foreground">{profile.rating_breakdown[stars]}</span>
+                  </div>
+                ))}
+                {topTags.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-2">
+                    {topTags.map(([tag, count]) => (
+                      <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-muted">
+                        {REVIEW_TAG_LABELS[tag]} · {count}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Reliability */}
+          {(hasDriven || hasRidden) && (
+            <Card>
+              <CardContent className="p-5 space-y-3">
+                <p className="text-sm font-medium">Reliability</p>
+                {hasDriven && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      As a driver ({profile.driver.rides_completed} completed)
+                    </span>
+                    <span>
+                      {formatRate(profile.driver.completion_rate)} completed · {formatRate(profile.driver.cancellation_rate)} cancelled
+                    </span>
+                  </div>
+                )}
+                {hasRidden && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      As a passenger ({profile.passenger.bookings_completed} completed)
+                    </span>
+                    <span>
+                      {formatRate(profile.passenger.completion_rate)} completed · {formatRate(profile.passenger.cancellation_rate)} cancelled
+                    </span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Vehicles */}
+          {(profile.vehicles.length > 0 || carPhotos.length > 0) && (
+            <Card>
+              <CardContent className="p-5 space-y-3">
+                <p className="text-sm font-medium">Vehicles</p>
+                {profile.vehicles.map((vehicle) => (
+                  <div
+                    key={`${vehicle.brand}-${vehicle.model}-${vehicle.year}`}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Car className="w-4 h-4 text-coral-500" />
+                    <span>
+                      {[vehicle.brand, vehicle.model].filter(Boolean).join(' ')}
+                      {vehicle.year && ` (${vehicle.year})`}
+                    </span>
+                  </div>
+                ))}
+                {carPhotos.length > 0 && (
+                  <div className="flex gap-2">
+                    {carPhotos.map((photo) => (
+                      <img
+                        key={photo.id}
+                        src={photo.photo_url}
+                        alt={photo.caption || 'Car photo'}
+                        className="w-24 h-16 object-cover rounded-lg"
+                      />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          <ReviewList userId={profile.id} title="Recent reviews" limit={5} />
+        </div>
+      </div>
+    </div>
+  )
+}
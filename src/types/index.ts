@@ -1,5 +1,8 @@
 // Database types matching our Supabase schema
 
+import type { MobileNetwork } from '@shared/phone'
+import type { CurrencyCode, MarketCode } from '@shared/markets'
+
 export type UserRole = 'passenger' | 'driver' | 'admin'
 
 export type RideStatus = 'active' | 'full' | 'completed' | 'cancelled'
@@ -8,17 +11,20 @@ export type BookingStatus = 'pending_payment' | 'confirmed' | 'cancelled_by_pass
 
 export type PaymentStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'refunded'
 
-export type PaymentType = 'booking_fee' | 'refund_to_passenger' | 'refund_to_driver'
+export type PaymentType = 'booking_fee' | 'refund_to_passenger' | 'refund_to_driver' | 'driver_payout'
+
+export type { MobileNetwork, CurrencyCode, MarketCode }
 
 export interface User {
   id: string
   email: string
   full_name: string
-  phone_number: string | null
+  phone_number: string | null // Only readable on your own profile; see reveal_contact for others'
   avatar_url: string | null
   role: UserRole
   average_rating: number | null
   total_rides: number
+  organisation_id: string | null
   created_at: string
   updated_at: string
 }
@@ -46,6 +52,10 @@ export interface Ride {
   car_brand: string | null
   car_model: string | null
   car_year: number | null
+  cancellation_policy_id: string | null
+  full_fare_in_app: boolean // Passengers pay the whole fare in the app, not just the booking fee
+  market: MarketCode // Where the ride departs; price is in its currency
+  completed_at: string | null
   created_at: string
   updated_at: string
 }
@@ -67,28 +77,110 @@ export interface Booking {
   passenger?: User
   seats_booked: number
   booking_fee: number
+  driver_fare: number // The driver's share paid in the app; 0 when the fare is paid in cash
   status: BookingStatus
+  hold_expires_at: string | null
+  // Raised by either side after departure; holds the booking out of completion until resolved
+  disputed_at: string | null
+  disputed_by: string | null
+  dispute_reason: string | null
+  dispute_resolved_at: string | null
   created_at: string
   updated_at: string
 }
 
-export interface Payment {
+export interface BookingStatusHistory {
   id: string
   booking_id: string
+  from_status: BookingStatus | null
+  to_status: BookingStatus
+  actor_id: string | null
+  actor_role: 'passenger' | 'driver' | 'system'
+  reason: string | null
+  created_at: string
+}
+
+export interface Payment {
+  id: string
+  booking_id: string | null // null for driver payouts
   booking?: Booking
   user_id: string
   amount: number
+  currency: CurrencyCode // The ride's market's; UGX for driver payouts
+  fare_amount: number // Part of amount that is ride fare rather than booking fee
+  promo_code_id: string | null
+  discount_amount: number // Taken off the booking fee by the promo code
   payment_type: PaymentType
   status: PaymentStatus
   pandora_reference: string | null
+  previous_references: string[] // References of earlier refund attempts, replaced on retry
   pandora_transaction_id: string | null
   phone_number: string
+  network: MobileNetwork | null // Detected from phone_number; null on payments made before networks were stored
   error_message: string | null
   retry_count: number
+  needs_retry: boolean
+  next_retry_at: string | null
+  dead_lettered_at: string | null
+  awaiting_phone_update: boolean
+  idempotency_key: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type PaymentEventType = 'provider_request' | 'provider_response' | 'provider_error' | 'webhook_received'
+
+// One provider call or webhook in the payment_events audit log, with secret headers redacted
+export interface PaymentEvent {
+  id: string
+  payment_id: string | null
+  reference: string | null
+  event_type: PaymentEventType
+  provider: string
+  operation: 'collect' | 'disburse' | 'query_status' | 'webhook'
+  http_method: string | null
+  url: string | null
+  http_status: number | null
+  request_headers: Record<string, string> | null
+  request_body: unknown
+  response_headers: Record<string, string> | null
+  response_body: unknown
+  outcome: string | null
+  duration_ms: number | null
+  created_at: string
+}
+
+export interface Organisation {
+  id: string
+  name: string
+  cancellation_policy_id: string | null
   created_at: string
   updated_at: string
 }
 
+export type CancelledBy = 'passenger' | 'driver'
+
+export interface CancellationPolicyTier {
+  id: string
+  policy_id: string
+  cancelled_by: CancelledBy
+  min_hours_before: number | null
+  label: string
+  passenger_percent: number
+  driver_percent: number
+  platform_percent: number
+}
+
+// Result of the ride_cancellation_policy RPC
+export interface CancellationPolicy {
+  id: string
+  name: string
+  description: string | null
+  tiers: CancellationPolicyTier[]
+}
+
+export type ReviewTag = 'punctual' | 'safe_driving' | 'clean_car' | 'friendly' | 'respectful'
+
 export interface Review {
   id: string
   booking_id: string
@@ -97,11 +189,82 @@ export interface Review {
   reviewer?: User
   reviewee_id: string
   reviewee?: User
+  reviewee_role: 'driver' | 'passenger' | null // NULL only on reviews from before reviews-migration.sql
   rating: number
+  tags: ReviewTag[]
   comment: string | null
+  // NULL while hidden: until the other side reviews too or the review window closes
+  revealed_at: string | null
   created_at: string
 }
 
+// Row of the pending_reviews RPC: a completed booking the user hasn't reviewed
+export interface PendingReview {
+  booking_id: string
+  reviewee_id: string
+  reviewee_name: string
+  reviewee_avatar_url: string | null
+  reviewee_role: 'driver' | 'passenger'
+  origin_name: string
+  destination_name: string
+  departure_time: string
+  review_by: string // When the review window closes
+}
+
+export type SubmitReviewErrorCode =
+  | 'booking_not_found'
+  | 'booking_not_completed'
+  | 'review_window_closed'
+  | 'invalid_rating'
+  | 'invalid_tags'
+  | 'comment_too_long'
+  | 'already_reviewed'
+
+// Result of the submit_review RPC
+export type SubmitReviewResult =
+  | { success: true; review_id: string; revealed: boolean; reveal_by: string }
+  | { success: false; error_code: SubmitReviewErrorCode; message: string }
+
+// Result of the public_profile RPC: what anyone can see on /users/:id (no contact details)
+export interface PublicProfile {
+  id: string
+  full_name: string
+  avatar_url: string | null
+  member_since: string
+  average_rating: number | null
+  total_rides: number
+  organisation: string | null
+  badges: {
+    id_verified: boolean
+    email_verified: boolean
+    phone_verified: boolean // Has paid a booking fee from the number on their profile
+  }
+  rating_breakdown: Record<'1' | '2' | '3' | '4' | '5', number> // Revealed reviews only
+  tag_counts: Partial<Record<ReviewTag, number>>
+  // Trips that went ahead against trips called off once someone was committed;
+  // rates are 0-1, NULL until there is at least one such trip
+  driver: {
+    rides_completed: number
+    rides_cancelled: number
+    completion_rate: number | null
+    cancellation_rate: number | null
+  }
+  passenger: {
+    bookings_completed: number
+    bookings_cancelled: number
+    completion_rate: number | null
+    cancellation_rate: number | null
+  }
+  vehicles: { brand: string | null; model: string | null; year: number | null }[]
+}
+
+export type RevealContactErrorCode = 'booking_not_found' | 'booking_not_confirmed' | 'no_phone_number'
+
+// Result of the reveal_contact RPC: the other side's number on a confirmed booking
+export type RevealContactResult =
+  | { success: true; phone_number: string }
+  | { success: false; error_code: RevealContactErrorCode; message: string }
+
 // API request/response types
 export interface CreateRideRequest {
   origin_name: string
@@ -117,6 +280,7 @@ export interface CreateRideRequest {
   car_brand?: string | null
   car_model?: string | null
   car_year?: number | null
+  full_fare_in_app?: boolean
 }
 
 export interface SearchRidesParams {
@@ -129,11 +293,182 @@ export interface SearchRidesParams {
   max_price?: number
 }
 
+export type CreateBookingErrorCode =
+  | 'not_authenticated'
+  | 'invalid_seats'
+  | 'ride_not_found'
+  | 'ride_not_active'
+  | 'ride_departed'
+  | 'self_booking'
+  | 'duplicate_booking'
+  | 'seats_unavailable'
+
+// Result of the create_booking RPC
+export type CreateBookingResult =
+  | { success: true; booking_id: string; booking_fee: number; driver_fare: number; hold_expires_at: string }
+  | { success: false; error_code: CreateBookingErrorCode; message: string }
+
+export type CancellationQuoteErrorCode =
+  | 'invalid_canceller'
+  | 'ride_not_found'
+  | 'no_policy'
+  | 'no_matching_tier'
+
+// Result of the evaluate_cancellation RPC
+export type CancellationQuote =
+  | {
+      success: true
+      policy_id: string
+      policy_name: string
+      tier_id: string
+      tier_label: string
+      hours_before_departure: number
+      passenger_percent: number
+      driver_percent: number
+      platform_percent: number
+      passenger_amount: number // Includes fare_amount
+      fare_amount: number // Fare paid in the app, always returned to the passenger
+      driver_amount: number
+      platform_amount: number
+    }
+  | { success: false; error_code: CancellationQuoteErrorCode; message: string }
+
+export type CompleteRideErrorCode = 'ride_not_found' | 'ride_closed' | 'ride_not_departed' | 'ride_not_arrived'
+
+// Result of the complete_ride RPC
+export type CompleteRideResult =
+  | { success: true; completed_bookings: number; disputed_bookings: number }
+  | { success: false; error_code: CompleteRideErrorCode; message: string }
+
+export type DisputeBookingErrorCode =
+  | 'booking_not_found'
+  | 'booking_not_disputable'
+  | 'dispute_open'
+  | 'reason_required'
+
+// Result of the dispute_booking_completion RPC
+export type DisputeBookingResult =
+  | { success: true }
+  | { success: false; error_code: DisputeBookingErrorCode; message: string }
+
+export interface CancelRideRefundResult {
+  to: CancelledBy
+  amount: number
+  initiated: boolean
+  message: string | null
+}
+
+export interface CancelRideBookingResult {
+  booking_id: string
+  passenger_id: string
+  passenger_name: string
+  previous_status: 'pending_payment' | 'confirmed'
+  refunds: CancelRideRefundResult[]
+}
+
+// Response of the cancel-ride Edge Function
+export type CancelRideResponse =
+  | { success: true; message: string; bookings: CancelRideBookingResult[] }
+  | { success: false; error_code?: string; error: string }
+
+export type LedgerEntryType =
+  | 'booking_fee'
+  | 'refund'
+  | 'forfeiture'
+  | 'refund_paid'
+  | 'payout'
+  | 'refund_reversed'
+  | 'forfeiture_reversed'
+  | 'fare_collected'
+  | 'fare_settled'
+  | 'fare_refund'
+  | 'fare_refund_reversed'
+  | 'promo_discount'
+
+// One line of the signed-in user's ledger account (amount: debit > 0, credit < 0)
+export interface LedgerLine {
+  id: string
+  entry_id: string
+  account_id: string
+  amount: number
+  created_at: string
+  entry?: {
+    entry_type: LedgerEntryType
+    description: string
+    booking_id: string | null
+    currency: CurrencyCode
+  }
+}
+
+// Result of the driver_wallet RPC
+export interface DriverWallet {
+  balance: number
+  reserved: number
+  available: number
+  minimum_payout: number
+  payout_phone: string | null
+}
+
+export type PayoutStatus = 'requested' | 'approved' | 'rejected' | 'cancelled' | 'paid' | 'failed'
+
+export interface PayoutRequest {
+  id: string
+  driver_id: string
+  driver?: User
+  amount: number
+  phone_number: string
+  status: PayoutStatus
+  payment_id: string | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  rejection_reason: string | null
+  error_message: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Result of the request_payout RPC
+export type RequestPayoutResult =
+  | { success: true; payout_id: string }
+  | {
+      success: false
+      error_code: 'no_verified_phone' | 'below_minimum' | 'payout_pending' | 'insufficient_balance'
+      message: string
+    }
+
+// Result of the update_refund_phone RPC
+export type UpdateRefundPhoneResult =
+  | { success: true }
+  | { success: false; error_code: 'refund_not_found' | 'refund_not_failed' | 'invalid_phone' | 'unsupported_network'; message: string }
+
 export interface InitiatePaymentRequest {
   booking_id: string
   phone_number: string
+  idempotency_key?: string
+  promo_code?: string
 }
 
+export type PromoCodeErrorCode =
+  | 'booking_not_found'
+  | 'promo_not_found'
+  | 'promo_not_started'
+  | 'promo_expired'
+  | 'promo_exhausted'
+  | 'promo_already_used'
+  | 'promo_first_ride_only'
+  | 'promo_not_eligible'
+
+// Result of the evaluate_promo_code RPC
+export type PromoCodeQuote =
+  | { success: true; promo_code_id: string; code: string; discount: number; booking_fee: number; amount_due: number }
+  | { success: false; error_code: PromoCodeErrorCode; message: string }
+
+// Request body for the payment-documents Edge Function; the response is the
+// document itself (text/html or application/pdf)
+export type PaymentDocumentRequest =
+  | { document: 'receipt'; payment_id: string; format?: 'html' | 'pdf' }
+  | { document: 'statement'; month: string; format?: 'html' | 'pdf' } // month is YYYY-MM
+
 export interface PandoraWebhookPayload {
   reference: string
   transaction_id: string
@@ -0,0 +1,283 @@
+-- Blind Reviews Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after reviews-migration.sql)
+
+-- =====================
+-- REVIEW WINDOW
+-- =====================
+-- Both sides of a completed booking have review_window() from its completion
+-- to review each other. A review stays hidden, from the reviewee and everyone
+-- else, until the other side has reviewed too or the window has closed, so
+-- neither can answer the other's review in kind.
+
+CREATE OR REPLACE FUNCTION public.review_window()
+RETURNS INTERVAL AS $$
+  SELECT INTERVAL '14 days';
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+UPDATE public.bookings b
+SET completed_at = COALESCE(
+  (SELECT MAX(h.created_at) FROM public.booking_status_history h
+   WHERE h.booking_id = b.id AND h.to_status = 'completed'),
+  b.updated_at
+)
+WHERE b.status = 'completed' AND b.completed_at IS NULL;
+
+CREATE OR REPLACE FUNCTION public.set_booking_completed_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+    NEW.completed_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bookings_set_completed_at ON public.bookings;
+CREATE TRIGGER bookings_set_completed_at
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.set_booking_completed_at();
+
+-- =====================
+-- REVEALING REVIEWS
+-- =====================
+-- Reviews written before this migration were already public
+
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS revealed_at TIMESTAMPTZ;
+
+UPDATE public.reviews SET revealed_at = created_at WHERE revealed_at IS NULL;
+
+-- Finding hidden reviews whose window has closed
+CREATE INDEX IF NOT EXISTS idx_reviews_hidden
+  ON public.reviews(booking_id)
+  WHERE revealed_at IS NULL;
+
+-- The second review of a booking reveals both
+CREATE OR REPLACE FUNCTION public.reveal_reviews_when_both_submitted()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.reviews
+  SET revealed_at = NOW()
+  WHERE booking_id = NEW.booking_id
+    AND revealed_at IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.reviews other
+      WHERE other.booking_id = NEW.booking_id
+        AND other.reviewer_id = NEW.reviewee_id
+        AND other.reviewee_id = NEW.reviewer_id
+    );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS reviews_reveal_both ON public.reviews;
+CREATE TRIGGER reviews_reveal_both
+  AFTER INSERT ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION public.reveal_reviews_when_both_submitted();
+
+-- Reveals the reviews whose window has closed without a reply. Returns how many
+CREATE OR REPLACE FUNCTION public.reveal_due_reviews()
+RETURNS INTEGER AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.reviews rv
+  SET revealed_at = NOW()
+  FROM public.bookings b
+  WHERE b.id = rv.booking_id
+    AND rv.revealed_at IS NULL
+    AND b.completed_at + public.review_window() <= NOW();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_due_reviews() FROM PUBLIC, anon, authenticated;
+
+-- =====================
+-- RATINGS
+-- =====================
+-- Same as reviews-migration.sql, except only revealed reviews count, and it
+-- also runs when a review is revealed
+
+CREATE OR REPLACE FUNCTION update_user_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.users
+  SET average_rating = (
+    SELECT ROUND(AVG(rating)::numeric, 1)
+    FROM public.reviews
+    WHERE reviewee_id = NEW.reviewee_id
+      AND revealed_at IS NOT NULL
+  )
+  WHERE id = NEW.reviewee_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS review_rating_update ON public.reviews;
+CREATE TRIGGER review_rating_update
+  AFTER INSERT OR UPDATE OF revealed_at ON public.reviews
+  FOR EACH ROW EXECUTE FUNCTION update_user_rating();
+
+-- =====================
+-- VISIBILITY
+-- =====================
+-- Everyone sees revealed reviews; a hidden one only its author
+
+DROP POLICY IF EXISTS "Reviews are viewable by everyone" ON public.reviews;
+DROP POLICY IF EXISTS "Revealed reviews are viewable by everyone" ON public.reviews;
+CREATE POLICY "Revealed reviews are viewable by everyone"
+  ON public.reviews FOR SELECT
+  USING (revealed_at IS NOT NULL OR reviewer_id = auth.uid());
+
+-- =====================
+-- SUBMIT A REVIEW
+-- =====================
+-- Same as reviews-migration.sql, except a review can only be written while
+-- the window is open, and the result says whether it is visible yet
+
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_booking_id UUID,
+  p_rating INTEGER,
+  p_tags TEXT[] DEFAULT '{}',
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_booking public.bookings%ROWTYPE;
+  v_driver_id UUID;
+  v_reviewee_id UUID;
+  v_reviewee_role TEXT;
+  v_comment TEXT := NULLIF(trim(COALESCE(p_comment, '')), '');
+  v_review_id UUID;
+  v_revealed BOOLEAN;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Locked so two reviews arriving together still see each other and reveal both
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+  SELECT driver_id INTO v_driver_id FROM public.rides WHERE id = v_booking.ride_id;
+
+  IF v_booking.passenger_id = v_user_id THEN
+    v_reviewee_id := v_driver_id;
+    v_reviewee_role := 'driver';
+  ELSIF v_driver_id = v_user_id THEN
+    v_reviewee_id := v_booking.passenger_id;
+    v_reviewee_role := 'passenger';
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_found',
+      'message', 'Booking not found.');
+  END IF;
+
+  IF v_booking.status != 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_completed',
+      'message', 'You can review a ride once it has been completed.');
+  END IF;
+
+  IF v_booking.completed_at + public.review_window() <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'review_window_closed',
+      'message', format('Reviews can only be written within %s days of the ride.',
+        extract(day FROM public.review_window())));
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_rating',
+      'message', 'Choose a rating from 1 to 5 stars.');
+  END IF;
+
+  IF NOT COALESCE(p_tags, '{}') <@ public.review_tags(v_reviewee_role) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_tags',
+      'message', 'One of those tags does not apply.');
+  END IF;
+
+  IF char_length(v_comment) > 500 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'comment_too_long',
+      'message', 'Keep your comment under 500 characters.');
+  END IF;
+
+  INSERT INTO public.reviews (booking_id, reviewer_id, reviewee_id, reviewee_role, rating, tags, comment)
+  VALUES (p_booking_id, v_user_id, v_reviewee_id, v_reviewee_role, p_rating,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_tags, '{}'))), v_comment)
+  ON CONFLICT (booking_id, reviewer_id) DO NOTHING
+  RETURNING id INTO v_review_id;
+
+  IF v_review_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'already_reviewed',
+      'message', 'You have already reviewed this ride.');
+  END IF;
+
+  -- The insert trigger has revealed it if the other side had already reviewed
+  SELECT revealed_at IS NOT NULL INTO v_revealed FROM public.reviews WHERE id = v_review_id;
+
+  RETURN jsonb_build_object('success', true,
+    'review_id', v_review_id,
+    'revealed', v_revealed,
+    'reveal_by', v_booking.completed_at + public.review_window());
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- REVIEWS TO WRITE
+-- =====================
+-- Same as reviews-migration.sql, except it lists bookings whose review window
+-- is still open, and when it closes
+
+DROP FUNCTION IF EXISTS public.pending_reviews();
+
+CREATE OR REPLACE FUNCTION public.pending_reviews()
+RETURNS TABLE (
+  booking_id UUID,
+  reviewee_id UUID,
+  reviewee_name TEXT,
+  reviewee_avatar_url TEXT,
+  reviewee_role TEXT,
+  origin_name TEXT,
+  destination_name TEXT,
+  departure_time TIMESTAMPTZ,
+  review_by TIMESTAMPTZ
+) AS $$
+  SELECT
+    b.id,
+    u.id,
+    u.full_name,
+    u.avatar_url,
+    CASE WHEN b.passenger_id = auth.uid() THEN 'driver' ELSE 'passenger' END,
+    r.origin_name,
+    r.destination_name,
+    r.departure_time,
+    b.completed_at + public.review_window()
+  FROM public.bookings b
+  JOIN public.rides r ON r.id = b.ride_id
+  JOIN public.users u ON u.id = CASE WHEN b.passenger_id = auth.uid() THEN r.driver_id ELSE b.passenger_id END
+  WHERE b.status = 'completed'
+    AND (b.passenger_id = auth.uid() OR r.driver_id = auth.uid())
+    AND b.completed_at + public.review_window() > NOW()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.reviews rv
+      WHERE rv.booking_id = b.id AND rv.reviewer_id = auth.uid()
+    )
+  ORDER BY b.completed_at + public.review_window();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pending_reviews() FROM anon;
+GRANT EXECUTE ON FUNCTION public.pending_reviews() TO authenticated;
+
+-- =====================
+-- SCHEDULE
+-- =====================
+-- Run hourly with pg_cron (enable it under Database -> Extensions):
+--
+-- SELECT cron.schedule(
+--   'reveal-reviews',
+--   '0 * * * *',
+--   $$ SELECT public.reveal_due_reviews(); $$
+-- );
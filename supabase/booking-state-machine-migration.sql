@@ -0,0 +1,207 @@
+-- Booking State Machine Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after seat-holds-migration.sql)
+
+-- =====================
+-- STATUS HISTORY
+-- =====================
+-- One row per booking status change, with who made it and why
+
+CREATE TABLE IF NOT EXISTS public.booking_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  from_status booking_status, -- NULL when the booking is created
+  to_status booking_status NOT NULL,
+  actor_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  actor_role TEXT NOT NULL CHECK (actor_role IN ('passenger', 'driver', 'system')),
+  reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_status_history_booking ON public.booking_status_history(booking_id, created_at);
+
+ALTER TABLE public.booking_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Passenger and driver can read the history of their bookings
+DROP POLICY IF EXISTS "Users can view own booking history" ON public.booking_status_history;
+CREATE POLICY "Users can view own booking history"
+  ON public.booking_status_history FOR SELECT
+  USING (
+    booking_id IN (
+      SELECT id FROM public.bookings
+      WHERE passenger_id = auth.uid() OR
+        ride_id IN (SELECT id FROM public.rides WHERE driver_id = auth.uid())
+    )
+  );
+
+-- =====================
+-- NO MORE DIRECT BOOKING UPDATES FROM CLIENTS
+-- =====================
+-- Passengers could set status = 'confirmed' themselves and skip payment
+
+DROP POLICY IF EXISTS "Users can update own bookings" ON public.bookings;
+
+-- =====================
+-- TRANSITION FUNCTION
+-- =====================
+-- The only way to change bookings.status. Edge Functions call it with the
+-- service role and pass the acting user; signed-in users call it directly and
+-- are always recorded as themselves.
+
+CREATE OR REPLACE FUNCTION public.transition_booking(
+  p_booking_id UUID,
+  p_to_status booking_status,
+  p_reason TEXT,
+  p_actor_id UUID DEFAULT NULL
+)
+RETURNS public.bookings AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+BEGIN
+  PERFORM set_config('blueox.via_transition', 'on', true);
+  PERFORM set_config('blueox.transition_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config(
+    'blueox.actor_id',
+    COALESCE(CASE WHEN auth.role() = 'service_role' THEN p_actor_id ELSE auth.uid() END::TEXT, ''),
+    true
+  );
+
+  UPDATE public.bookings
+  SET status = p_to_status
+  WHERE id = p_booking_id
+  RETURNING * INTO v_booking;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'booking_not_found';
+  END IF;
+
+  PERFORM set_config('blueox.via_transition', '', true);
+
+  RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.transition_booking(UUID, booking_status, TEXT, UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.transition_booking(UUID, booking_status, TEXT, UUID) TO authenticated;
+
+-- =====================
+-- LEGAL TRANSITIONS
+-- =====================
+--   pending_payment -> confirmed                 payment system only
+--   pending_payment -> cancelled_by_passenger    passenger or system
+--   pending_payment -> cancelled_by_driver       driver or system
+--   confirmed       -> cancelled_by_*            system only (the refund path)
+--   confirmed       -> completed                 system only, after departure
+-- "System" is the service role, or a direct database session with no JWT
+-- (SQL editor, scheduled jobs).
+
+CREATE OR REPLACE FUNCTION public.enforce_booking_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_system BOOLEAN := COALESCE(auth.role(), 'service_role') = 'service_role';
+  v_actor_id UUID := NULLIF(current_setting('blueox.actor_id', true), '')::UUID;
+  v_reason TEXT := NULLIF(current_setting('blueox.transition_reason', true), '');
+  v_driver_id UUID;
+  v_departure_time TIMESTAMPTZ;
+  v_actor_role TEXT;
+  v_allowed BOOLEAN;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(current_setting('blueox.via_transition', true), '') != 'on' THEN
+    RAISE EXCEPTION 'illegal_transition: booking status can only change through transition_booking()';
+  END IF;
+
+  SELECT driver_id, departure_time INTO v_driver_id, v_departure_time
+  FROM public.rides WHERE id = NEW.ride_id;
+
+  v_actor_role := CASE
+    WHEN v_actor_id = NEW.passenger_id THEN 'passenger'
+    WHEN v_actor_id = v_driver_id THEN 'driver'
+    WHEN v_is_system THEN 'system'
+  END;
+
+  v_allowed := CASE
+    WHEN OLD.status = 'pending_payment' AND NEW.status = 'confirmed' THEN
+      v_is_system
+    WHEN OLD.status = 'pending_payment' AND NEW.status = 'cancelled_by_passenger' THEN
+      v_is_system OR v_actor_role = 'passenger'
+    WHEN OLD.status = 'pending_payment' AND NEW.status = 'cancelled_by_driver' THEN
+      v_is_system OR v_actor_role = 'driver'
+    WHEN OLD.status = 'confirmed' AND NEW.status IN ('cancelled_by_passenger', 'cancelled_by_driver') THEN
+      v_is_system
+    WHEN OLD.status = 'confirmed' AND NEW.status = 'completed' THEN
+      v_is_system AND v_departure_time <= NOW()
+    ELSE false
+  END;
+
+  IF NOT v_allowed OR v_actor_role IS NULL THEN
+    RAISE EXCEPTION 'illegal_transition: % -> % by %', OLD.status, NEW.status, COALESCE(v_actor_role, 'unknown');
+  END IF;
+
+  INSERT INTO public.booking_status_history (booking_id, from_status, to_status, actor_id, actor_role, reason)
+  VALUES (NEW.id, OLD.status, NEW.status, v_actor_id, v_actor_role, v_reason);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS booking_status_transition ON public.bookings;
+CREATE TRIGGER booking_status_transition
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_booking_transition();
+
+-- Record the initial pending_payment status too
+CREATE OR REPLACE FUNCTION public.record_booking_created()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.booking_status_history (booking_id, from_status, to_status, actor_id, actor_role, reason)
+  VALUES (NEW.id, NULL, NEW.status, NEW.passenger_id, 'passenger', 'booking_created');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS booking_status_created ON public.bookings;
+CREATE TRIGGER booking_status_created
+  AFTER INSERT ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.record_booking_created();
+
+-- =====================
+-- EXPIRED HOLDS
+-- =====================
+-- Same as seat-holds-migration.sql, except the bookings are cancelled through
+-- transition_booking(), so each cancellation is checked and recorded
+
+CREATE OR REPLACE FUNCTION public.cancel_expired_holds(
+  p_ride_id UUID DEFAULT NULL,
+  p_passenger_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_booking_id UUID;
+  v_cancelled INTEGER := 0;
+BEGIN
+  FOR v_booking_id IN
+    SELECT b.id FROM public.bookings b
+    WHERE b.status = 'pending_payment'
+      AND b.hold_expires_at <= NOW()
+      AND (p_ride_id IS NULL OR b.ride_id = p_ride_id)
+      AND (p_passenger_id IS NULL OR b.passenger_id = p_passenger_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.booking_id = b.id
+          AND p.payment_type = 'booking_fee'
+          AND p.status IN ('pending', 'processing')
+      )
+    FOR UPDATE OF b SKIP LOCKED
+  LOOP
+    PERFORM public.transition_booking(v_booking_id, 'cancelled_by_passenger', 'hold_expired');
+    v_cancelled := v_cancelled + 1;
+  END LOOP;
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_expired_holds(UUID, UUID) FROM PUBLIC, anon, authenticated;
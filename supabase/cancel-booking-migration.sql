@@ -0,0 +1,106 @@
+-- Cancel Booking Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after contact-reveal-migration.sql)
+
+-- =====================
+-- CANCEL BOOKING: ONE REFUND PER BOOKING
+-- =====================
+-- process-refund used to read the booking, queue the refund and cancel it in
+-- separate calls, so two cancels sent at once could both see it confirmed and
+-- both queue a refund. Like cancel_ride(), this locks the booking and does the
+-- split, the refund record, the driver's credit and the cancellation in one
+-- transaction; the second cancel waits, then finds the booking cancelled.
+-- process-refund sends the refund it returns.
+
+CREATE OR REPLACE FUNCTION public.cancel_booking(
+  p_booking_id UUID,
+  p_user_id UUID,
+  p_cancelled_by TEXT -- 'passenger' or 'driver'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_ride public.rides%ROWTYPE;
+  v_payment public.payments%ROWTYPE;
+  v_quote JSONB;
+  v_refund public.payments%ROWTYPE;
+  v_reference TEXT;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+
+  IF NOT FOUND OR v_booking.status != 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_confirmed',
+      'message', 'Confirmed booking not found');
+  END IF;
+
+  SELECT * INTO v_ride FROM public.rides WHERE id = v_booking.ride_id;
+
+  IF p_cancelled_by = 'driver' AND v_ride.driver_id != p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_driver',
+      'message', 'Only the driver can cancel as driver');
+  END IF;
+
+  IF p_cancelled_by = 'passenger' AND v_booking.passenger_id != p_user_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_passenger',
+      'message', 'Only the passenger can cancel as passenger');
+  END IF;
+
+  -- 0 if a promo code covered the whole fee
+  SELECT * INTO v_payment FROM public.payments
+  WHERE booking_id = p_booking_id
+    AND payment_type = 'booking_fee'
+    AND status = 'completed'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'payment_not_found',
+      'message', 'No completed payment found for this booking');
+  END IF;
+
+  -- Only what the passenger actually paid is split; a promo discount is never refunded
+  v_quote := public.evaluate_cancellation(v_ride.id, p_cancelled_by,
+    v_payment.amount - v_payment.fare_amount, NOW(), v_payment.fare_amount);
+
+  IF NOT (v_quote->>'success')::BOOLEAN THEN
+    RETURN v_quote;
+  END IF;
+
+  IF (v_quote->>'passenger_amount')::INTEGER > 0 THEN
+    v_reference := format('BLUEOX-REFUND-%s-%s-P',
+      (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(p_booking_id::TEXT, 8));
+
+    -- It goes back to the number that paid
+    INSERT INTO public.payments (booking_id, user_id, amount, fare_amount, payment_type, status, pandora_reference, phone_number)
+    VALUES (p_booking_id, v_booking.passenger_id, (v_quote->>'passenger_amount')::INTEGER,
+      (v_quote->>'fare_amount')::INTEGER, 'refund_to_passenger', 'pending', v_reference, v_payment.phone_number)
+    RETURNING * INTO v_refund;
+  END IF;
+
+  IF (v_quote->>'driver_amount')::INTEGER > 0 THEN
+    PERFORM public.credit_driver_forfeiture(v_payment.id, v_ride.driver_id,
+      (v_quote->>'driver_amount')::INTEGER);
+  END IF;
+
+  UPDATE public.payments SET status = 'refunded' WHERE id = v_payment.id;
+
+  PERFORM public.transition_booking(p_booking_id,
+    (CASE WHEN p_cancelled_by = 'driver' THEN 'cancelled_by_driver' ELSE 'cancelled_by_passenger' END)::booking_status,
+    format('%s policy: %s', v_quote->>'policy_name', v_quote->>'tier_label'), p_user_id);
+
+  RETURN v_quote || jsonb_build_object(
+    'booking_id', p_booking_id,
+    'driver_id', v_ride.driver_id,
+    'currency', v_payment.currency,
+    'refund', CASE WHEN v_refund.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'id', v_refund.id,
+      'amount', v_refund.amount,
+      'currency', v_refund.currency,
+      'phone_number', v_refund.phone_number,
+      'pandora_reference', v_refund.pandora_reference,
+      'retry_count', v_refund.retry_count
+    ) END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_booking(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,182 @@
+-- Cancel Ride Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after cancellation-policies-migration.sql)
+
+-- =====================
+-- CANCEL A RIDE AND QUEUE ITS REFUNDS
+-- =====================
+-- Called by the cancel-ride Edge Function. In one transaction it cancels the
+-- ride, cancels every pending and confirmed booking, and creates a 'pending'
+-- refund payment for each share the cancellation policy gives back. The Edge
+-- Function then disburses the queued refunds; if it never gets that far, the
+-- refunds are still on record. Returns { success, bookings: [...] } with the
+-- queued refunds per booking, or { success: false, error_code, message }.
+
+CREATE OR REPLACE FUNCTION public.cancel_ride(p_ride_id UUID, p_driver_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_ride public.rides%ROWTYPE;
+  v_driver_phone TEXT;
+  v_booking RECORD;
+  v_payment public.payments%ROWTYPE;
+  v_quote JSONB;
+  v_refunds JSONB;
+  v_results JSONB := '[]'::jsonb;
+  v_refund_id UUID;
+  v_reference TEXT;
+BEGIN
+  -- Lock the ride so no booking is created or confirmed while we cancel
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.driver_id != p_driver_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_driver',
+      'message', 'Only the driver can cancel this ride.');
+  END IF;
+
+  IF v_ride.status IN ('cancelled', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_cancellable',
+      'message', format('This ride is already %s.', v_ride.status));
+  END IF;
+
+  SELECT phone_number INTO v_driver_phone FROM public.users WHERE id = v_ride.driver_id;
+
+  PERFORM set_config('blueox.via_cancel_ride', 'on', true);
+  UPDATE public.rides SET status = 'cancelled' WHERE id = p_ride_id;
+
+  FOR v_booking IN
+    SELECT b.id, b.passenger_id, b.status, u.full_name AS passenger_name
+    FROM public.bookings b
+    JOIN public.users u ON u.id = b.passenger_id
+    WHERE b.ride_id = p_ride_id
+      AND b.status IN ('pending_payment', 'confirmed')
+    ORDER BY b.created_at
+  LOOP
+    v_refunds := '[]'::jsonb;
+
+    IF v_booking.status = 'confirmed' THEN
+      SELECT * INTO v_payment FROM public.payments
+      WHERE booking_id = v_booking.id
+        AND payment_type = 'booking_fee'
+        AND status = 'completed'
+      ORDER BY created_at DESC
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_quote := public.evaluate_cancellation(p_ride_id, 'driver', v_payment.amount);
+
+        IF NOT (v_quote->>'success')::BOOLEAN THEN
+          RAISE EXCEPTION '%', v_quote->>'message';
+        END IF;
+
+        IF (v_quote->>'passenger_amount')::INTEGER > 0 THEN
+          v_reference := format('BLUEOX-REFUND-%s-%s-P',
+            (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(v_booking.id::TEXT, 8));
+
+          INSERT INTO public.payments (booking_id, user_id, amount, payment_type, status, pandora_reference, phone_number)
+          VALUES (v_booking.id, v_booking.passenger_id, (v_quote->>'passenger_amount')::INTEGER,
+            'refund_to_passenger', 'pending', v_reference, v_payment.phone_number)
+          RETURNING id INTO v_refund_id;
+
+          v_refunds := v_refunds || jsonb_build_object('payment_id', v_refund_id, 'to', 'passenger',
+            'amount', (v_quote->>'passenger_amount')::INTEGER);
+        END IF;
+
+        IF (v_quote->>'driver_amount')::INTEGER > 0 THEN
+          IF v_driver_phone IS NULL THEN
+            RAISE EXCEPTION 'Add a phone number to your profile before cancelling this ride.';
+          END IF;
+
+          v_reference := format('BLUEOX-REFUND-%s-%s-D',
+            (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(v_booking.id::TEXT, 8));
+
+          INSERT INTO public.payments (booking_id, user_id, amount, payment_type, status, pandora_reference, phone_number)
+          VALUES (v_booking.id, v_ride.driver_id, (v_quote->>'driver_amount')::INTEGER,
+            'refund_to_driver', 'pending', v_reference, v_driver_phone)
+          RETURNING id INTO v_refund_id;
+
+          v_refunds := v_refunds || jsonb_build_object('payment_id', v_refund_id, 'to', 'driver',
+            'amount', (v_quote->>'driver_amount')::INTEGER);
+        END IF;
+
+        UPDATE public.payments SET status = 'refunded' WHERE id = v_payment.id;
+      END IF;
+    END IF;
+
+    PERFORM public.transition_booking(v_booking.id, 'cancelled_by_driver', 'ride_cancelled', p_driver_id);
+
+    v_results := v_results || jsonb_build_object(
+      'booking_id', v_booking.id,
+      'passenger_id', v_booking.passenger_id,
+      'passenger_name', v_booking.passenger_name,
+      'previous_status', v_booking.status,
+      'refunds', v_refunds
+    );
+  END LOOP;
+
+  PERFORM set_config('blueox.via_cancel_ride', '', true);
+
+  RETURN jsonb_build_object('success', true, 'ride_id', p_ride_id, 'bookings', v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Edge Function (service role) only
+REVOKE EXECUTE ON FUNCTION public.cancel_ride(UUID, UUID) FROM anon, authenticated;
+
+-- =====================
+-- DON'T REOPEN CANCELLED RIDES
+-- =====================
+-- Cancelling a confirmed booking used to set the ride back to 'active', which
+-- would reopen a ride cancel_ride() just cancelled. Only a full ride reopens.
+
+CREATE OR REPLACE FUNCTION update_available_seats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'confirmed' AND OLD.status != 'confirmed' THEN
+    -- Decrease available seats
+    UPDATE public.rides
+    SET available_seats = available_seats - NEW.seats_booked
+    WHERE id = NEW.ride_id;
+
+    -- Mark ride as full if no seats left
+    UPDATE public.rides
+    SET status = 'full'
+    WHERE id = NEW.ride_id AND available_seats = 0;
+
+  ELSIF NEW.status IN ('cancelled_by_passenger', 'cancelled_by_driver')
+        AND OLD.status = 'confirmed' THEN
+    -- Restore available seats
+    UPDATE public.rides
+    SET available_seats = available_seats + OLD.seats_booked,
+        status = CASE WHEN status = 'full' THEN 'active'::ride_status ELSE status END
+    WHERE id = NEW.ride_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================
+-- NO DIRECT RIDE CANCELLATION
+-- =====================
+-- Drivers can still edit their rides, but setting status = 'cancelled' directly
+-- would strand paid bookings, so it must go through cancel_ride()
+
+CREATE OR REPLACE FUNCTION public.protect_ride_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status != 'cancelled'
+     AND COALESCE(current_setting('blueox.via_cancel_ride', true), '') != 'on' THEN
+    RAISE EXCEPTION 'Rides can only be cancelled through the cancel-ride function';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rides_protect_cancellation ON public.rides;
+CREATE TRIGGER rides_protect_cancellation
+  BEFORE UPDATE ON public.rides
+  FOR EACH ROW EXECUTE FUNCTION public.protect_ride_cancellation();
@@ -0,0 +1,247 @@
+-- Cancellation Policies Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after booking-state-machine-migration.sql)
+
+-- =====================
+-- ORGANISATIONS
+-- =====================
+-- Drivers can belong to an organisation (e.g. a company running staff rides).
+-- Organisation settings such as the cancellation policy apply to their rides.
+
+CREATE TABLE IF NOT EXISTS public.organisations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS organisation_id UUID REFERENCES public.organisations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_organisation ON public.users(organisation_id);
+
+ALTER TABLE public.organisations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Organisations are viewable by everyone" ON public.organisations;
+CREATE POLICY "Organisations are viewable by everyone"
+  ON public.organisations FOR SELECT
+  USING (true);
+
+-- Membership is managed by Blue Ox, not by users editing their own profile
+CREATE OR REPLACE FUNCTION public.protect_user_organisation()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.organisation_id IS DISTINCT FROM OLD.organisation_id
+     AND COALESCE(auth.role(), 'service_role') != 'service_role' THEN
+    RAISE EXCEPTION 'organisation_id can only be changed by Blue Ox';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_protect_organisation ON public.users;
+CREATE TRIGGER users_protect_organisation
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_user_organisation();
+
+DROP TRIGGER IF EXISTS organisations_updated_at ON public.organisations;
+CREATE TRIGGER organisations_updated_at
+  BEFORE UPDATE ON public.organisations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- POLICIES AND TIERS
+-- =====================
+-- A policy is a set of tiers per canceller. The tier used is the one with the
+-- highest min_hours_before that the time left before departure exceeds; a tier
+-- with min_hours_before NULL catches everything else. Each tier splits the
+-- booking fee between passenger, driver and platform (percentages add up to 100).
+
+CREATE TABLE IF NOT EXISTS public.cancellation_policies (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  description TEXT,
+  is_default BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one default policy
+CREATE UNIQUE INDEX IF NOT EXISTS unique_default_cancellation_policy
+  ON public.cancellation_policies(is_default)
+  WHERE is_default;
+
+CREATE TABLE IF NOT EXISTS public.cancellation_policy_tiers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  policy_id UUID NOT NULL REFERENCES public.cancellation_policies(id) ON DELETE CASCADE,
+  cancelled_by TEXT NOT NULL CHECK (cancelled_by IN ('passenger', 'driver')),
+  min_hours_before NUMERIC, -- NULL = any time
+  label TEXT NOT NULL,      -- Shown to passengers, e.g. 'More than 1 hour before departure'
+  passenger_percent INTEGER NOT NULL CHECK (passenger_percent BETWEEN 0 AND 100),
+  driver_percent INTEGER NOT NULL CHECK (driver_percent BETWEEN 0 AND 100),
+  platform_percent INTEGER NOT NULL CHECK (platform_percent BETWEEN 0 AND 100),
+  CONSTRAINT tier_split_is_whole CHECK (passenger_percent + driver_percent + platform_percent = 100),
+  CONSTRAINT unique_policy_tier UNIQUE NULLS NOT DISTINCT (policy_id, cancelled_by, min_hours_before)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_policy_tiers_policy ON public.cancellation_policy_tiers(policy_id);
+
+-- Overrides: a ride's own policy wins over its driver's organisation's policy
+ALTER TABLE public.organisations
+ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID REFERENCES public.cancellation_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.rides
+ADD COLUMN IF NOT EXISTS cancellation_policy_id UUID REFERENCES public.cancellation_policies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cancellation_policy_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Passengers need to read the rules before booking; only Blue Ox edits them
+DROP POLICY IF EXISTS "Cancellation policies are viewable by everyone" ON public.cancellation_policies;
+CREATE POLICY "Cancellation policies are viewable by everyone"
+  ON public.cancellation_policies FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Cancellation policy tiers are viewable by everyone" ON public.cancellation_policy_tiers;
+CREATE POLICY "Cancellation policy tiers are viewable by everyone"
+  ON public.cancellation_policy_tiers FOR SELECT
+  USING (true);
+
+DROP TRIGGER IF EXISTS cancellation_policies_updated_at ON public.cancellation_policies;
+CREATE TRIGGER cancellation_policies_updated_at
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- =====================
+-- DEFAULT POLICY
+-- =====================
+-- The rules process-refund used to hard-code
+
+DO $$
+DECLARE
+  v_policy_id UUID;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.cancellation_policies WHERE is_default) THEN
+    INSERT INTO public.cancellation_policies (name, description, is_default)
+    VALUES ('Standard', 'Full refund up to 1 hour before departure; later cancellations go to the driver.', true)
+    RETURNING id INTO v_policy_id;
+
+    INSERT INTO public.cancellation_policy_tiers
+      (policy_id, cancelled_by, min_hours_before, label, passenger_percent, driver_percent, platform_percent)
+    VALUES
+      (v_policy_id, 'driver', NULL, 'Driver cancels', 100, 0, 0),
+      (v_policy_id, 'passenger', 1, 'More than 1 hour before departure', 100, 0, 0),
+      (v_policy_id, 'passenger', NULL, 'Within 1 hour of departure', 0, 100, 0);
+  END IF;
+END $$;
+
+-- =====================
+-- EVALUATION
+-- =====================
+-- Used by process-refund to split the refund and by the app to show passengers
+-- what they would get back, so both always agree.
+
+-- Ride override -> driver's organisation -> default
+CREATE OR REPLACE FUNCTION public.resolve_cancellation_policy(p_ride_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    r.cancellation_policy_id,
+    o.cancellation_policy_id,
+    (SELECT id FROM public.cancellation_policies WHERE is_default)
+  )
+  FROM public.rides r
+  JOIN public.users u ON u.id = r.driver_id
+  LEFT JOIN public.organisations o ON o.id = u.organisation_id
+  WHERE r.id = p_ride_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The policy that applies to a ride, with its tiers
+CREATE OR REPLACE FUNCTION public.ride_cancellation_policy(p_ride_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'id', p.id,
+    'name', p.name,
+    'description', p.description,
+    'tiers', COALESCE((
+      SELECT jsonb_agg(to_jsonb(t) ORDER BY t.cancelled_by DESC, t.min_hours_before DESC NULLS LAST)
+      FROM public.cancellation_policy_tiers t
+      WHERE t.policy_id = p.id
+    ), '[]'::jsonb)
+  )
+  FROM public.cancellation_policies p
+  WHERE p.id = public.resolve_cancellation_policy(p_ride_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- How p_amount would be split if p_cancelled_by cancelled at p_at.
+-- Returns { success, policy_*, tier_label, *_percent, *_amount } or
+-- { success: false, error_code, message }. The platform keeps any rounding.
+CREATE OR REPLACE FUNCTION public.evaluate_cancellation(
+  p_ride_id UUID,
+  p_cancelled_by TEXT,
+  p_amount INTEGER,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_departure_time TIMESTAMPTZ;
+  v_policy public.cancellation_policies%ROWTYPE;
+  v_tier public.cancellation_policy_tiers%ROWTYPE;
+  v_hours NUMERIC;
+  v_passenger_amount INTEGER;
+  v_driver_amount INTEGER;
+BEGIN
+  IF p_cancelled_by IS NULL OR p_cancelled_by NOT IN ('passenger', 'driver') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_canceller',
+      'message', 'Cancellations are made by the passenger or the driver.');
+  END IF;
+
+  SELECT departure_time INTO v_departure_time FROM public.rides WHERE id = p_ride_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  SELECT * INTO v_policy FROM public.cancellation_policies
+  WHERE id = public.resolve_cancellation_policy(p_ride_id);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_policy',
+      'message', 'No cancellation policy is configured. Please contact support.');
+  END IF;
+
+  v_hours := EXTRACT(EPOCH FROM (v_departure_time - p_at)) / 3600;
+
+  SELECT * INTO v_tier FROM public.cancellation_policy_tiers
+  WHERE policy_id = v_policy.id
+    AND cancelled_by = p_cancelled_by
+    AND (min_hours_before IS NULL OR v_hours > min_hours_before)
+  ORDER BY min_hours_before DESC NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_matching_tier',
+      'message', 'The cancellation policy does not cover this cancellation. Please contact support.');
+  END IF;
+
+  v_passenger_amount := FLOOR(p_amount * v_tier.passenger_percent / 100.0);
+  v_driver_amount := FLOOR(p_amount * v_tier.driver_percent / 100.0);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'policy_id', v_policy.id,
+    'policy_name', v_policy.name,
+    'tier_id', v_tier.id,
+    'tier_label', v_tier.label,
+    'hours_before_departure', ROUND(v_hours, 2),
+    'passenger_percent', v_tier.passenger_percent,
+    'driver_percent', v_tier.driver_percent,
+    'platform_percent', v_tier.platform_percent,
+    'passenger_amount', v_passenger_amount,
+    'driver_amount', v_driver_amount,
+    'platform_amount', p_amount - v_passenger_amount - v_driver_amount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.ride_cancellation_policy(UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_cancellation(UUID, TEXT, INTEGER, TIMESTAMPTZ) TO anon, authenticated;
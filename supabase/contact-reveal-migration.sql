@@ -0,0 +1,162 @@
+-- Contact Reveal Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after public-profiles-migration.sql)
+
+-- =====================
+-- PHONE NUMBERS: PRIVATE
+-- =====================
+-- Users stay readable by everyone for names, avatars and ratings, but row level
+-- security can't hide a column, so phone numbers are hidden with column
+-- privileges instead. Nobody can select users.phone_number through the API:
+-- - Your own number: my_profile()
+-- - The other side of a confirmed booking: reveal_contact(), which logs it
+-- Email isn't selectable either: members read their own through my_profile()
+-- and admins any member's through admin_user_emails().
+--
+-- A column added to users later isn't readable until it is granted here.
+
+REVOKE SELECT ON public.users FROM anon, authenticated;
+
+GRANT SELECT (
+  id, full_name, avatar_url, role, average_rating, total_rides, is_verified,
+  organisation_id, created_at, updated_at
+) ON public.users TO anon, authenticated;
+
+-- Your full profile, phone number included. Zero rows when there is none yet,
+-- so the app can create it.
+CREATE OR REPLACE FUNCTION public.my_profile()
+RETURNS SETOF public.users AS $$
+  SELECT * FROM public.users WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.my_profile() FROM anon;
+GRANT EXECUTE ON FUNCTION public.my_profile() TO authenticated;
+
+-- The given members' emails, for the admin pages. No rows for anyone else.
+CREATE OR REPLACE FUNCTION public.admin_user_emails(p_user_ids UUID[])
+RETURNS TABLE (id UUID, email TEXT) AS $$
+  SELECT u.id, u.email FROM public.users u
+  WHERE u.id = ANY(p_user_ids) AND public.is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.admin_user_emails(UUID[]) FROM anon;
+GRANT EXECUTE ON FUNCTION public.admin_user_emails(UUID[]) TO authenticated;
+
+-- =====================
+-- VIEWS WITHOUT PHONE NUMBERS
+-- =====================
+-- Views read users as their owner, so the column privileges above don't apply
+-- to them: drop the phone columns instead.
+
+-- Same as markets-migration.sql, without driver_phone
+DROP VIEW IF EXISTS public.rides_with_driver;
+CREATE OR REPLACE VIEW public.rides_with_driver AS
+SELECT
+  r.*,
+  u.full_name as driver_name,
+  u.avatar_url as driver_avatar,
+  u.average_rating as driver_rating,
+  u.total_rides as driver_total_rides,
+  cp.photo_url as car_photo_url
+FROM public.rides r
+JOIN public.users u ON r.driver_id = u.id
+LEFT JOIN public.car_photos cp ON r.car_photo_id = cp.id;
+
+GRANT SELECT ON public.rides_with_driver TO authenticated;
+GRANT SELECT ON public.rides_with_driver TO anon;
+
+-- Same as schema.sql, without passenger_phone and driver_phone
+DROP VIEW IF EXISTS public.bookings_with_details;
+CREATE OR REPLACE VIEW public.bookings_with_details AS
+SELECT
+  b.*,
+  r.origin_name,
+  r.destination_name,
+  r.departure_time,
+  r.price as ride_price,
+  r.status as ride_status,
+  p.full_name as passenger_name,
+  p.avatar_url as passenger_avatar,
+  d.full_name as driver_name,
+  d.avatar_url as driver_avatar
+FROM public.bookings b
+JOIN public.rides r ON b.ride_id = r.id
+JOIN public.users p ON b.passenger_id = p.id
+JOIN public.users d ON r.driver_id = d.id;
+
+GRANT SELECT ON public.bookings_with_details TO authenticated;
+
+-- =====================
+-- CONTACT REVEALS
+-- =====================
+-- One row each time someone was shown a phone number, for abuse reports
+
+CREATE TABLE IF NOT EXISTS public.contact_reveals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  viewer_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_reveals_booking ON public.contact_reveals(booking_id);
+CREATE INDEX IF NOT EXISTS idx_contact_reveals_contact ON public.contact_reveals(contact_id, created_at DESC);
+
+-- Written by reveal_contact() only; admins read them
+ALTER TABLE public.contact_reveals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view contact reveals" ON public.contact_reveals;
+CREATE POLICY "Admins can view contact reveals"
+  ON public.contact_reveals FOR SELECT
+  USING (public.is_admin());
+
+-- The passenger gets the driver's number and the driver the passenger's, while
+-- the booking is confirmed. Returns { success, phone_number } or
+-- { success: false, error_code, message }
+
+CREATE OR REPLACE FUNCTION public.reveal_contact(p_booking_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_booking public.bookings%ROWTYPE;
+  v_ride public.rides%ROWTYPE;
+  v_contact_id UUID;
+  v_phone TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+  SELECT * INTO v_ride FROM public.rides WHERE id = v_booking.ride_id;
+
+  v_contact_id := CASE
+    WHEN v_booking.passenger_id = v_user_id THEN v_ride.driver_id
+    WHEN v_ride.driver_id = v_user_id THEN v_booking.passenger_id
+  END;
+
+  IF v_booking.id IS NULL OR v_contact_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_found',
+      'message', 'Booking not found.');
+  END IF;
+
+  IF v_booking.status != 'confirmed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_confirmed',
+      'message', 'Phone numbers are only shared while a booking is confirmed.');
+  END IF;
+
+  SELECT NULLIF(trim(phone_number), '') INTO v_phone FROM public.users WHERE id = v_contact_id;
+
+  IF v_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_phone_number',
+      'message', 'They haven''t added a phone number.');
+  END IF;
+
+  INSERT INTO public.contact_reveals (booking_id, viewer_id, contact_id)
+  VALUES (p_booking_id, v_user_id, v_contact_id);
+
+  RETURN jsonb_build_object('success', true, 'phone_number', v_phone);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.reveal_contact(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.reveal_contact(UUID) TO authenticated;
@@ -0,0 +1,110 @@
+-- Create Booking RPC Migration
+-- Run this in Supabase Dashboard -> SQL Editor
+
+-- =====================
+-- FEE SCHEDULE
+-- =====================
+-- Single source of truth for the booking fee: 10% of the seat price
+-- (rounded up) per seat. calculateBookingFee in src/lib/utils.ts mirrors it
+-- for display only.
+
+CREATE OR REPLACE FUNCTION public.calculate_booking_fee(p_price INTEGER, p_seats INTEGER)
+RETURNS INTEGER AS $$
+  SELECT CEIL(p_price * 0.10)::INTEGER * p_seats;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================
+-- ALLOW REBOOKING AFTER CANCELLATION
+-- =====================
+-- Only one active (pending or confirmed) booking per passenger per ride;
+-- cancelled bookings no longer block a new one
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS unique_passenger_ride;
+
+CREATE UNIQUE INDEX IF NOT EXISTS unique_active_passenger_ride
+  ON public.bookings(ride_id, passenger_id)
+  WHERE status IN ('pending_payment', 'confirmed');
+
+-- =====================
+-- CREATE BOOKING FUNCTION
+-- =====================
+-- Returns { success: true, booking_id, booking_fee } or
+-- { success: false, error_code, message }. Error codes:
+-- not_authenticated, invalid_seats, ride_not_found, ride_not_active,
+-- ride_departed, self_booking, duplicate_booking, seats_unavailable
+
+CREATE OR REPLACE FUNCTION public.create_booking(p_ride_id UUID, p_seats INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_passenger_id UUID := auth.uid();
+  v_ride public.rides%ROWTYPE;
+  v_booking_fee INTEGER;
+  v_booking_id UUID;
+BEGIN
+  IF v_passenger_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_authenticated',
+      'message', 'Please sign in to book a seat.');
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 OR p_seats > 4 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_seats',
+      'message', 'You can book between 1 and 4 seats.');
+  END IF;
+
+  -- Lock the ride so concurrent bookings see each other's seat counts
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.status != 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_active',
+      'message', 'This ride is no longer available.');
+  END IF;
+
+  IF v_ride.departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_departed',
+      'message', 'This ride has already departed.');
+  END IF;
+
+  IF v_ride.driver_id = v_passenger_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'self_booking',
+      'message', 'You cannot book a seat on your own ride.');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE ride_id = p_ride_id
+      AND passenger_id = v_passenger_id
+      AND status IN ('pending_payment', 'confirmed')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'duplicate_booking',
+      'message', 'You already have a booking on this ride.');
+  END IF;
+
+  IF p_seats > v_ride.available_seats THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'seats_unavailable',
+      'message', format('Only %s seat(s) available.', v_ride.available_seats));
+  END IF;
+
+  v_booking_fee := public.calculate_booking_fee(v_ride.price, p_seats);
+
+  INSERT INTO public.bookings (ride_id, passenger_id, seats_booked, booking_fee, status)
+  VALUES (p_ride_id, v_passenger_id, p_seats, v_booking_fee, 'pending_payment')
+  RETURNING id INTO v_booking_id;
+
+  RETURN jsonb_build_object('success', true, 'booking_id', v_booking_id, 'booking_fee', v_booking_fee);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.create_booking(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_booking_fee(INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================
+-- BOOKINGS ARE CREATED ONLY THROUGH create_booking
+-- =====================
+-- Direct inserts would let the client choose its own booking_fee
+
+DROP POLICY IF EXISTS "Passengers can create bookings" ON public.bookings;
@@ -0,0 +1,507 @@
+-- Driver Wallet Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after ledger-migration.sql)
+--
+-- ALTER TYPE ... ADD VALUE cannot be used in the same transaction that adds it.
+-- If your SQL editor runs the whole script as one transaction, run the first
+-- statement on its own, then the rest.
+
+ALTER TYPE payment_type ADD VALUE IF NOT EXISTS 'driver_payout';
+
+-- =====================
+-- PAYOUT PAYMENTS
+-- =====================
+-- A payout sends wallet money to the driver; it belongs to no booking
+
+ALTER TABLE public.payments ALTER COLUMN booking_id DROP NOT NULL;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_booking_required;
+ALTER TABLE public.payments ADD CONSTRAINT payments_booking_required
+  CHECK (booking_id IS NOT NULL OR payment_type::TEXT = 'driver_payout');
+
+-- =====================
+-- ADMINS
+-- =====================
+-- Payout approval trusts users.role, so users can no longer make themselves admins
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM public.users WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.protect_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND 'admin' IN (NEW.role, OLD.role)
+     AND COALESCE(auth.role(), 'service_role') != 'service_role' THEN
+    RAISE EXCEPTION 'The admin role can only be changed by Blue Ox';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_protect_role ON public.users;
+CREATE TRIGGER users_protect_role
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_user_role();
+
+-- =====================
+-- WALLET = DRIVER LEDGER ACCOUNT
+-- =====================
+-- A driver's wallet balance is their 'driver' ledger account. Drivers can read
+-- their own account and its history.
+
+DROP POLICY IF EXISTS "Users can view own ledger accounts" ON public.ledger_accounts;
+CREATE POLICY "Users can view own ledger accounts"
+  ON public.ledger_accounts FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view own ledger lines" ON public.ledger_lines;
+CREATE POLICY "Users can view own ledger lines"
+  ON public.ledger_lines FOR SELECT
+  USING (account_id IN (SELECT id FROM public.ledger_accounts WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can view own ledger entries" ON public.ledger_entries;
+CREATE POLICY "Users can view own ledger entries"
+  ON public.ledger_entries FOR SELECT
+  USING (id IN (
+    SELECT l.entry_id FROM public.ledger_lines l
+    JOIN public.ledger_accounts a ON a.id = l.account_id
+    WHERE a.user_id = auth.uid()
+  ));
+
+-- Forfeited cancellation fees are credited to the wallet instead of being
+-- disbursed one by one. Keyed on the booking fee, so a fee is credited once.
+CREATE OR REPLACE FUNCTION public.credit_driver_forfeiture(
+  p_booking_fee_payment_id UUID,
+  p_driver_id UUID,
+  p_amount INTEGER
+)
+RETURNS UUID AS $$
+DECLARE
+  v_booking_id UUID;
+BEGIN
+  SELECT booking_id INTO v_booking_id FROM public.payments WHERE id = p_booking_fee_payment_id;
+
+  RETURN public.post_ledger_entry(
+    'forfeiture',
+    public.ledger_account('platform_revenue'),
+    public.ledger_account('driver', p_driver_id),
+    p_amount,
+    'Late cancellation fee',
+    p_booking_fee_payment_id,
+    v_booking_id
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.credit_driver_forfeiture(UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Payouts move money out of the wallet when they complete; they were never
+-- owed by the platform's revenue, so queuing or discarding one posts nothing
+CREATE OR REPLACE FUNCTION public.post_payment_to_ledger(
+  p_payment public.payments,
+  p_event TEXT, -- 'completed', 'queued' or 'discarded'
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+DECLARE
+  v_cash UUID := public.ledger_account('provider_cash');
+  v_revenue UUID := public.ledger_account('platform_revenue');
+  v_recipient UUID;
+  v_to_driver BOOLEAN := p_payment.payment_type IN ('refund_to_driver', 'driver_payout');
+BEGIN
+  IF p_payment.payment_type = 'booking_fee' THEN
+    IF p_event = 'completed' THEN
+      PERFORM public.post_ledger_entry('booking_fee', v_cash, v_revenue, p_payment.amount,
+        'Booking fee ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+    RETURN;
+  END IF;
+
+  v_recipient := public.ledger_account(CASE WHEN v_to_driver THEN 'driver' ELSE 'passenger' END, p_payment.user_id);
+
+  IF p_event = 'queued' AND p_payment.payment_type != 'driver_payout' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'forfeiture' ELSE 'refund' END,
+      v_revenue, v_recipient, p_payment.amount,
+      CASE WHEN v_to_driver THEN 'Cancellation fee owed to driver' ELSE 'Refund owed to passenger' END,
+      p_payment.id, p_payment.booking_id, p_at);
+  ELSIF p_event = 'completed' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'payout' ELSE 'refund_paid' END,
+      v_recipient, v_cash, p_payment.amount,
+      'Sent ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+  ELSIF p_event = 'discarded' AND p_payment.payment_type != 'driver_payout' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'forfeiture_reversed' ELSE 'refund_reversed' END,
+      v_recipient, v_revenue, p_payment.amount,
+      'Queued refund discarded before it was sent', p_payment.id, p_payment.booking_id, p_at);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- CANCEL RIDE: DRIVER SHARE TO THE WALLET
+-- =====================
+-- Same as cancel-ride-migration.sql, except a driver share (if the policy gives
+-- one) is credited to the driver's wallet instead of being disbursed
+
+CREATE OR REPLACE FUNCTION public.cancel_ride(p_ride_id UUID, p_driver_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_ride public.rides%ROWTYPE;
+  v_booking RECORD;
+  v_payment public.payments%ROWTYPE;
+  v_quote JSONB;
+  v_refunds JSONB;
+  v_results JSONB := '[]'::jsonb;
+  v_refund_id UUID;
+  v_reference TEXT;
+BEGIN
+  -- Lock the ride so no booking is created or confirmed while we cancel
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.driver_id != p_driver_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_driver',
+      'message', 'Only the driver can cancel this ride.');
+  END IF;
+
+  IF v_ride.status IN ('cancelled', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_cancellable',
+      'message', format('This ride is already %s.', v_ride.status));
+  END IF;
+
+  PERFORM set_config('blueox.via_cancel_ride', 'on', true);
+  UPDATE public.rides SET status = 'cancelled' WHERE id = p_ride_id;
+
+  FOR v_booking IN
+    SELECT b.id, b.passenger_id, b.status, u.full_name AS passenger_name
+    FROM public.bookings b
+    JOIN public.users u ON u.id = b.passenger_id
+    WHERE b.ride_id = p_ride_id
+      AND b.status IN ('pending_payment', 'confirmed')
+    ORDER BY b.created_at
+  LOOP
+    v_refunds := '[]'::jsonb;
+
+    IF v_booking.status = 'confirmed' THEN
+      SELECT * INTO v_payment FROM public.payments
+      WHERE booking_id = v_booking.id
+        AND payment_type = 'booking_fee'
+        AND status = 'completed'
+      ORDER BY created_at DESC
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_quote := public.evaluate_cancellation(p_ride_id, 'driver', v_payment.amount);
+
+        IF NOT (v_quote->>'success')::BOOLEAN THEN
+          RAISE EXCEPTION '%', v_quote->>'message';
+        END IF;
+
+        IF (v_quote->>'passenger_amount')::INTEGER > 0 THEN
+          v_reference := format('BLUEOX-REFUND-%s-%s-P',
+            (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(v_booking.id::TEXT, 8));
+
+          INSERT INTO public.payments (booking_id, user_id, amount, payment_type, status, pandora_reference, phone_number)
+          VALUES (v_booking.id, v_booking.passenger_id, (v_quote->>'passenger_amount')::INTEGER,
+            'refund_to_passenger', 'pending', v_reference, v_payment.phone_number)
+          RETURNING id INTO v_refund_id;
+
+          v_refunds := v_refunds || jsonb_build_object('payment_id', v_refund_id, 'to', 'passenger',
+            'amount', (v_quote->>'passenger_amount')::INTEGER);
+        END IF;
+
+        IF (v_quote->>'driver_amount')::INTEGER > 0 THEN
+          PERFORM public.credit_driver_forfeiture(v_payment.id, v_ride.driver_id,
+            (v_quote->>'driver_amount')::INTEGER);
+        END IF;
+
+        UPDATE public.payments SET status = 'refunded' WHERE id = v_payment.id;
+      END IF;
+    END IF;
+
+    PERFORM public.transition_booking(v_booking.id, 'cancelled_by_driver', 'ride_cancelled', p_driver_id);
+
+    v_results := v_results || jsonb_build_object(
+      'booking_id', v_booking.id,
+      'passenger_id', v_booking.passenger_id,
+      'passenger_name', v_booking.passenger_name,
+      'previous_status', v_booking.status,
+      'refunds', v_refunds
+    );
+  END LOOP;
+
+  PERFORM set_config('blueox.via_cancel_ride', '', true);
+
+  RETURN jsonb_build_object('success', true, 'ride_id', p_ride_id, 'bookings', v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- PAYOUT REQUESTS
+-- =====================
+-- requested -> approved (payout payment created and sent) -> paid | failed
+-- requested -> rejected (by an admin) | cancelled (by the driver)
+-- Money leaves the wallet only when the payout payment completes; until then
+-- an open request reserves its amount so it can't be requested twice.
+
+CREATE TABLE IF NOT EXISTS public.payout_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  driver_id UUID NOT NULL REFERENCES public.users(id) ON DELETE RESTRICT,
+  amount INTEGER NOT NULL CHECK (amount > 0), -- UGX
+  phone_number TEXT NOT NULL, -- The driver's verified number when requested
+  status TEXT NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'approved', 'rejected', 'cancelled', 'paid', 'failed')),
+  payment_id UUID REFERENCES public.payments(id),
+  reviewed_by UUID REFERENCES public.users(id),
+  reviewed_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  error_message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_requests_driver ON public.payout_requests(driver_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payout_requests_status ON public.payout_requests(status, created_at);
+
+-- One open request per driver
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_requests_one_open
+  ON public.payout_requests(driver_id)
+  WHERE status IN ('requested', 'approved');
+
+DROP TRIGGER IF EXISTS payout_requests_updated_at ON public.payout_requests;
+CREATE TRIGGER payout_requests_updated_at
+  BEFORE UPDATE ON public.payout_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Changes go through the functions below
+ALTER TABLE public.payout_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Drivers can view own payout requests" ON public.payout_requests;
+CREATE POLICY "Drivers can view own payout requests"
+  ON public.payout_requests FOR SELECT
+  USING (driver_id = auth.uid());
+
+DROP POLICY IF EXISTS "Admins can view payout requests" ON public.payout_requests;
+CREATE POLICY "Admins can view payout requests"
+  ON public.payout_requests FOR SELECT
+  USING (public.is_admin());
+
+-- Smallest payout worth a transfer fee
+CREATE OR REPLACE FUNCTION public.minimum_payout()
+RETURNS INTEGER AS $$
+  SELECT 5000;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Wallet balance less what open payout requests have reserved
+CREATE OR REPLACE FUNCTION public.available_wallet_balance(p_driver_id UUID)
+RETURNS INTEGER AS $$
+  SELECT
+    COALESCE((
+      SELECT -SUM(l.amount)
+      FROM public.ledger_lines l
+      JOIN public.ledger_accounts a ON a.id = l.account_id
+      WHERE a.account_type = 'driver' AND a.user_id = p_driver_id
+    ), 0)::INTEGER
+    - COALESCE((
+      SELECT SUM(amount)
+      FROM public.payout_requests
+      WHERE driver_id = p_driver_id AND status IN ('requested', 'approved')
+    ), 0)::INTEGER;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.available_wallet_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The payout number is the phone number the driver verified with Supabase Auth
+-- (an SMS code), never the editable users.phone_number
+CREATE OR REPLACE FUNCTION public.verified_payout_phone(p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT phone FROM auth.users
+  WHERE id = p_user_id AND phone_confirmed_at IS NOT NULL AND COALESCE(phone, '') != '';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.verified_payout_phone(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in driver's wallet:
+-- { balance, reserved, available, minimum_payout, payout_phone }
+CREATE OR REPLACE FUNCTION public.driver_wallet()
+RETURNS JSONB AS $$
+DECLARE
+  v_balance INTEGER;
+  v_available INTEGER;
+BEGIN
+  SELECT COALESCE(-SUM(l.amount), 0)::INTEGER INTO v_balance
+  FROM public.ledger_lines l
+  JOIN public.ledger_accounts a ON a.id = l.account_id
+  WHERE a.account_type = 'driver' AND a.user_id = auth.uid();
+
+  v_available := public.available_wallet_balance(auth.uid());
+
+  RETURN jsonb_build_object(
+    'balance', v_balance,
+    'reserved', v_balance - v_available,
+    'available', v_available,
+    'minimum_payout', public.minimum_payout(),
+    'payout_phone', public.verified_payout_phone(auth.uid())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.driver_wallet() FROM anon;
+GRANT EXECUTE ON FUNCTION public.driver_wallet() TO authenticated;
+
+-- Ask for p_amount to be paid out to the driver's verified number.
+-- Returns { success, payout_id } or { success: false, error_code, message }
+CREATE OR REPLACE FUNCTION public.request_payout(p_amount INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_driver_id UUID := auth.uid();
+  v_phone TEXT;
+  v_payout_id UUID;
+BEGIN
+  IF v_driver_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_phone := public.verified_payout_phone(v_driver_id);
+  IF v_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_verified_phone',
+      'message', 'Verify your mobile money number before requesting a payout.');
+  END IF;
+
+  IF p_amount IS NULL OR p_amount < public.minimum_payout() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'below_minimum',
+      'message', format('The minimum payout is UGX %s.', public.minimum_payout()));
+  END IF;
+
+  -- Serialise requests per driver while the balance is checked
+  PERFORM 1 FROM public.ledger_accounts
+  WHERE id = public.ledger_account('driver', v_driver_id)
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payout_requests
+    WHERE driver_id = v_driver_id AND status IN ('requested', 'approved')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'payout_pending',
+      'message', 'You already have a payout request in progress.');
+  END IF;
+
+  IF p_amount > public.available_wallet_balance(v_driver_id) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'insufficient_balance',
+      'message', 'That is more than your wallet balance.');
+  END IF;
+
+  INSERT INTO public.payout_requests (driver_id, amount, phone_number)
+  VALUES (v_driver_id, p_amount, v_phone)
+  RETURNING id INTO v_payout_id;
+
+  RETURN jsonb_build_object('success', true, 'payout_id', v_payout_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.request_payout(INTEGER) FROM anon;
+GRANT EXECUTE ON FUNCTION public.request_payout(INTEGER) TO authenticated;
+
+-- Withdraw a request an admin hasn't reviewed yet
+CREATE OR REPLACE FUNCTION public.cancel_payout_request(p_payout_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  UPDATE public.payout_requests
+  SET status = 'cancelled'
+  WHERE id = p_payout_id
+    AND driver_id = auth.uid()
+    AND status = 'requested';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'payout_not_cancellable',
+      'message', 'This payout request can no longer be cancelled.');
+  END IF;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_payout_request(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.cancel_payout_request(UUID) TO authenticated;
+
+-- Called by the review-payout Edge Function once it has checked the caller is
+-- an admin. Approving creates the 'pending' payout payment the function then
+-- sends. Returns { success, payment_id } or { success: false, error_code, message }
+CREATE OR REPLACE FUNCTION public.review_payout(
+  p_payout_id UUID,
+  p_reviewer_id UUID,
+  p_approve BOOLEAN,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_payout public.payout_requests%ROWTYPE;
+  v_payment_id UUID;
+BEGIN
+  SELECT * INTO v_payout FROM public.payout_requests WHERE id = p_payout_id FOR UPDATE;
+
+  IF NOT FOUND OR v_payout.status != 'requested' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'payout_not_reviewable',
+      'message', 'This payout request has already been reviewed or withdrawn.');
+  END IF;
+
+  IF NOT p_approve THEN
+    UPDATE public.payout_requests
+    SET status = 'rejected', reviewed_by = p_reviewer_id, reviewed_at = NOW(), rejection_reason = p_reason
+    WHERE id = p_payout_id;
+
+    RETURN jsonb_build_object('success', true, 'payment_id', NULL);
+  END IF;
+
+  -- The request itself is part of the reservation, so add it back before checking
+  IF v_payout.amount > public.available_wallet_balance(v_payout.driver_id) + v_payout.amount THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'insufficient_balance',
+      'message', 'The driver''s wallet no longer covers this payout.');
+  END IF;
+
+  INSERT INTO public.payments (user_id, amount, payment_type, status, pandora_reference, phone_number)
+  VALUES (v_payout.driver_id, v_payout.amount, 'driver_payout', 'pending',
+    format('BLUEOX-PAYOUT-%s-%s', (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(p_payout_id::TEXT, 8)),
+    v_payout.phone_number)
+  RETURNING id INTO v_payment_id;
+
+  UPDATE public.payout_requests
+  SET status = 'approved', reviewed_by = p_reviewer_id, reviewed_at = NOW(), payment_id = v_payment_id
+  WHERE id = p_payout_id;
+
+  RETURN jsonb_build_object('success', true, 'payment_id', v_payment_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.review_payout(UUID, UUID, BOOLEAN, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Keep the request in step with its payout payment, whichever path settles it
+-- (review-payout, the webhook or reconcile-payments)
+CREATE OR REPLACE FUNCTION public.sync_payout_request()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_type = 'driver_payout' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status = 'completed' THEN
+      UPDATE public.payout_requests SET status = 'paid', error_message = NULL
+      WHERE payment_id = NEW.id;
+    ELSIF NEW.status = 'failed' THEN
+      UPDATE public.payout_requests SET status = 'failed', error_message = NEW.error_message
+      WHERE payment_id = NEW.id;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_sync_payout_request ON public.payments;
+CREATE TRIGGER payments_sync_payout_request
+  AFTER UPDATE OF status ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_payout_request();
@@ -0,0 +1,216 @@
+-- Fee Schedule Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after promo-codes-migration.sql)
+
+-- =====================
+-- FEE SCHEDULES
+-- =====================
+-- The booking fee per seat is set by a fee schedule instead of a fixed 10%:
+--   CEIL(price * percent / 100) + flat_fee, kept within min_fee..max_fee and
+--   never more than the seat price.
+-- A schedule can apply to a range of route distances, to rides by drivers of one
+-- organisation, or to a period (e.g. a promotion). The matching schedule with
+-- the highest priority is used; the default schedule matches everything.
+
+CREATE TABLE IF NOT EXISTS public.fee_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  percent NUMERIC(5, 2) NOT NULL DEFAULT 0 CHECK (percent >= 0 AND percent <= 100),
+  flat_fee INTEGER NOT NULL DEFAULT 0 CHECK (flat_fee >= 0), -- UGX per seat
+  min_fee INTEGER CHECK (min_fee >= 0), -- UGX per seat
+  max_fee INTEGER CHECK (max_fee >= 0), -- UGX per seat
+  min_distance_km NUMERIC(10, 2), -- Inclusive
+  max_distance_km NUMERIC(10, 2), -- Exclusive
+  organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  priority INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT fee_schedule_charges CHECK (percent > 0 OR flat_fee > 0 OR min_fee > 0),
+  CONSTRAINT fee_schedule_caps CHECK (min_fee IS NULL OR max_fee IS NULL OR min_fee <= max_fee)
+);
+
+DROP TRIGGER IF EXISTS fee_schedules_updated_at ON public.fee_schedules;
+CREATE TRIGGER fee_schedules_updated_at
+  BEFORE UPDATE ON public.fee_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+ALTER TABLE public.fee_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Fee schedules are viewable by everyone" ON public.fee_schedules;
+CREATE POLICY "Fee schedules are viewable by everyone"
+  ON public.fee_schedules FOR SELECT
+  USING (true);
+
+-- The fee charged so far
+INSERT INTO public.fee_schedules (name, percent)
+SELECT 'Standard', 10
+WHERE NOT EXISTS (SELECT 1 FROM public.fee_schedules);
+
+-- =====================
+-- QUOTING
+-- =====================
+
+-- The schedule for a ride of this distance by this driver, booked at p_at
+CREATE OR REPLACE FUNCTION public.resolve_fee_schedule(
+  p_distance_km NUMERIC,
+  p_driver_id UUID,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS UUID AS $$
+  SELECT s.id
+  FROM public.fee_schedules s
+  WHERE s.is_active
+    AND (s.organisation_id IS NULL
+      OR s.organisation_id = (SELECT organisation_id FROM public.users WHERE id = p_driver_id))
+    AND (s.min_distance_km IS NULL OR p_distance_km >= s.min_distance_km)
+    AND (s.max_distance_km IS NULL OR p_distance_km < s.max_distance_km)
+    AND (s.starts_at IS NULL OR s.starts_at <= p_at)
+    AND (s.ends_at IS NULL OR s.ends_at > p_at)
+  ORDER BY s.priority DESC, s.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The single place fees are calculated: create_booking charges it and the app
+-- shows it (supabase/functions/_shared/fees.ts). Returns
+-- { schedule_id, schedule_name, fee_per_seat, driver_share_per_seat, booking_fee, driver_fare }
+CREATE OR REPLACE FUNCTION public.quote_booking_fee(
+  p_price INTEGER,
+  p_seats INTEGER DEFAULT 1,
+  p_distance_km NUMERIC DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_schedule public.fee_schedules%ROWTYPE;
+  v_fee INTEGER;
+BEGIN
+  SELECT * INTO v_schedule FROM public.fee_schedules
+  WHERE id = public.resolve_fee_schedule(p_distance_km, p_driver_id, p_at);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'no_fee_schedule: no active fee schedule matches this ride';
+  END IF;
+
+  v_fee := CEIL(p_price * v_schedule.percent / 100.0)::INTEGER + v_schedule.flat_fee;
+  v_fee := GREATEST(COALESCE(v_schedule.min_fee, 0), LEAST(COALESCE(v_schedule.max_fee, v_fee), v_fee));
+  v_fee := LEAST(v_fee, p_price);
+
+  RETURN jsonb_build_object(
+    'schedule_id', v_schedule.id,
+    'schedule_name', v_schedule.name,
+    'fee_per_seat', v_fee,
+    'driver_share_per_seat', p_price - v_fee,
+    'booking_fee', v_fee * p_seats,
+    'driver_fare', (p_price - v_fee) * p_seats
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.resolve_fee_schedule(NUMERIC, UUID, TIMESTAMPTZ) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.quote_booking_fee(INTEGER, INTEGER, NUMERIC, UUID, TIMESTAMPTZ) TO anon, authenticated;
+
+-- Kept for anything still calling them; they quote the schedule that applies
+-- to a ride with no distance or organisation
+CREATE OR REPLACE FUNCTION public.calculate_booking_fee(p_price INTEGER, p_seats INTEGER)
+RETURNS INTEGER AS $$
+  SELECT (public.quote_booking_fee(p_price, p_seats)->>'booking_fee')::INTEGER;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.calculate_driver_fare(p_price INTEGER, p_seats INTEGER)
+RETURNS INTEGER AS $$
+  SELECT (public.quote_booking_fee(p_price, p_seats)->>'driver_fare')::INTEGER;
+$$ LANGUAGE sql STABLE;
+
+-- =====================
+-- CREATE BOOKING FROM THE SCHEDULE
+-- =====================
+-- Same as full-fare-migration.sql, except the fee comes from the ride's fee schedule
+
+CREATE OR REPLACE FUNCTION public.create_booking(p_ride_id UUID, p_seats INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_passenger_id UUID := auth.uid();
+  v_ride public.rides%ROWTYPE;
+  v_bookable INTEGER;
+  v_quote JSONB;
+  v_booking_fee INTEGER;
+  v_driver_fare INTEGER := 0;
+  v_booking_id UUID;
+  v_hold_expires_at TIMESTAMPTZ := NOW() + INTERVAL '15 minutes';
+BEGIN
+  IF v_passenger_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_authenticated',
+      'message', 'Please sign in to book a seat.');
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 OR p_seats > 4 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_seats',
+      'message', 'You can book between 1 and 4 seats.');
+  END IF;
+
+  -- Lock the ride so concurrent bookings see each other's holds
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.status != 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_active',
+      'message', 'This ride is no longer available.');
+  END IF;
+
+  IF v_ride.departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_departed',
+      'message', 'This ride has already departed.');
+  END IF;
+
+  IF v_ride.driver_id = v_passenger_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'self_booking',
+      'message', 'You cannot book a seat on your own ride.');
+  END IF;
+
+  -- A hold of theirs that expired unpaid no longer blocks booking again
+  PERFORM public.cancel_expired_holds(p_ride_id, v_passenger_id);
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE ride_id = p_ride_id
+      AND passenger_id = v_passenger_id
+      AND status IN ('pending_payment', 'confirmed')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'duplicate_booking',
+      'message', 'You already have a booking on this ride.');
+  END IF;
+
+  v_bookable := v_ride.available_seats - public.held_seats(p_ride_id);
+
+  IF p_seats > v_bookable THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'seats_unavailable',
+      'message', format('Only %s seat(s) available.', GREATEST(v_bookable, 0)));
+  END IF;
+
+  v_quote := public.quote_booking_fee(v_ride.price, p_seats, v_ride.distance_km, v_ride.driver_id);
+  v_booking_fee := (v_quote->>'booking_fee')::INTEGER;
+
+  IF v_ride.full_fare_in_app THEN
+    v_driver_fare := (v_quote->>'driver_fare')::INTEGER;
+  END IF;
+
+  INSERT INTO public.bookings (ride_id, passenger_id, seats_booked, booking_fee, driver_fare, status, hold_expires_at)
+  VALUES (p_ride_id, v_passenger_id, p_seats, v_booking_fee, v_driver_fare, 'pending_payment', v_hold_expires_at)
+  RETURNING id INTO v_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking_id,
+    'booking_fee', v_booking_fee,
+    'driver_fare', v_driver_fare,
+    'hold_expires_at', v_hold_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
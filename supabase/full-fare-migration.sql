@@ -0,0 +1,579 @@
+-- Full Fare In App Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after driver-wallet-migration.sql)
+
+-- =====================
+-- RIDES: PAY FULL FARE IN APP
+-- =====================
+-- By default passengers pay the booking fee in the app and the rest of the fare
+-- in cash. A driver can instead have the whole fare paid in the app: the
+-- passenger pays once, and the driver's share is held until the ride is
+-- completed, then credited to the driver's wallet.
+
+ALTER TABLE public.rides
+ADD COLUMN IF NOT EXISTS full_fare_in_app BOOLEAN NOT NULL DEFAULT false;
+
+-- r.* is expanded when a view is created, so recreate it to pick up the column
+DROP VIEW IF EXISTS public.rides_with_driver;
+CREATE OR REPLACE VIEW public.rides_with_driver AS
+SELECT
+  r.*,
+  u.full_name as driver_name,
+  u.avatar_url as driver_avatar,
+  u.average_rating as driver_rating,
+  u.total_rides as driver_total_rides,
+  u.phone_number as driver_phone,
+  cp.photo_url as car_photo_url
+FROM public.rides r
+JOIN public.users u ON r.driver_id = u.id
+LEFT JOIN public.car_photos cp ON r.car_photo_id = cp.id;
+
+GRANT SELECT ON public.rides_with_driver TO authenticated;
+GRANT SELECT ON public.rides_with_driver TO anon;
+
+-- =====================
+-- BOOKINGS: THE DRIVER'S FARE
+-- =====================
+-- driver_fare is the driver's share of the fare paid in the app, fixed by
+-- create_booking; 0 when the fare is paid in cash. The passenger pays
+-- booking_fee + driver_fare in the app.
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS driver_fare INTEGER NOT NULL DEFAULT 0 CHECK (driver_fare >= 0);
+
+-- The driver's share of the fare: the seat price less the booking fee, per seat.
+-- calculateDriverPayout in src/lib/utils.ts mirrors it for display only.
+CREATE OR REPLACE FUNCTION public.calculate_driver_fare(p_price INTEGER, p_seats INTEGER)
+RETURNS INTEGER AS $$
+  SELECT p_price * p_seats - public.calculate_booking_fee(p_price, p_seats);
+$$ LANGUAGE sql IMMUTABLE;
+
+GRANT EXECUTE ON FUNCTION public.calculate_driver_fare(INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================
+-- PAYMENTS: THE FARE PART
+-- =====================
+-- fare_amount is the part of a payment that is ride fare rather than booking
+-- fee: the driver's fare on a full-fare booking payment, and the fare returned
+-- on a refund. The ledger posts the two parts to different accounts.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS fare_amount INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_fare_within_amount;
+ALTER TABLE public.payments ADD CONSTRAINT payments_fare_within_amount
+  CHECK (fare_amount >= 0 AND fare_amount <= amount);
+
+-- =====================
+-- CREATE BOOKING WITH THE FARE
+-- =====================
+-- Same as seat-holds-migration.sql, plus the driver's fare on full-fare rides.
+-- Returns { success: true, booking_id, booking_fee, driver_fare, hold_expires_at }
+
+CREATE OR REPLACE FUNCTION public.create_booking(p_ride_id UUID, p_seats INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_passenger_id UUID := auth.uid();
+  v_ride public.rides%ROWTYPE;
+  v_bookable INTEGER;
+  v_booking_fee INTEGER;
+  v_driver_fare INTEGER := 0;
+  v_booking_id UUID;
+  v_hold_expires_at TIMESTAMPTZ := NOW() + INTERVAL '15 minutes';
+BEGIN
+  IF v_passenger_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_authenticated',
+      'message', 'Please sign in to book a seat.');
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 OR p_seats > 4 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_seats',
+      'message', 'You can book between 1 and 4 seats.');
+  END IF;
+
+  -- Lock the ride so concurrent bookings see each other's holds
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.status != 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_active',
+      'message', 'This ride is no longer available.');
+  END IF;
+
+  IF v_ride.departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_departed',
+      'message', 'This ride has already departed.');
+  END IF;
+
+  IF v_ride.driver_id = v_passenger_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'self_booking',
+      'message', 'You cannot book a seat on your own ride.');
+  END IF;
+
+  -- A hold of theirs that expired unpaid no longer blocks booking again
+  PERFORM public.cancel_expired_holds(p_ride_id, v_passenger_id);
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE ride_id = p_ride_id
+      AND passenger_id = v_passenger_id
+      AND status IN ('pending_payment', 'confirmed')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'duplicate_booking',
+      'message', 'You already have a booking on this ride.');
+  END IF;
+
+  v_bookable := v_ride.available_seats - public.held_seats(p_ride_id);
+
+  IF p_seats > v_bookable THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'seats_unavailable',
+      'message', format('Only %s seat(s) available.', GREATEST(v_bookable, 0)));
+  END IF;
+
+  v_booking_fee := public.calculate_booking_fee(v_ride.price, p_seats);
+
+  IF v_ride.full_fare_in_app THEN
+    v_driver_fare := public.calculate_driver_fare(v_ride.price, p_seats);
+  END IF;
+
+  INSERT INTO public.bookings (ride_id, passenger_id, seats_booked, booking_fee, driver_fare, status, hold_expires_at)
+  VALUES (p_ride_id, v_passenger_id, p_seats, v_booking_fee, v_driver_fare, 'pending_payment', v_hold_expires_at)
+  RETURNING id INTO v_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking_id,
+    'booking_fee', v_booking_fee,
+    'driver_fare', v_driver_fare,
+    'hold_expires_at', v_hold_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- CANCELLATION: THE FARE GOES BACK
+-- =====================
+-- The policy splits the booking fee as before. A fare paid in the app is for a
+-- ride that no longer happens, so it is always returned to the passenger in
+-- full: passenger_amount includes it and fare_amount says how much of it is fare.
+-- Replaces the four-argument version so named-argument calls stay unambiguous.
+
+DROP FUNCTION IF EXISTS public.evaluate_cancellation(UUID, TEXT, INTEGER, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION public.evaluate_cancellation(
+  p_ride_id UUID,
+  p_cancelled_by TEXT,
+  p_amount INTEGER,
+  p_at TIMESTAMPTZ DEFAULT NOW(),
+  p_fare INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_departure_time TIMESTAMPTZ;
+  v_policy public.cancellation_policies%ROWTYPE;
+  v_tier public.cancellation_policy_tiers%ROWTYPE;
+  v_hours NUMERIC;
+  v_passenger_amount INTEGER;
+  v_driver_amount INTEGER;
+BEGIN
+  IF p_cancelled_by IS NULL OR p_cancelled_by NOT IN ('passenger', 'driver') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_canceller',
+      'message', 'Cancellations are made by the passenger or the driver.');
+  END IF;
+
+  SELECT departure_time INTO v_departure_time FROM public.rides WHERE id = p_ride_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  SELECT * INTO v_policy FROM public.cancellation_policies
+  WHERE id = public.resolve_cancellation_policy(p_ride_id);
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_policy',
+      'message', 'No cancellation policy is configured. Please contact support.');
+  END IF;
+
+  v_hours := EXTRACT(EPOCH FROM (v_departure_time - p_at)) / 3600;
+
+  SELECT * INTO v_tier FROM public.cancellation_policy_tiers
+  WHERE policy_id = v_policy.id
+    AND cancelled_by = p_cancelled_by
+    AND (min_hours_before IS NULL OR v_hours > min_hours_before)
+  ORDER BY min_hours_before DESC NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_matching_tier',
+      'message', 'The cancellation policy does not cover this cancellation. Please contact support.');
+  END IF;
+
+  v_passenger_amount := FLOOR(p_amount * v_tier.passenger_percent / 100.0);
+  v_driver_amount := FLOOR(p_amount * v_tier.driver_percent / 100.0);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'policy_id', v_policy.id,
+    'policy_name', v_policy.name,
+    'tier_id', v_tier.id,
+    'tier_label', v_tier.label,
+    'hours_before_departure', ROUND(v_hours, 2),
+    'passenger_percent', v_tier.passenger_percent,
+    'driver_percent', v_tier.driver_percent,
+    'platform_percent', v_tier.platform_percent,
+    'passenger_amount', v_passenger_amount + COALESCE(p_fare, 0),
+    'fare_amount', COALESCE(p_fare, 0),
+    'driver_amount', v_driver_amount,
+    'platform_amount', p_amount - v_passenger_amount - v_driver_amount
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.evaluate_cancellation(UUID, TEXT, INTEGER, TIMESTAMPTZ, INTEGER) TO anon, authenticated;
+
+-- =====================
+-- LEDGER: FARES HELD UNTIL THE RIDE
+-- =====================
+-- fares_held: fares paid in the app for rides that haven't been completed yet
+-- New entry types:
+-- - fare_collected: the fare part of a booking payment (provider_cash <- fares_held)
+-- - fare_settled: the ride was completed (fares_held -> driver)
+-- - fare_refund: a cancellation returned the fare (fares_held -> passenger)
+-- - fare_refund_reversed: a queued fare refund was discarded before it was sent
+
+ALTER TABLE public.ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_account_type_check;
+ALTER TABLE public.ledger_accounts ADD CONSTRAINT ledger_accounts_account_type_check
+  CHECK (account_type IN ('provider_cash', 'platform_revenue', 'fares_held', 'driver', 'passenger'));
+
+ALTER TABLE public.ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE public.ledger_entries ADD CONSTRAINT ledger_entries_entry_type_check
+  CHECK (entry_type IN (
+    'booking_fee', 'refund', 'forfeiture', 'refund_paid', 'payout', 'refund_reversed', 'forfeiture_reversed',
+    'fare_collected', 'fare_settled', 'fare_refund', 'fare_refund_reversed'
+  ));
+
+-- Same as driver-wallet-migration.sql, except a payment's fare_amount is posted
+-- against fares_held and only the rest against platform revenue
+CREATE OR REPLACE FUNCTION public.post_payment_to_ledger(
+  p_payment public.payments,
+  p_event TEXT, -- 'completed', 'queued' or 'discarded'
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+DECLARE
+  v_cash UUID := public.ledger_account('provider_cash');
+  v_revenue UUID := public.ledger_account('platform_revenue');
+  v_fares UUID := public.ledger_account('fares_held');
+  v_recipient UUID;
+  v_to_driver BOOLEAN := p_payment.payment_type IN ('refund_to_driver', 'driver_payout');
+  v_fee INTEGER := p_payment.amount - p_payment.fare_amount;
+  v_fare INTEGER := p_payment.fare_amount;
+BEGIN
+  IF p_payment.payment_type = 'booking_fee' THEN
+    IF p_event = 'completed' THEN
+      IF v_fee > 0 THEN
+        PERFORM public.post_ledger_entry('booking_fee', v_cash, v_revenue, v_fee,
+          'Booking fee ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+      END IF;
+      IF v_fare > 0 THEN
+        PERFORM public.post_ledger_entry('fare_collected', v_cash, v_fares, v_fare,
+          'Fare held until the ride ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+      END IF;
+    END IF;
+    RETURN;
+  END IF;
+
+  v_recipient := public.ledger_account(CASE WHEN v_to_driver THEN 'driver' ELSE 'passenger' END, p_payment.user_id);
+
+  IF p_event = 'queued' AND p_payment.payment_type != 'driver_payout' THEN
+    IF v_fee > 0 THEN
+      PERFORM public.post_ledger_entry(
+        CASE WHEN v_to_driver THEN 'forfeiture' ELSE 'refund' END,
+        v_revenue, v_recipient, v_fee,
+        CASE WHEN v_to_driver THEN 'Cancellation fee owed to driver' ELSE 'Refund owed to passenger' END,
+        p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+    IF v_fare > 0 THEN
+      PERFORM public.post_ledger_entry('fare_refund', v_fares, v_recipient, v_fare,
+        'Fare owed back to passenger', p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+  ELSIF p_event = 'completed' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'payout' ELSE 'refund_paid' END,
+      v_recipient, v_cash, p_payment.amount,
+      'Sent ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+  ELSIF p_event = 'discarded' AND p_payment.payment_type != 'driver_payout' THEN
+    IF v_fee > 0 THEN
+      PERFORM public.post_ledger_entry(
+        CASE WHEN v_to_driver THEN 'forfeiture_reversed' ELSE 'refund_reversed' END,
+        v_recipient, v_revenue, v_fee,
+        'Queued refund discarded before it was sent', p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+    IF v_fare > 0 THEN
+      PERFORM public.post_ledger_entry('fare_refund_reversed', v_recipient, v_fares, v_fare,
+        'Queued fare refund discarded before it was sent', p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Both parts of a full-fare payment are money into provider_cash
+CREATE OR REPLACE VIEW public.ledger_cash_movements AS
+SELECT
+  p.id as payment_id,
+  p.payment_type,
+  p.status,
+  p.amount,
+  p.pandora_reference,
+  p.pandora_transaction_id,
+  p.created_at,
+  p.updated_at,
+  COALESCE(SUM(l.amount), 0)::INTEGER as ledger_amount
+FROM public.payments p
+LEFT JOIN public.ledger_entries e
+  ON e.payment_id = p.id AND e.entry_type IN ('booking_fee', 'fare_collected', 'refund_paid', 'payout')
+LEFT JOIN (
+  public.ledger_lines l
+  JOIN public.ledger_accounts a ON a.id = l.account_id AND a.account_type = 'provider_cash'
+) ON l.entry_id = e.id
+GROUP BY p.id;
+
+REVOKE ALL ON public.ledger_cash_movements FROM anon, authenticated;
+
+-- =====================
+-- SETTLE THE FARE WHEN THE RIDE IS COMPLETED
+-- =====================
+-- Whatever completes the booking, the driver's fare moves from fares_held to
+-- their wallet. Keyed on the booking payment, so a fare is settled once.
+
+CREATE OR REPLACE FUNCTION public.settle_driver_fare()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_driver_id UUID;
+BEGIN
+  IF NEW.status != 'completed' OR OLD.status = 'completed' OR NEW.driver_fare = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments
+  WHERE booking_id = NEW.id
+    AND payment_type = 'booking_fee'
+    AND status = 'completed'
+    AND fare_amount > 0
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT driver_id INTO v_driver_id FROM public.rides WHERE id = NEW.ride_id;
+
+  PERFORM public.post_ledger_entry(
+    'fare_settled',
+    public.ledger_account('fares_held'),
+    public.ledger_account('driver', v_driver_id),
+    v_payment.fare_amount,
+    'Ride fare',
+    v_payment.id,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS bookings_settle_driver_fare ON public.bookings;
+CREATE TRIGGER bookings_settle_driver_fare
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.settle_driver_fare();
+
+-- =====================
+-- CANCEL RIDE: FARES BACK TO PASSENGERS
+-- =====================
+-- Same as driver-wallet-migration.sql, except the quote covers the fare paid
+-- in the app and the refund records how much of it is fare
+
+CREATE OR REPLACE FUNCTION public.cancel_ride(p_ride_id UUID, p_driver_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_ride public.rides%ROWTYPE;
+  v_booking RECORD;
+  v_payment public.payments%ROWTYPE;
+  v_quote JSONB;
+  v_refunds JSONB;
+  v_results JSONB := '[]'::jsonb;
+  v_refund_id UUID;
+  v_reference TEXT;
+BEGIN
+  -- Lock the ride so no booking is created or confirmed while we cancel
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.driver_id != p_driver_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_driver',
+      'message', 'Only the driver can cancel this ride.');
+  END IF;
+
+  IF v_ride.status IN ('cancelled', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_cancellable',
+      'message', format('This ride is already %s.', v_ride.status));
+  END IF;
+
+  PERFORM set_config('blueox.via_cancel_ride', 'on', true);
+  UPDATE public.rides SET status = 'cancelled' WHERE id = p_ride_id;
+
+  FOR v_booking IN
+    SELECT b.id, b.passenger_id, b.status, u.full_name AS passenger_name
+    FROM public.bookings b
+    JOIN public.users u ON u.id = b.passenger_id
+    WHERE b.ride_id = p_ride_id
+      AND b.status IN ('pending_payment', 'confirmed')
+    ORDER BY b.created_at
+  LOOP
+    v_refunds := '[]'::jsonb;
+
+    IF v_booking.status = 'confirmed' THEN
+      SELECT * INTO v_payment FROM public.payments
+      WHERE booking_id = v_booking.id
+        AND payment_type = 'booking_fee'
+        AND status = 'completed'
+      ORDER BY created_at DESC
+      LIMIT 1;
+
+      IF FOUND THEN
+        v_quote := public.evaluate_cancellation(p_ride_id, 'driver',
+          v_payment.amount - v_payment.fare_amount, NOW(), v_payment.fare_amount);
+
+        IF NOT (v_quote->>'success')::BOOLEAN THEN
+          RAISE EXCEPTION '%', v_quote->>'message';
+        END IF;
+
+        IF (v_quote->>'passenger_amount')::INTEGER > 0 THEN
+          v_reference := format('BLUEOX-REFUND-%s-%s-P',
+            (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(v_booking.id::TEXT, 8));
+
+          INSERT INTO public.payments (booking_id, user_id, amount, fare_amount, payment_type, status, pandora_reference, phone_number)
+          VALUES (v_booking.id, v_booking.passenger_id, (v_quote->>'passenger_amount')::INTEGER,
+            (v_quote->>'fare_amount')::INTEGER, 'refund_to_passenger', 'pending', v_reference, v_payment.phone_number)
+          RETURNING id INTO v_refund_id;
+
+          v_refunds := v_refunds || jsonb_build_object('payment_id', v_refund_id, 'to', 'passenger',
+            'amount', (v_quote->>'passenger_amount')::INTEGER);
+        END IF;
+
+        IF (v_quote->>'driver_amount')::INTEGER > 0 THEN
+          PERFORM public.credit_driver_forfeiture(v_payment.id, v_ride.driver_id,
+            (v_quote->>'driver_amount')::INTEGER);
+        END IF;
+
+        UPDATE public.payments SET status = 'refunded' WHERE id = v_payment.id;
+      END IF;
+    END IF;
+
+    PERFORM public.transition_booking(v_booking.id, 'cancelled_by_driver', 'ride_cancelled', p_driver_id);
+
+    v_results := v_results || jsonb_build_object(
+      'booking_id', v_booking.id,
+      'passenger_id', v_booking.passenger_id,
+      'passenger_name', v_booking.passenger_name,
+      'previous_status', v_booking.status,
+      'refunds', v_refunds
+    );
+  END LOOP;
+
+  PERFORM set_config('blueox.via_cancel_ride', '', true);
+
+  RETURN jsonb_build_object('success', true, 'ride_id', p_ride_id, 'bookings', v_results);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- PAID TOO LATE: REFUND IN FULL
+-- =====================
+-- Same as refund-callbacks-migration.sql, except money for a booking that
+-- can't be confirmed is given back: a refund of the whole payment, fare
+-- included, is queued for retry-refunds and admins are alerted. A booking whose
+-- seats were re-sold after its hold expired is cancelled first, since refunds
+-- are only sent for cancelled bookings.
+
+CREATE OR REPLACE FUNCTION public.complete_booking_fee(p_payment_id UUID, p_transaction_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_reason TEXT;
+  v_reference TEXT;
+  v_refund_id UUID;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments
+  WHERE id = p_payment_id AND payment_type = 'booking_fee'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment_not_found';
+  END IF;
+
+  IF v_payment.status IN ('completed', 'refunded') THEN
+    RETURN jsonb_build_object('action', 'already_processed');
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'completed',
+      pandora_transaction_id = COALESCE(p_transaction_id, pandora_transaction_id)
+  WHERE id = p_payment_id;
+
+  -- The state machine only lets a booking still waiting for payment be confirmed,
+  -- and the seat check trigger refuses to confirm into seats re-sold after the hold expired
+  BEGIN
+    PERFORM public.transition_booking(v_payment.booking_id, 'confirmed', 'booking_fee_paid');
+    RETURN jsonb_build_object('action', 'booking_confirmed');
+  EXCEPTION WHEN OTHERS THEN
+    IF SQLERRM LIKE '%seats_unavailable%' THEN
+      v_reason := 'seats_unavailable';
+    ELSIF SQLERRM LIKE '%illegal_transition%' THEN
+      v_reason := 'not_pending';
+    ELSE
+      RAISE;
+    END IF;
+  END;
+
+  IF v_reason = 'seats_unavailable' THEN
+    PERFORM public.transition_booking(v_payment.booking_id, 'cancelled_by_passenger', 'hold_expired');
+  END IF;
+
+  v_reference := format('BLUEOX-REFUND-%s-%s-P',
+    (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT, LEFT(v_payment.booking_id::TEXT, 8));
+
+  INSERT INTO public.payments (booking_id, user_id, amount, fare_amount, payment_type, status, pandora_reference, phone_number)
+  VALUES (v_payment.booking_id, v_payment.user_id, v_payment.amount, v_payment.fare_amount,
+    'refund_to_passenger', 'pending', v_reference, v_payment.phone_number)
+  RETURNING id INTO v_refund_id;
+
+  UPDATE public.payments
+  SET status = 'refunded',
+      error_message = CASE v_reason
+        WHEN 'seats_unavailable' THEN 'Paid after the seat hold expired and the seats were taken - refunded'
+        ELSE 'Paid after the booking stopped waiting for payment - refunded'
+      END
+  WHERE id = p_payment_id;
+
+  INSERT INTO public.admin_alerts (kind, payment_id, message)
+  VALUES ('paid_for_inactive_booking', p_payment_id,
+    format('Booking fee %s for booking %s was paid after %s; refund %s of the full amount is queued',
+      v_payment.pandora_reference, v_payment.booking_id,
+      CASE v_reason WHEN 'seats_unavailable' THEN 'the seats were re-sold' ELSE 'the booking was cancelled' END,
+      v_reference));
+
+  RETURN jsonb_build_object('action', 'paid_for_inactive_booking', 'reason', v_reason, 'refund_id', v_refund_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,264 @@
+// Blue Ox - Printable Documents
+// Receipts and statements are built as a PrintableDocument and rendered here as
+// HTML or PDF. Rendering is pure (no network, database or dependencies), so the
+// same document always renders the same way and can be checked offline.
+
+export interface DocumentSection {
+  heading: string
+  // Each row is a list of cells; the last cell is right-aligned (amounts)
+  rows: string[][]
+  // Shown in bold under the rows, e.g. ['Total paid', 'UGX 12,000']
+  total?: string[]
+}
+
+export interface PrintableDocument {
+  title: string
+  // Reference, date and parties, shown under the title
+  details: [string, string][]
+  sections: DocumentSection[]
+  notes: string[]
+}
+
+export type DocumentFormat = 'html' | 'pdf'
+
+// Receipts and statements are in East Africa Time, the time in every market
+const TIME_ZONE = 'Africa/Kampala'
+
+// In the currency the money moved in, e.g. 'UGX 12,000' or '-KES 350'
+export function formatAmount(amount: number, currency = 'UGX'): string {
+  const sign = amount < 0 ? '-' : ''
+  return `${sign}${currency} ${Math.abs(amount).toLocaleString('en-US')}`
+}
+
+export function formatDocumentDate(date: string | Date, withTime = true): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: TIME_ZONE,
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    ...(withTime ? { hour: '2-digit', minute: '2-digit' } : {}),
+  }).format(new Date(date))
+}
+
+// =====================
+// HTML
+// =====================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function htmlRow(cells: string[], tag: 'td' | 'th' = 'td'): string {
+  return '<tr>' + cells
+    .map((cell, i) => `<${tag}${i === cells.length - 1 ? ' class="amount"' : ''}>${escapeHtml(cell)}</${tag}>`)
+    .join('') + '</tr>'
+}
+
+export function renderHtml(doc: PrintableDocument): string {
+  const details = doc.details
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('')
+
+  const sections = doc.sections.map((section) => `
+    <h2>${escapeHtml(section.heading)}</h2>
+    <table class="rows">
+      ${section.rows.map((row) => htmlRow(row)).join('')}
+      ${section.total ? htmlRow(section.total, 'th') : ''}
+    </table>`).join('')
+
+  const notes = doc.notes.map((note) => `<p class="note">${escapeHtml(note)}</p>`).join('')
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(doc.title)} - Blue Ox</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #0f172a; max-width: 640px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin: 0; }
+  .brand { color: #1e3a5f; font-weight: 700; letter-spacing: 0.05em; }
+  h2 { font-size: 1rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.25rem; margin-top: 1.5rem; }
+  table { width: 100%; border-collapse: collapse; font-size: 0.9rem; }
+  .details th { text-align: left; font-weight: 500; color: #64748b; width: 35%; padding: 0.15rem 0; }
+  .rows td, .rows th { padding: 0.3rem 0.5rem 0.3rem 0; text-align: left; vertical-align: top; }
+  .rows tr + tr td { border-top: 1px solid #f1f5f9; }
+  .rows th { border-top: 1px solid #0f172a; }
+  .amount { text-align: right !important; white-space: nowrap; }
+  .note { font-size: 0.8rem; color: #64748b; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <p class="brand">BLUE OX</p>
+  <h1>${escapeHtml(doc.title)}</h1>
+  <table class="details">${details}</table>
+  ${sections}
+  ${notes}
+</body>
+</html>
+`
+}
+
+// =====================
+// PDF
+// =====================
+// A minimal PDF 1.4 writer: A4 pages of Courier text. A fixed-width font means
+// amounts can be right-aligned without font metrics.
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+const FONT_SIZE = 9
+const CHAR_WIDTH = FONT_SIZE * 0.6 // Courier advance width
+const LINE_HEIGHT = 13
+const LINE_CHARS = Math.floor((PAGE_WIDTH - 2 * MARGIN) / CHAR_WIDTH)
+
+interface PdfLine {
+  text: string
+  bold?: boolean
+  size?: number
+  gap?: number // Extra space above the line
+}
+
+// The standard PDF fonts only cover Latin-1; anything else is replaced
+function toPdfText(text: string): string {
+  return text
+    .replace(/[–—]/g, '-')
+    .replace(/→/g, '->')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/·/g, '-')
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')
+}
+
+function wrap(text: string, width: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(' ')) {
+    if (line && line.length + 1 + word.length > width) {
+      lines.push(line)
+      line = word
+    } else {
+      line = line ? `${line} ${word}` : word
+    }
+  }
+  lines.push(line)
+  return lines.flatMap((l) => l.match(new RegExp(`.{1,${width}}`, 'g')) || [''])
+}
+
+// Cells padded into one line. The last cell is right-aligned; with three
+// cells the first is a fixed-width column (dates). The text cell wraps, and a
+// last cell that doesn't fit (a long value rather than an amount) goes on
+// indented lines of its own.
+function pdfRow(cells: string[]): string[] {
+  const last = cells[cells.length - 1]
+  const lead = cells.length > 2 ? `${cells[0].padEnd(11)}  ` : ''
+  const text = cells.slice(cells.length > 2 ? 1 : 0, -1).join('  ')
+  const indent = ' '.repeat(lead.length)
+  const [head, ...rest] = wrap(text, Math.max(LINE_CHARS - lead.length - last.length - 2, 20))
+  const left = lead + head
+  const continued = rest.map((part) => indent + part)
+
+  if (left.length + 2 + last.length <= LINE_CHARS) {
+    return [left + last.padStart(LINE_CHARS - left.length), ...continued]
+  }
+  return [left, ...continued, ...wrap(last, LINE_CHARS - 4).map((part) => `    ${part}`)]
+}
+
+function documentLines(doc: PrintableDocument): PdfLine[] {
+  const lines: PdfLine[] = [
+    { text: 'BLUE OX', bold: true },
+    { text: doc.title, bold: true, size: 14, gap: 4 },
+  ]
+
+  const labelWidth = Math.max(...doc.details.map(([label]) => label.length)) + 2
+  doc.details.forEach(([label, value], i) => {
+    wrap(value, LINE_CHARS - labelWidth).forEach((part, j) => {
+      lines.push({ text: (j === 0 ? label : '').padEnd(labelWidth) + part, gap: i === 0 && j === 0 ? 8 : 0 })
+    })
+  })
+
+  for (const section of doc.sections) {
+    lines.push({ text: section.heading, bold: true, gap: 12 })
+    lines.push({ text: '-'.repeat(LINE_CHARS) })
+    for (const row of section.rows) {
+      pdfRow(row).forEach((text) => lines.push({ text }))
+    }
+    if (section.total) {
+      lines.push({ text: '-'.repeat(LINE_CHARS) })
+      pdfRow(section.total).forEach((text) => lines.push({ text, bold: true }))
+    }
+  }
+
+  doc.notes.forEach((note, i) => {
+    wrap(note, LINE_CHARS).forEach((text, j) => lines.push({ text, gap: j === 0 ? (i === 0 ? 16 : 4) : 0 }))
+  })
+
+  return lines
+}
+
+// One content stream per page
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[] = []
+  let ops: string[] = []
+  let y = PAGE_HEIGHT - MARGIN
+
+  for (const line of lines) {
+    const size = line.size || FONT_SIZE
+    const height = (line.gap || 0) + Math.max(LINE_HEIGHT, size + 4)
+    if (y - height < MARGIN && ops.length > 0) {
+      pages.push(ops.join('\n'))
+      ops = []
+      y = PAGE_HEIGHT - MARGIN
+    }
+    y -= height
+    ops.push(`BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y} Td (${escapePdfString(toPdfText(line.text))}) Tj ET`)
+  }
+
+  pages.push(ops.join('\n'))
+  return pages
+}
+
+export function renderPdf(doc: PrintableDocument): Uint8Array {
+  const pages = paginate(documentLines(doc))
+
+  // Objects 1-4 are fixed; each page then takes a page object and its content
+  const pageIds = pages.map((_, i) => 5 + i * 2)
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+  ]
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    )
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`)
+  })
+
+  // Every character is Latin-1, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n'
+  const offsets: number[] = []
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length)
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  return Uint8Array.from(pdf, (char) => char.charCodeAt(0))
+}
@@ -0,0 +1,51 @@
+// Blue Ox - Booking Fee Quotes
+// Shared by the app (imported as @shared/fees) and the Edge Functions. Fees are
+// calculated only by the quote_booking_fee database function
+// (supabase/fee-schedule-migration.sql), which create_booking also charges
+// with, so a quote shown in the app is what the passenger pays. Nothing here
+// computes a fee itself. Quotes are per market and in its currency.
+
+import { DEFAULT_MARKET, type CurrencyCode, type MarketCode } from './markets.ts'
+
+// Result of the quote_booking_fee RPC
+export interface FeeQuote {
+  schedule_id: string
+  schedule_name: string
+  currency: CurrencyCode
+  fee_per_seat: number
+  driver_share_per_seat: number
+  booking_fee: number
+  driver_fare: number
+}
+
+export interface FeeQuoteParams {
+  price: number
+  seats?: number
+  distanceKm?: number | null
+  driverId?: string | null
+  market?: MarketCode
+}
+
+// The part of a Supabase client this module needs, so the browser and Deno
+// clients can both be passed in
+interface RpcClient {
+  rpc(
+    fn: 'quote_booking_fee',
+    args: Record<string, unknown>
+  ): PromiseLike<{ data: unknown; error: { message: string } | null }>
+}
+
+export async function quoteBookingFee(client: RpcClient, params: FeeQuoteParams): Promise<FeeQuote> {
+  const { data, error } = await client.rpc('quote_booking_fee', {
+    p_price: params.price,
+    p_seats: params.seats ?? 1,
+    p_distance_km: params.distanceKm ?? null,
+    p_driver_id: params.driverId ?? null,
+    p_market: params.market ?? DEFAULT_MARKET,
+  })
+
+  if (error) {
+    throw new Error(`Failed to quote booking fee: ${error.message}`)
+  }
+  return data as FeeQuote
+}
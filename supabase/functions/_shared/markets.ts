@@ -0,0 +1,96 @@
+// Blue Ox - Markets
+// The countries Blue Ox runs in. Shared by the app (imported as @shared/markets)
+// and the Edge Functions; the database has a copy of the codes, currencies and
+// dial codes in public.markets (supabase/markets-migration.sql), keep them in step.
+//
+// Every ride belongs to the market it departs from: its price is in that
+// market's currency and its passengers pay through that market's provider, so
+// Kampala–Nairobi is priced in UGX and Nairobi–Kampala in KES.
+
+export type MarketCode = 'UG' | 'KE' | 'TZ'
+
+export type CurrencyCode = 'UGX' | 'KES' | 'TZS'
+
+export interface Market {
+  code: MarketCode
+  name: string
+  currency: CurrencyCode
+  locale: string            // For formatting amounts and dates
+  timeZone: string
+  dialCode: string          // Without the +
+  phoneExample: string      // A local mobile number, shown in hints and errors
+  geocodingCountry: string  // ISO 3166-1 alpha-2, lower case (Nominatim and Google Places)
+  mapCenter: { lat: number; lng: number }
+  minimumPrice: number      // Lowest price per seat a driver can set
+  priceStep: number
+  // Collects and pays out unless PAYMENT_PROVIDER_<code> or PAYMENT_PROVIDER is
+  // set; null until a provider is live there (see payment-providers/index.ts)
+  paymentProvider: string | null
+  // Drivers' wallets can be paid out (markets-migration.sql: UGX only for
+  // now), so the full fare can be paid in the app
+  driverPayouts: boolean
+}
+
+export const DEFAULT_MARKET: MarketCode = 'UG'
+
+export const MARKETS: Record<MarketCode, Market> = {
+  UG: {
+    code: 'UG',
+    name: 'Uganda',
+    currency: 'UGX',
+    locale: 'en-UG',
+    timeZone: 'Africa/Kampala',
+    dialCode: '256',
+    phoneExample: '0772 123456',
+    geocodingCountry: 'ug',
+    mapCenter: { lat: 0.3476, lng: 32.5825 },
+    minimumPrice: 1000,
+    priceStep: 500,
+    paymentProvider: 'pandora',
+    driverPayouts: true,
+  },
+  KE: {
+    code: 'KE',
+    name: 'Kenya',
+    currency: 'KES',
+    locale: 'en-KE',
+    timeZone: 'Africa/Nairobi',
+    dialCode: '254',
+    phoneExample: '0712 345678',
+    geocodingCountry: 'ke',
+    mapCenter: { lat: -1.2921, lng: 36.8219 },
+    minimumPrice: 50,
+    priceStep: 10,
+    paymentProvider: null,
+    driverPayouts: false,
+  },
+  TZ: {
+    code: 'TZ',
+    name: 'Tanzania',
+    currency: 'TZS',
+    locale: 'en-TZ',
+    timeZone: 'Africa/Dar_es_Salaam',
+    dialCode: '255',
+    phoneExample: '0754 123456',
+    geocodingCountry: 'tz',
+    mapCenter: { lat: -6.7924, lng: 39.2083 },
+    minimumPrice: 1000,
+    priceStep: 500,
+    paymentProvider: null,
+    driverPayouts: false,
+  },
+}
+
+export const MARKET_CODES = Object.keys(MARKETS) as MarketCode[]
+
+// The market, falling back to the default for a missing or unknown code
+// (rows written before rides were tagged)
+export function getMarket(code: string | null | undefined): Market {
+  return MARKETS[code as MarketCode] ?? MARKETS[DEFAULT_MARKET]
+}
+
+// Each market has its own currency, so a payment's currency names its market
+export function marketForCurrency(currency: string | null | undefined): Market {
+  return MARKET_CODES.map((code) => MARKETS[code]).find((market) => market.currency === currency)
+    ?? MARKETS[DEFAULT_MARKET]
+}
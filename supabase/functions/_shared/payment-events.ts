@@ -0,0 +1,151 @@
+// Blue Ox - Payment Event Log
+// Records every provider call and every inbound webhook in the append-only
+// payment_events table (supabase/payment-events-migration.sql), so a disputed
+// charge can be traced to exactly what was sent and received. Functions wrap
+// their provider once:
+//   const provider = withPaymentEvents(getPaymentProvider(), supabaseAdmin)
+// Events are linked to the payment by its reference. A failure to write the log
+// is reported but never fails the payment itself.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { PaymentProvider, ProviderTransaction, WebhookParseResult } from './payment-providers/index.ts'
+
+type PaymentEventType = 'provider_request' | 'provider_response' | 'provider_error' | 'webhook_received'
+type PaymentOperation = 'collect' | 'disburse' | 'query_status' | 'webhook'
+
+interface PaymentEvent {
+  event_type: PaymentEventType
+  operation: PaymentOperation
+  reference: string | null
+  http_method?: string
+  url?: string
+  http_status?: number
+  request_headers?: Record<string, string>
+  request_body?: unknown
+  response_headers?: Record<string, string>
+  response_body?: unknown
+  outcome?: string | null
+  duration_ms?: number
+}
+
+// Header values that are credentials or could be replayed
+const SECRET_HEADER = /authorization|api[-_]?key|token|secret|cookie|signature/i
+
+export function redactHeaders(headers: Headers | Record<string, string>): Record<string, string> {
+  const entries = headers instanceof Headers ? [...headers.entries()] : Object.entries(headers)
+  return Object.fromEntries(
+    entries.map(([name, value]) => [name, SECRET_HEADER.test(name) ? '[REDACTED]' : value])
+  )
+}
+
+// Stored as JSON when it is JSON, otherwise as the text itself
+function parseBody(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+export async function recordPaymentEvent(
+  supabaseAdmin: SupabaseClient,
+  provider: string,
+  event: PaymentEvent
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('payment_events')
+    .insert({ ...event, provider })
+
+  if (error) {
+    console.error('Failed to record payment event:', { event_type: event.event_type, reference: event.reference, error })
+  }
+}
+
+// The provider, with each call and webhook recorded before it is returned
+export function withPaymentEvents(provider: PaymentProvider, supabaseAdmin: SupabaseClient): PaymentProvider {
+  const record = (event: PaymentEvent) => recordPaymentEvent(supabaseAdmin, provider.name, event)
+
+  const call = async (
+    operation: PaymentOperation,
+    reference: string,
+    request: unknown,
+    send: () => Promise<ProviderTransaction>
+  ): Promise<ProviderTransaction> => {
+    // Recorded first, so a call that never returns still leaves a trace
+    await record({ event_type: 'provider_request', operation, reference, request_body: request })
+
+    const startedAt = Date.now()
+    let transaction: ProviderTransaction
+    try {
+      transaction = await send()
+    } catch (error) {
+      await record({
+        event_type: 'provider_error',
+        operation,
+        reference,
+        outcome: error instanceof Error ? error.message : String(error),
+        duration_ms: Date.now() - startedAt,
+      })
+      throw error
+    }
+
+    const http = transaction.http
+    await record({
+      event_type: 'provider_response',
+      operation,
+      reference,
+      http_method: http?.method,
+      url: http?.url,
+      http_status: http?.status,
+      request_headers: http ? redactHeaders(http.requestHeaders) : undefined,
+      request_body: http ? http.requestBody : request,
+      response_headers: http ? redactHeaders(http.responseHeaders) : undefined,
+      response_body: http ? http.responseBody : transaction.raw,
+      outcome: transaction.message ? `${transaction.status}: ${transaction.message}` : transaction.status,
+      duration_ms: Date.now() - startedAt,
+    })
+    return transaction
+  }
+
+  return {
+    name: provider.name,
+    currencies: provider.currencies,
+
+    collect: (request) => call('collect', request.reference, request, () => provider.collect(request)),
+
+    disburse: (request) => call('disburse', request.reference, request, () => provider.disburse(request)),
+
+    queryStatus: (reference, transactionId) => call(
+      'query_status',
+      reference,
+      { reference, transaction_id: transactionId ?? null },
+      () => provider.queryStatus(reference, transactionId)
+    ),
+
+    // Every callback is kept, including the ones that are rejected
+    parseWebhook: async (rawBody, headers) => {
+      const received = {
+        event_type: 'webhook_received' as const,
+        operation: 'webhook' as const,
+        http_method: 'POST',
+        request_headers: redactHeaders(headers),
+        request_body: parseBody(rawBody),
+      }
+
+      let result: WebhookParseResult
+      try {
+        result = await provider.parseWebhook(rawBody, headers)
+      } catch (error) {
+        await record({ ...received, reference: null, outcome: error instanceof Error ? error.message : String(error) })
+        throw error
+      }
+
+      await record({
+        ...received,
+        reference: result.ok ? result.event.reference : result.reference,
+        outcome: result.ok ? `accepted: ${result.event.status}` : `rejected: ${result.reason}`,
+      })
+      return result
+    },
+  }
+}
@@ -0,0 +1,76 @@
+// Blue Ox - Payment Provider Registry
+// Picks each market's provider from the PAYMENT_PROVIDER_<market> environment
+// variable (e.g. PAYMENT_PROVIDER_KE), then PAYMENT_PROVIDER, then the market's
+// default in ../markets.ts ('pandora' for Uganda). 'mock' is for local
+// development and CI.
+
+import type { PaymentProvider } from './types.ts'
+import { DEFAULT_MARKET, MARKETS, type MarketCode } from '../markets.ts'
+import { PandoraProvider } from './pandora.ts'
+import { MockProvider } from './mock.ts'
+import { DEFAULT_TIMESTAMP_TOLERANCE } from './signature.ts'
+
+export type * from './types.ts'
+
+// The provider that collects and pays out in the market's currency
+export function getPaymentProvider(market: MarketCode = DEFAULT_MARKET): PaymentProvider {
+  const { name: marketName, currency, paymentProvider } = MARKETS[market]
+  const name = Deno.env.get(`PAYMENT_PROVIDER_${market}`) || Deno.env.get('PAYMENT_PROVIDER') || paymentProvider
+  if (!name) {
+    throw new Error(`Mobile money payments are not available in ${marketName} yet`)
+  }
+
+  const provider = createProvider(name)
+  if (!provider.currencies.includes(currency)) {
+    throw new Error(`Mobile money payments are not available in ${marketName} yet (${name} does not support ${currency})`)
+  }
+  return provider
+}
+
+// Where the provider calls back about a payment. The market is in the URL so
+// pandora-webhook verifies the callback with the provider that sent it.
+export function paymentCallbackUrl(supabaseUrl: string, market: MarketCode): string {
+  return `${supabaseUrl}/functions/v1/pandora-webhook?market=${market}`
+}
+
+// For functions that handle payments from several markets: each market's
+// provider, created on first use and passed through wrap (withPaymentEvents)
+export function paymentProvidersByMarket(
+  wrap: (provider: PaymentProvider) => PaymentProvider
+): (market: MarketCode) => PaymentProvider {
+  const providers = new Map<MarketCode, PaymentProvider>()
+  return (market) => {
+    let provider = providers.get(market)
+    if (!provider) {
+      provider = wrap(getPaymentProvider(market))
+      providers.set(market, provider)
+    }
+    return provider
+  }
+}
+
+function createProvider(name: string): PaymentProvider {
+  const toleranceSeconds = Number(Deno.env.get('PANDORA_WEBHOOK_TOLERANCE_SECONDS')) || DEFAULT_TIMESTAMP_TOLERANCE
+
+  switch (name) {
+    case 'pandora': {
+      const apiKey = Deno.env.get('PANDORA_API_KEY')
+      if (!apiKey) {
+        throw new Error('PANDORA_API_KEY environment variable not configured')
+      }
+      return new PandoraProvider(apiKey, Deno.env.get('PANDORA_WEBHOOK_SECRET'), toleranceSeconds)
+    }
+
+    case 'mock': {
+      const webhookSecret = Deno.env.get('MOCK_PAYMENT_WEBHOOK_SECRET')
+      if (!webhookSecret) {
+        throw new Error('MOCK_PAYMENT_WEBHOOK_SECRET environment variable not configured')
+      }
+      const delayMs = Number(Deno.env.get('MOCK_PAYMENT_CALLBACK_DELAY_MS'))
+      return new MockProvider(webhookSecret, Number.isFinite(delayMs) && delayMs >= 0 ? delayMs : undefined, toleranceSeconds)
+    }
+
+    default:
+      throw new Error(`Unknown payment provider: ${name}`)
+  }
+}
@@ -0,0 +1,181 @@
+// Blue Ox - Local Mock Payment Provider
+// Simulates mobile money without a merchant account so the whole
+// booking → payment → webhook flow can run locally and in CI.
+//
+// The outcome is chosen by the last three digits of the phone number:
+//   …000  declined (insufficient funds)
+//   …222  cancelled by the payer
+//   …333  accepted but the callback never arrives (status query reports completed)
+//   …444  rejected immediately: number not registered for mobile money
+//   …999  rejected immediately by the provider
+//   other approved
+// Callbacks are signed like Pandora's and POSTed to the callback URL after
+// MOCK_PAYMENT_CALLBACK_DELAY_MS (default 5 seconds). Every market's currency
+// is accepted.
+//
+// Status queries answer by transaction ID or by reference. References are
+// remembered by the worker that sent the transaction; one the mock never saw
+// is reported as failed, like a request that never reached the provider.
+
+import type {
+  CurrencyCode,
+  PaymentProvider,
+  ProviderTransaction,
+  ProviderTransactionStatus,
+  TransferRequest,
+  WebhookParseResult,
+} from './types.ts'
+import { PandoraProvider } from './pandora.ts'
+import { DEFAULT_TIMESTAMP_TOLERANCE, SIGNATURE_HEADER, computeSignature } from './signature.ts'
+
+type MockOutcome = 'approve' | 'decline' | 'cancel' | 'silent' | 'unregistered' | 'reject'
+
+const DEFAULT_CALLBACK_DELAY_MS = 5000
+
+// Reference → transaction ID of every transaction started in this worker, so a
+// payment whose transaction ID was never stored can still be looked up
+const transactionsByReference = new Map<string, string>()
+
+const OUTCOME_STATUS: Record<MockOutcome, ProviderTransactionStatus> = {
+  approve: 'completed',
+  decline: 'failed',
+  cancel: 'cancelled',
+  silent: 'completed',
+  unregistered: 'failed',
+  reject: 'failed',
+}
+
+const OUTCOME_MESSAGE: Record<MockOutcome, string> = {
+  approve: 'Transaction completed successfully',
+  decline: 'Insufficient funds',
+  cancel: 'Transaction cancelled by user',
+  silent: 'Transaction completed successfully',
+  unregistered: 'Recipient number is not registered for mobile money',
+  reject: 'Mock provider rejected the request',
+}
+
+function outcomeForPhone(phoneNumber: string): MockOutcome {
+  if (phoneNumber.endsWith('000')) return 'decline'
+  if (phoneNumber.endsWith('222')) return 'cancel'
+  if (phoneNumber.endsWith('333')) return 'silent'
+  if (phoneNumber.endsWith('444')) return 'unregistered'
+  if (phoneNumber.endsWith('999')) return 'reject'
+  return 'approve'
+}
+
+// Supabase's edge runtime keeps the worker alive for promises handed to waitUntil
+function runInBackground(task: Promise<unknown>) {
+  const runtime = (globalThis as { EdgeRuntime?: { waitUntil(promise: Promise<unknown>): void } }).EdgeRuntime
+  if (runtime) {
+    runtime.waitUntil(task)
+  } else {
+    task.catch((error) => console.error('Mock provider background task failed:', error))
+  }
+}
+
+export class MockProvider implements PaymentProvider {
+  readonly name = 'mock'
+  readonly currencies: readonly CurrencyCode[] = ['UGX', 'KES', 'TZS']
+
+  private readonly webhookSecret: string
+  private readonly callbackDelayMs: number
+  // The mock speaks Pandora's callback format, so parse with the same rules
+  private readonly webhookFormat: PandoraProvider
+
+  constructor(webhookSecret: string, callbackDelayMs = DEFAULT_CALLBACK_DELAY_MS, toleranceSeconds = DEFAULT_TIMESTAMP_TOLERANCE) {
+    this.webhookSecret = webhookSecret
+    this.callbackDelayMs = callbackDelayMs
+    this.webhookFormat = new PandoraProvider('', webhookSecret, toleranceSeconds)
+  }
+
+  collect(request: TransferRequest): Promise<ProviderTransaction> {
+    return Promise.resolve(this.start(request))
+  }
+
+  disburse(request: TransferRequest): Promise<ProviderTransaction> {
+    return Promise.resolve(this.start(request))
+  }
+
+  // The outcome and start time are encoded in the transaction ID
+  queryStatus(reference: string, transactionId?: string | null): Promise<ProviderTransaction> {
+    transactionId = transactionId || transactionsByReference.get(reference)
+    const match = transactionId?.match(/^MOCK-(\w+)-(\d+)-/)
+    if (!match) {
+      return Promise.resolve({
+        ...this.result(false, 'failed', transactionId || null, 'Unknown mock transaction'),
+        unknownReference: true,
+      })
+    }
+
+    const outcome = match[1].toLowerCase() as MockOutcome
+    const startedAt = Number(match[2])
+    const settled = Date.now() - startedAt >= this.callbackDelayMs
+
+    return Promise.resolve(this.result(
+      true,
+      settled ? OUTCOME_STATUS[outcome] : 'processing',
+      transactionId!,
+      settled ? OUTCOME_MESSAGE[outcome] : null
+    ))
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookParseResult> {
+    return this.webhookFormat.parseWebhook(rawBody, headers)
+  }
+
+  private start(request: TransferRequest): ProviderTransaction {
+    const outcome = outcomeForPhone(request.phoneNumber)
+    console.log('Mock provider transaction:', { reference: request.reference, outcome })
+
+    if (outcome === 'reject' || outcome === 'unregistered') {
+      return this.result(false, 'failed', null, OUTCOME_MESSAGE[outcome])
+    }
+
+    const transactionId = `MOCK-${outcome.toUpperCase()}-${Date.now()}-${request.reference}`
+    transactionsByReference.set(request.reference, transactionId)
+
+    if (outcome !== 'silent') {
+      runInBackground(this.sendCallback(request, outcome))
+    }
+
+    return this.result(true, 'processing', transactionId, null)
+  }
+
+  private async sendCallback(request: TransferRequest, outcome: MockOutcome) {
+    await new Promise((resolve) => setTimeout(resolve, this.callbackDelayMs))
+
+    const body = JSON.stringify({
+      transaction_ref: request.reference,
+      status: OUTCOME_STATUS[outcome],
+      message: OUTCOME_MESSAGE[outcome],
+      amount: String(request.amount),
+      contact: request.phoneNumber,
+      network: 'MOCK',
+      timestamp: Math.floor(Date.now() / 1000),
+    })
+
+    const response = await fetch(request.callbackUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SIGNATURE_HEADER]: await computeSignature(this.webhookSecret, body),
+      },
+      body,
+    })
+
+    console.log('Mock provider callback delivered:', {
+      reference: request.reference,
+      outcome,
+      http_status: response.status,
+    })
+  }
+
+  private result(
+    success: boolean,
+    status: ProviderTransactionStatus,
+    transactionId: string | null,
+    message: string | null
+  ): ProviderTransaction {
+    return { success, status, transactionId, amount: null, network: 'MOCK', message, raw: { mock: true }, http: null }
+  }
+}
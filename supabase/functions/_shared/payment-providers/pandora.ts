@@ -0,0 +1,207 @@
+// Blue Ox - Pandora Payment Provider
+// Documentation: https://pandorapayments.com/documentation
+// Uganda only: collects and pays out in UGX.
+
+import type {
+  CurrencyCode,
+  PaymentProvider,
+  ProviderHttpExchange,
+  ProviderTransaction,
+  ProviderTransactionStatus,
+  TransferRequest,
+  WebhookParseResult,
+} from './types.ts'
+import { DEFAULT_TIMESTAMP_TOLERANCE, verifySignedBody } from './signature.ts'
+
+const PANDORA_BASE_URL = 'https://api.pandorapayments.com/v1'
+
+// Pandora response envelope: { success, messages, data: [...] }
+interface PandoraResponse {
+  success?: boolean
+  messages?: string[]
+  message?: string
+  transaction_id?: string
+  data?: Array<{
+    transaction_reference?: string
+    transaction_ref?: string
+    status?: string
+    amount?: string | number
+    network?: string
+    message?: string
+  }>
+}
+
+const KNOWN_STATUSES: ProviderTransactionStatus[] = ['pending', 'processing', 'completed', 'failed', 'cancelled', 'expired']
+
+function toStatus(value: unknown, fallback: ProviderTransactionStatus): ProviderTransactionStatus {
+  return KNOWN_STATUSES.includes(value as ProviderTransactionStatus)
+    ? value as ProviderTransactionStatus
+    : fallback
+}
+
+export class PandoraProvider implements PaymentProvider {
+  readonly name = 'pandora'
+  readonly currencies: readonly CurrencyCode[] = ['UGX']
+
+  private readonly apiKey: string
+  private readonly webhookSecret: string | undefined
+  private readonly toleranceSeconds: number
+  private readonly baseUrl: string
+
+  constructor(
+    apiKey: string,
+    webhookSecret: string | undefined,
+    toleranceSeconds = DEFAULT_TIMESTAMP_TOLERANCE,
+    baseUrl = PANDORA_BASE_URL
+  ) {
+    this.apiKey = apiKey
+    this.webhookSecret = webhookSecret
+    this.toleranceSeconds = toleranceSeconds
+    this.baseUrl = baseUrl
+  }
+
+  collect(request: TransferRequest): Promise<ProviderTransaction> {
+    return this.send('/transactions/mobile-money', request)
+  }
+
+  disburse(request: TransferRequest): Promise<ProviderTransaction> {
+    return this.send('/disbursements/mobile-money', request)
+  }
+
+  async queryStatus(reference: string): Promise<ProviderTransaction> {
+    const { result, http } = await this.request('GET', `/transactions/${encodeURIComponent(reference)}`)
+    if (!result) {
+      return this.unavailable(http)
+    }
+
+    const transaction = result.data?.[0]
+    return {
+      success: !!result.success,
+      status: toStatus(transaction?.status, 'processing'),
+      transactionId: transaction?.transaction_reference || transaction?.transaction_ref || null,
+      amount: transaction?.amount !== undefined ? Number(transaction.amount) : null,
+      network: transaction?.network || null,
+      message: transaction?.message || result.messages?.join(', ') || null,
+      raw: result,
+      http,
+      unknownReference: http.status === 404,
+    }
+  }
+
+  async parseWebhook(rawBody: string, headers: Headers): Promise<WebhookParseResult> {
+    // Fail closed: without a secret we cannot tell Pandora from anyone else
+    if (!this.webhookSecret) {
+      throw new Error('PANDORA_WEBHOOK_SECRET environment variable not configured')
+    }
+
+    const verified = await verifySignedBody(rawBody, headers, this.webhookSecret, this.toleranceSeconds)
+
+    // Support both transaction_ref (actual) and transaction_reference (legacy)
+    const body = verified.body
+    const reference = (body?.transaction_ref || body?.transaction_reference || null) as string | null
+
+    if (!verified.ok) {
+      return { ok: false, reason: verified.reason, reference }
+    }
+
+    if (!reference || !body?.status) {
+      return { ok: false, reason: 'invalid_payload', reference }
+    }
+
+    return {
+      ok: true,
+      event: {
+        reference,
+        status: toStatus(verified.body.status, 'processing'),
+        amount: body.amount !== undefined ? Number(body.amount) : null,
+        network: (body.network as string) || null,
+        message: (body.message || body.reason || null) as string | null,
+        timestamp: Number(body.timestamp) || null,
+        signature: verified.signature,
+        raw: verified.body,
+      },
+    }
+  }
+
+  private async send(path: string, request: TransferRequest): Promise<ProviderTransaction> {
+    const { result, http } = await this.request('POST', path, {
+      amount: request.amount,
+      transaction_ref: request.reference,
+      contact: request.phoneNumber,
+      narrative: request.narrative,
+      callback_url: request.callbackUrl,
+    })
+    if (!result) {
+      return this.unavailable(http)
+    }
+
+    console.log('Pandora API response:', result)
+
+    const success = !!result.success && http.status >= 200 && http.status < 300
+    return {
+      success,
+      status: success ? 'processing' : 'failed',
+      transactionId: result.data?.[0]?.transaction_reference || result.transaction_id || null,
+      amount: null,
+      network: result.data?.[0]?.network || null,
+      message: result.messages?.join(', ') || result.message || null,
+      raw: result,
+      http,
+    }
+  }
+
+  // One API call, returned with its HTTP exchange for the audit log. result is
+  // null when Pandora doesn't answer with JSON.
+  private async request(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: Record<string, unknown>
+  ): Promise<{ result: PandoraResponse | null; http: ProviderHttpExchange }> {
+    const url = `${this.baseUrl}${path}`
+    const requestHeaders: Record<string, string> = body
+      ? { 'Content-Type': 'application/json', 'X-API-Key': this.apiKey }
+      : { 'X-API-Key': this.apiKey }
+
+    const response = await fetch(url, {
+      method,
+      headers: requestHeaders,
+      body: body ? JSON.stringify(body) : undefined,
+    })
+
+    // Get response text first to handle non-JSON responses
+    const responseText = await response.text()
+    let result: PandoraResponse | null = null
+    try {
+      result = JSON.parse(responseText)
+    } catch {
+      console.error('Pandora API returned non-JSON response:', responseText.substring(0, 500))
+    }
+
+    return {
+      result,
+      http: {
+        method,
+        url,
+        requestHeaders,
+        requestBody: body ?? null,
+        status: response.status,
+        responseHeaders: Object.fromEntries(response.headers.entries()),
+        responseBody: result ?? responseText,
+      },
+    }
+  }
+
+  private unavailable(http: ProviderHttpExchange): ProviderTransaction {
+    return {
+      success: false,
+      status: 'failed',
+      transactionId: null,
+      amount: null,
+      network: null,
+      message: 'Payment service temporarily unavailable. Please try again.',
+      raw: null,
+      http,
+      unanswered: true,
+    }
+  }
+}
@@ -0,0 +1,82 @@
+// Blue Ox - Webhook Signature Helpers
+// Shared HMAC-SHA256 signing used to verify provider callbacks (and by the
+// mock provider to sign the callbacks it sends).
+
+export const SIGNATURE_HEADER = 'x-pandora-signature'
+
+// How far a webhook timestamp may drift from our clock (seconds)
+export const DEFAULT_TIMESTAMP_TOLERANCE = 300
+
+// Compute the hex HMAC-SHA256 of the raw body with a shared secret
+export async function computeSignature(secret: string, rawBody: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(rawBody))
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+// Constant-time comparison so the signature can't be guessed byte by byte
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// Accept the timestamp in seconds or milliseconds
+export function isTimestampFresh(timestamp: number | null | undefined, toleranceSeconds: number): boolean {
+  if (!timestamp || !Number.isFinite(timestamp)) return false
+  const timestampSeconds = timestamp > 1e12 ? timestamp / 1000 : timestamp
+  return Math.abs(Date.now() / 1000 - timestampSeconds) <= toleranceSeconds
+}
+
+// Read the signature header, tolerating an optional "sha256=" prefix
+export function readSignatureHeader(headers: Headers): string | null {
+  const value = headers.get(SIGNATURE_HEADER)?.trim().replace(/^sha256=/, '').toLowerCase()
+  return value || null
+}
+
+// Verify a signed JSON body; shared by every provider that uses the header scheme
+export async function verifySignedBody(
+  rawBody: string,
+  headers: Headers,
+  secret: string,
+  toleranceSeconds: number
+): Promise<
+  | { ok: true; body: Record<string, unknown>; signature: string }
+  | { ok: false; reason: 'invalid_payload' | 'missing_signature' | 'invalid_signature' | 'stale_timestamp'; body: Record<string, unknown> | null }
+> {
+  let body: Record<string, unknown>
+  try {
+    body = JSON.parse(rawBody)
+  } catch {
+    return { ok: false, reason: 'invalid_payload', body: null }
+  }
+
+  const signature = readSignatureHeader(headers)
+  if (!signature) {
+    return { ok: false, reason: 'missing_signature', body }
+  }
+
+  const expectedSignature = await computeSignature(secret, rawBody)
+  if (!timingSafeEqual(signature, expectedSignature)) {
+    return { ok: false, reason: 'invalid_signature', body }
+  }
+
+  // The timestamp is inside the signed body, so it can't be altered without breaking the signature
+  if (!isTimestampFresh(Number(body.timestamp), toleranceSeconds)) {
+    return { ok: false, reason: 'stale_timestamp', body }
+  }
+
+  return { ok: true, body, signature }
+}
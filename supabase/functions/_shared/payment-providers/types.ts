@@ -0,0 +1,100 @@
+// Blue Ox - Payment Provider Interface
+// Every mobile money provider (Pandora, the local mock, future ones) implements
+// this interface so Edge Functions never talk to a provider API directly.
+
+import type { CurrencyCode } from '../markets.ts'
+
+export type { CurrencyCode }
+
+// Status of a single collection or disbursement as reported by the provider
+export type ProviderTransactionStatus =
+  | 'pending'
+  | 'processing'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'expired'
+
+// Why an inbound webhook was refused
+export type WebhookRejectionReason =
+  | 'invalid_payload'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'replayed_signature'
+  | 'wrong_market' // Signed by the provider of another market than the payment's
+
+// Money in (passenger pays) or money out (refund / payout)
+export interface TransferRequest {
+  reference: string      // Our BLUEOX… reference, echoed back in the webhook
+  amount: number         // Whole units of the currency
+  currency: CurrencyCode
+  phoneNumber: string    // 256XXXXXXXXX, as normalised by parsePhoneNumber (../phone.ts)
+  narrative: string
+  callbackUrl: string
+}
+
+// The HTTP call behind a provider response, kept for the payment_events audit
+// log. Headers are stored as sent; the log redacts secrets.
+export interface ProviderHttpExchange {
+  method: string
+  url: string
+  requestHeaders: Record<string, string>
+  requestBody: unknown
+  status: number
+  responseHeaders: Record<string, string>
+  responseBody: unknown  // Parsed JSON, or the text when it isn't JSON
+}
+
+// Normalised provider response for collect, disburse and status queries
+export interface ProviderTransaction {
+  success: boolean
+  status: ProviderTransactionStatus
+  transactionId: string | null
+  amount: number | null  // As reported by the provider, when it reports one
+  network: string | null
+  message: string | null
+  raw: unknown
+  http: ProviderHttpExchange | null  // null when no HTTP call was made (mock)
+  // queryStatus only: the provider answered that it has no transaction with this
+  // reference, as opposed to not answering at all
+  unknownReference?: boolean
+  // The provider didn't answer with a result (e.g. not JSON), so a collect or
+  // disburse may or may not have gone through
+  unanswered?: boolean
+}
+
+// Normalised, verified webhook notification
+export interface WebhookEvent {
+  reference: string
+  status: ProviderTransactionStatus
+  amount: number | null
+  network: string | null
+  message: string | null
+  timestamp: number | null
+  signature: string
+  raw: Record<string, unknown>
+}
+
+export type WebhookParseResult =
+  | { ok: true; event: WebhookEvent }
+  | { ok: false; reason: WebhookRejectionReason; reference: string | null }
+
+export interface PaymentProvider {
+  readonly name: string
+
+  // Currencies it can collect and pay out in; one per market it serves
+  readonly currencies: readonly CurrencyCode[]
+
+  // Ask the payer to approve a mobile money payment
+  collect(request: TransferRequest): Promise<ProviderTransaction>
+
+  // Send money to a mobile money number (refunds and payouts)
+  disburse(request: TransferRequest): Promise<ProviderTransaction>
+
+  // Look up the current state of a transaction we initiated
+  queryStatus(reference: string, transactionId?: string | null): Promise<ProviderTransaction>
+
+  // Verify and normalise an inbound webhook; replay protection is left to the caller
+  parseWebhook(rawBody: string, headers: Headers): Promise<WebhookParseResult>
+}
@@ -0,0 +1,331 @@
+// Blue Ox - Payment State Transitions
+// Applies a provider outcome (from a webhook or a status query) to a payment
+// and its booking. Each payment_type has its own transition:
+// - booking_fee: completed confirms the booking, failure marks the payment failed
+// - refund_to_passenger / refund_to_driver: completed only settles the refund
+//   (the booking stays cancelled); failure is flagged for retry
+// - driver_payout: completed settles the payout; failure is final and leaves the
+//   money in the driver's wallet (payments_sync_payout_request updates the request),
+//   so a later outcome for a failed payout is ignored and admins are alerted
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { ProviderTransactionStatus } from './payment-providers/index.ts'
+import { isPayoutNumberError } from './refunds.ts'
+
+export type PaymentType = 'booking_fee' | 'refund_to_passenger' | 'refund_to_driver' | 'driver_payout'
+
+export interface PaymentRecord {
+  id: string
+  booking_id: string | null
+  payment_type: PaymentType
+  status: string
+  retry_count: number
+}
+
+export interface PaymentOutcome {
+  status: ProviderTransactionStatus
+  message: string | null
+  network: string | null
+  transactionId: string | null
+}
+
+export type TransitionAction =
+  | 'already_processed'
+  | 'still_processing'
+  | 'booking_confirmed'
+  | 'paid_for_inactive_booking'
+  | 'payment_failed'
+  | 'refund_completed'
+  | 'refund_failed'
+  | 'payout_completed'
+  | 'payout_failed'
+
+const FAILED_STATUSES: ProviderTransactionStatus[] = ['failed', 'cancelled', 'expired']
+
+function failureMessage(outcome: PaymentOutcome, fallback: string): string {
+  return outcome.message ||
+    (outcome.status === 'cancelled' ? 'Transaction cancelled by user' :
+     outcome.status === 'expired' ? 'Transaction expired - user did not complete in time' :
+     fallback)
+}
+
+export async function applyPaymentOutcome(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  // Check if payment is already processed (idempotency)
+  if (payment.status === 'completed' || payment.status === 'refunded') {
+    console.log('Payment already processed, skipping:', payment.id)
+    return 'already_processed'
+  }
+
+  // The driver may already have requested the money again; completing now would
+  // debit the wallet twice
+  if (payment.payment_type === 'driver_payout' && payment.status === 'failed') {
+    if (outcome.status === 'completed') {
+      await alertPayoutCompletedAfterFailure(supabaseAdmin, payment)
+    }
+    console.log('Payout already failed, skipping:', payment.id)
+    return 'already_processed'
+  }
+
+  if (!FAILED_STATUSES.includes(outcome.status) && outcome.status !== 'completed') {
+    // Still processing - just log it
+    console.log('Payment still processing:', payment.id)
+    return 'still_processing'
+  }
+
+  if (payment.payment_type === 'booking_fee') {
+    return outcome.status === 'completed'
+      ? await completeBookingFee(supabaseAdmin, payment, outcome)
+      : await failBookingFee(supabaseAdmin, payment, outcome)
+  }
+
+  if (payment.payment_type === 'driver_payout') {
+    return outcome.status === 'completed'
+      ? await completePayout(supabaseAdmin, payment, outcome)
+      : await failPayout(supabaseAdmin, payment, outcome)
+  }
+
+  return outcome.status === 'completed'
+    ? await completeRefund(supabaseAdmin, payment, outcome)
+    : await failRefund(supabaseAdmin, payment, outcome)
+}
+
+// A callback for a refund attempt that retry-refunds has since replaced with a
+// fresh reference. retry-refunds only replaces an attempt the provider reported
+// failed, so a failure needs nothing; a completion means the refund may be paid
+// twice, so admins are alerted, and a refund still waiting to be retried is
+// settled rather than sent again.
+export async function applySupersededRefundOutcome(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  reference: string,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  if (outcome.status !== 'completed') {
+    console.log('Earlier refund attempt already replaced, skipping:', { payment_id: payment.id, reference })
+    return 'already_processed'
+  }
+
+  const { error } = await supabaseAdmin
+    .from('admin_alerts')
+    .insert({
+      kind: 'superseded_refund_completed',
+      payment_id: payment.id,
+      message: `Refund ${payment.id} was reported paid under its earlier reference ${reference} after it had been ` +
+        'retried. Check the recipient was not paid twice.',
+    })
+
+  if (error) {
+    console.error('Failed to raise refund alert:', error)
+    throw new Error('Failed to raise refund alert')
+  }
+
+  return payment.status === 'failed'
+    ? await completeRefund(supabaseAdmin, payment, outcome)
+    : 'already_processed'
+}
+
+async function completeBookingFee(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  // Completes the payment and confirms the booking in one transaction, so a
+  // failure leaves both as they were for the next callback or reconciliation run
+  const { data, error } = await supabaseAdmin.rpc('complete_booking_fee', {
+    p_payment_id: payment.id,
+    p_transaction_id: outcome.transactionId,
+  })
+
+  if (error) {
+    console.error('Failed to complete booking fee:', error)
+    throw new Error('Failed to confirm booking')
+  }
+
+  const result = data as { action: TransitionAction; reason?: string }
+
+  if (result.action === 'paid_for_inactive_booking') {
+    // Money arrived for a booking that was cancelled or whose seats were re-sold;
+    // a full refund is queued for retry-refunds and admins are alerted
+    console.error('Payment completed for a booking that is no longer pending:', {
+      payment_id: payment.id,
+      booking_id: payment.booking_id,
+      reason: result.reason,
+    })
+  } else if (result.action === 'booking_confirmed') {
+    console.log('Payment successful, booking confirmed:', {
+      payment_id: payment.id,
+      booking_id: payment.booking_id,
+      network: outcome.network,
+    })
+  }
+  return result.action
+}
+
+async function failBookingFee(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  const errorMessage = failureMessage(outcome, 'Payment failed')
+
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      retry_count: payment.retry_count + 1,
+    })
+    .eq('id', payment.id)
+
+  if (updateError) {
+    console.error('Failed to update payment:', updateError)
+    throw new Error('Failed to update payment status')
+  }
+
+  console.log('Payment failed/cancelled/expired:', {
+    payment_id: payment.id,
+    status: outcome.status,
+    message: errorMessage,
+  })
+  return 'payment_failed'
+}
+
+async function completeRefund(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  // The booking was already cancelled by process-refund; leave it (and its seats) alone
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'completed',
+      pandora_transaction_id: outcome.transactionId,
+      needs_retry: false,
+    })
+    .eq('id', payment.id)
+
+  if (updateError) {
+    console.error('Failed to update refund:', updateError)
+    throw new Error('Failed to update refund status')
+  }
+
+  console.log('Refund disbursed:', {
+    payment_id: payment.id,
+    payment_type: payment.payment_type,
+    booking_id: payment.booking_id,
+  })
+  return 'refund_completed'
+}
+
+async function failRefund(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  const errorMessage = failureMessage(outcome, 'Disbursement failed')
+
+  // The recipient is still owed this money, so flag it for retry instead of dropping it
+  // (a bad payout number waits for a corrected one rather than retrying)
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      retry_count: payment.retry_count + 1,
+      needs_retry: true,
+      awaiting_phone_update: isPayoutNumberError(errorMessage),
+    })
+    .eq('id', payment.id)
+
+  if (updateError) {
+    console.error('Failed to flag refund for retry:', updateError)
+    throw new Error('Failed to update refund status')
+  }
+
+  console.error('Refund disbursement failed, flagged for retry:', {
+    payment_id: payment.id,
+    payment_type: payment.payment_type,
+    booking_id: payment.booking_id,
+    message: errorMessage,
+  })
+  return 'refund_failed'
+}
+
+async function completePayout(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  // Only from an open status, so a concurrent failure or completion wins once
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'completed',
+      pandora_transaction_id: outcome.transactionId,
+    })
+    .eq('id', payment.id)
+    .in('status', ['pending', 'processing'])
+    .select('id')
+
+  if (updateError) {
+    console.error('Failed to update payout:', updateError)
+    throw new Error('Failed to update payout status')
+  }
+
+  if (!updated || updated.length === 0) {
+    console.log('Payout already settled, skipping:', payment.id)
+    return 'already_processed'
+  }
+
+  console.log('Driver payout sent:', { payment_id: payment.id })
+  return 'payout_completed'
+}
+
+async function failPayout(
+  supabaseAdmin: SupabaseClient,
+  payment: PaymentRecord,
+  outcome: PaymentOutcome
+): Promise<TransitionAction> {
+  const errorMessage = failureMessage(outcome, 'Payout failed')
+
+  // Not retried: the amount never left the wallet, so the driver can request it again
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'failed',
+      error_message: errorMessage,
+      retry_count: payment.retry_count + 1,
+    })
+    .eq('id', payment.id)
+
+  if (updateError) {
+    console.error('Failed to update payout:', updateError)
+    throw new Error('Failed to update payout status')
+  }
+
+  console.error('Driver payout failed:', { payment_id: payment.id, message: errorMessage })
+  return 'payout_failed'
+}
+
+// The provider paid out a payout we had recorded as failed, so the wallet still
+// holds money the driver has received
+async function alertPayoutCompletedAfterFailure(supabaseAdmin: SupabaseClient, payment: PaymentRecord) {
+  const { error } = await supabaseAdmin
+    .from('admin_alerts')
+    .insert({
+      kind: 'payout_completed_after_failure',
+      payment_id: payment.id,
+      message: `Driver payout ${payment.id} was reported completed after it had failed. ` +
+        "Check the driver's wallet before approving another payout.",
+    })
+
+  if (error) {
+    console.error('Failed to raise payout alert:', error)
+    throw new Error('Failed to raise payout alert')
+  }
+}
@@ -0,0 +1,107 @@
+// Blue Ox - Phone Numbers
+// The one place mobile money numbers are validated. Shared by the app
+// (imported as @shared/phone) and the Edge Functions; the database has a copy
+// of the prefix tables in public.mobile_network()
+// (supabase/markets-migration.sql), keep them in step.
+//
+// A number is read in the format of one market (./markets.ts): the local form
+// 0XXXXXXXXX or XXXXXXXXX, or the international form with the market's dial
+// code, with or without the + (spaces, dashes and brackets ignored). The
+// operator is detected from the prefix. Only operators the market's payment
+// provider can collect from and pay out to are supported.
+
+import { DEFAULT_MARKET, MARKETS, type MarketCode } from './markets.ts'
+
+export type MobileNetwork = 'MTN' | 'AIRTEL' | 'SAFARICOM' | 'VODACOM' | 'TIGO' | 'HALOTEL'
+
+export const NETWORK_NAMES: Record<MobileNetwork, string> = {
+  MTN: 'MTN Mobile Money',
+  AIRTEL: 'Airtel Money',
+  SAFARICOM: 'M-PESA',
+  VODACOM: 'Vodacom M-Pesa',
+  TIGO: 'Tigo Pesa',
+  HALOTEL: 'HaloPesa',
+}
+
+interface MarketNumbering {
+  // The nine digits after the dial code / 0
+  local: RegExp
+  // Leading digits of the local number by operator; the longest match wins
+  prefixes: Record<string, MobileNetwork>
+}
+
+const NUMBERING: Record<MarketCode, MarketNumbering> = {
+  UG: {
+    local: /^7\d{8}$/,
+    prefixes: {
+      '76': 'MTN', '77': 'MTN', '78': 'MTN',
+      '70': 'AIRTEL', '74': 'AIRTEL', '75': 'AIRTEL',
+    },
+  },
+  KE: {
+    local: /^[17]\d{8}$/,
+    prefixes: {
+      '70': 'SAFARICOM', '71': 'SAFARICOM', '72': 'SAFARICOM', '74': 'SAFARICOM', '79': 'SAFARICOM',
+      '757': 'SAFARICOM', '758': 'SAFARICOM', '759': 'SAFARICOM', '768': 'SAFARICOM', '769': 'SAFARICOM',
+      '110': 'SAFARICOM', '111': 'SAFARICOM', '112': 'SAFARICOM', '113': 'SAFARICOM', '114': 'SAFARICOM', '115': 'SAFARICOM',
+      '73': 'AIRTEL', '78': 'AIRTEL', '762': 'AIRTEL',
+      '750': 'AIRTEL', '751': 'AIRTEL', '752': 'AIRTEL', '753': 'AIRTEL', '754': 'AIRTEL', '755': 'AIRTEL', '756': 'AIRTEL',
+      '100': 'AIRTEL', '101': 'AIRTEL', '102': 'AIRTEL',
+    },
+  },
+  TZ: {
+    local: /^[67]\d{8}$/,
+    prefixes: {
+      '74': 'VODACOM', '75': 'VODACOM', '76': 'VODACOM',
+      '68': 'AIRTEL', '69': 'AIRTEL', '78': 'AIRTEL',
+      '65': 'TIGO', '67': 'TIGO', '71': 'TIGO', '77': 'TIGO',
+      '61': 'HALOTEL', '62': 'HALOTEL',
+    },
+  },
+}
+
+// The operators supported in a market, e.g. for "MTN Mobile Money or Airtel Money"
+export function marketNetworks(market: MarketCode): MobileNetwork[] {
+  return [...new Set(Object.values(NUMBERING[market].prefixes))]
+}
+
+export interface PhoneNumber {
+  e164: string     // +256XXXXXXXXX, for Supabase Auth and display
+  msisdn: string   // 256XXXXXXXXX, the format the payment providers expect
+  network: MobileNetwork
+  market: MarketCode
+}
+
+export type PhoneNumberErrorCode = 'invalid_phone' | 'unsupported_network'
+
+export type PhoneNumberResult =
+  | { ok: true; phone: PhoneNumber }
+  | { ok: false; error_code: PhoneNumberErrorCode; message: string }
+
+export function parsePhoneNumber(input: string, market: MarketCode = DEFAULT_MARKET): PhoneNumberResult {
+  const { name, dialCode, phoneExample } = MARKETS[market]
+  const numbering = NUMBERING[market]
+  const digits = input.trim().replace(/[\s\-().]/g, '')
+
+  const match = digits.match(new RegExp(`^(?:\\+${dialCode}|${dialCode}|0)?(\\d{9})$`))
+  if (!match || !numbering.local.test(match[1])) {
+    return {
+      ok: false,
+      error_code: 'invalid_phone',
+      message: `Enter a ${name} mobile number, e.g. ${phoneExample}.`,
+    }
+  }
+
+  const local = match[1]
+  const network = numbering.prefixes[local.slice(0, 3)] ?? numbering.prefixes[local.slice(0, 2)]
+  if (!network) {
+    const names = marketNetworks(market).map((code) => NETWORK_NAMES[code])
+    return {
+      ok: false,
+      error_code: 'unsupported_network',
+      message: `Only ${names.slice(0, -1).join(', ')}${names.length > 1 ? ' and ' : ''}${names[names.length - 1]} numbers are supported.`,
+    }
+  }
+
+  return { ok: true, phone: { e164: `+${dialCode}${local}`, msisdn: `${dialCode}${local}`, network, market } }
+}
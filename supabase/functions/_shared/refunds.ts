@@ -0,0 +1,131 @@
+// Blue Ox - Refund Disbursement
+// Sends a refund payment that is already on record (status 'pending') to the
+// provider. Success moves it to 'processing' until the webhook settles it; a
+// failure is flagged for retry, because the recipient is still owed the money.
+// Without an answer from the provider the refund may have gone out, so it stays
+// 'pending' and retry-refunds asks the provider about it before sending again.
+// The payments_schedule_refund_retry trigger (refund-retry-queue-migration.sql)
+// picks the next attempt time or dead-letters the refund.
+// The refund goes through the provider of the market its currency belongs to,
+// which also gets the callback; a market without one yet is a failure like any
+// other.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { paymentCallbackUrl, type CurrencyCode, type PaymentProvider } from './payment-providers/index.ts'
+import { marketForCurrency, type MarketCode } from './markets.ts'
+
+export interface QueuedRefund {
+  id: string
+  amount: number
+  currency: CurrencyCode
+  phone_number: string
+  pandora_reference: string
+  retry_count: number
+}
+
+// Failures that retrying to the same number will not fix
+const PAYOUT_NUMBER_ERROR = /(invalid|unknown|unregistered|not registered|not found|does not exist|blocked).*(number|msisdn|phone|subscriber|account|wallet)|(number|msisdn|phone|subscriber|account|wallet).*(invalid|unknown|not registered|not found|does not exist|blocked)/i
+
+export function isPayoutNumberError(message: string | null): boolean {
+  return !!message && PAYOUT_NUMBER_ERROR.test(message)
+}
+
+export interface RefundDisbursement {
+  initiated: boolean
+  message: string | null
+}
+
+export async function disburseQueuedRefund(
+  supabaseAdmin: SupabaseClient,
+  providerFor: (market: MarketCode) => PaymentProvider,
+  refund: QueuedRefund,
+  supabaseUrl: string
+): Promise<RefundDisbursement> {
+  let transactionId: string | null = null
+  let failure: string | null = null
+  let unconfirmed: string | null = null
+  let requested = false
+
+  try {
+    const market = marketForCurrency(refund.currency).code
+    const provider = providerFor(market)
+    console.log('Initiating refund:', {
+      provider: provider.name,
+      reference: refund.pandora_reference,
+      amount: refund.amount,
+      currency: refund.currency,
+    })
+
+    requested = true
+    const disbursement = await provider.disburse({
+      reference: refund.pandora_reference,
+      amount: refund.amount,
+      currency: refund.currency,
+      phoneNumber: refund.phone_number,
+      narrative: 'Blue Ox refund - Booking cancellation',
+      callbackUrl: paymentCallbackUrl(supabaseUrl, market),
+    })
+
+    if (disbursement.success) {
+      transactionId = disbursement.transactionId
+    } else if (disbursement.unanswered) {
+      unconfirmed = disbursement.message || 'No answer from the payment provider'
+    } else {
+      failure = disbursement.message || 'Refund initiation failed'
+    }
+  } catch (error) {
+    // Only a request that went out can have reached the provider
+    if (requested) {
+      unconfirmed = error.message || 'No answer from the payment provider'
+    } else {
+      failure = error.message || 'Refund initiation failed'
+    }
+  }
+
+  if (unconfirmed) {
+    console.error('Refund not confirmed by the provider, left pending:', {
+      payment_id: refund.id,
+      reference: refund.pandora_reference,
+      message: unconfirmed,
+    })
+    return { initiated: false, message: unconfirmed }
+  }
+
+  if (failure) {
+    const { error: updateError } = await supabaseAdmin
+      .from('payments')
+      .update({
+        status: 'failed',
+        error_message: failure,
+        retry_count: refund.retry_count + 1,
+        needs_retry: true,
+        awaiting_phone_update: isPayoutNumberError(failure),
+      })
+      .eq('id', refund.id)
+
+    if (updateError) {
+      console.error('Failed to flag refund for retry:', updateError)
+    }
+
+    console.error('Refund initiation failed, flagged for retry:', {
+      payment_id: refund.id,
+      reference: refund.pandora_reference,
+      message: failure,
+    })
+    return { initiated: false, message: failure }
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from('payments')
+    .update({
+      status: 'processing',
+      pandora_transaction_id: transactionId,
+    })
+    .eq('id', refund.id)
+
+  if (updateError) {
+    console.error('Failed to update refund status:', updateError)
+  }
+
+  return { initiated: true, message: null }
+}
@@ -0,0 +1,156 @@
+// Blue Ox - Cancel Ride Edge Function
+// Cancels a driver's ride and every pending or confirmed booking on it.
+// The cancel_ride database function does the cancellation and queues each
+// refund in one transaction (supabase/cancel-ride-migration.sql); this
+// function then disburses the queued refunds and reports the result for each
+// passenger. A refund that fails to start stays flagged for retry.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { paymentProvidersByMarket } from '../_shared/payment-providers/index.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+import { disburseQueuedRefund } from '../_shared/refunds.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CancelRideRequest {
+  ride_id: string
+}
+
+interface QueuedRefundSummary {
+  payment_id: string
+  to: 'passenger' | 'driver'
+  amount: number
+}
+
+interface CancelledBooking {
+  booking_id: string
+  passenger_id: string
+  passenger_name: string
+  previous_status: 'pending_payment' | 'confirmed'
+  refunds: QueuedRefundSummary[]
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const providerFor = paymentProvidersByMarket((provider) => withPaymentEvents(provider, supabaseAdmin))
+    const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { ride_id }: CancelRideRequest = await req.json()
+
+    if (!ride_id) {
+      throw new Error('Missing required fields')
+    }
+
+    // Cancel the ride and its bookings, and queue refunds, in one transaction
+    const { data: result, error: cancelError } = await supabaseAdmin.rpc('cancel_ride', {
+      p_ride_id: ride_id,
+      p_driver_id: user.id,
+    })
+
+    if (cancelError) {
+      console.error('Cancel ride error:', cancelError)
+      throw new Error(cancelError.message || 'Failed to cancel ride')
+    }
+
+    if (!result?.success) {
+      return new Response(
+        JSON.stringify({ success: false, error_code: result?.error_code, error: result?.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    const bookings: CancelledBooking[] = result.bookings
+    const paymentIds = bookings.flatMap((booking) => booking.refunds.map((refund) => refund.payment_id))
+
+    const { data: queuedRefunds, error: refundsError } = paymentIds.length > 0
+      ? await supabaseAdmin
+          .from('payments')
+          .select('id, amount, currency, phone_number, pandora_reference, retry_count')
+          .in('id', paymentIds)
+      : { data: [], error: null }
+
+    if (refundsError) {
+      // The ride is cancelled and the refunds are on record; they will be picked up by the retry job
+      console.error('Failed to load queued refunds:', refundsError)
+    }
+
+    const results = []
+
+    for (const booking of bookings) {
+      const refunds = []
+
+      for (const refund of booking.refunds) {
+        const queued = queuedRefunds?.find((payment) => payment.id === refund.payment_id)
+        const disbursement = queued
+          ? await disburseQueuedRefund(supabaseAdmin, providerFor, queued, supabaseUrl)
+          : { initiated: false, message: 'Refund queued; it will be sent shortly' }
+
+        refunds.push({ to: refund.to, amount: refund.amount, ...disbursement })
+      }
+
+      results.push({
+        booking_id: booking.booking_id,
+        passenger_id: booking.passenger_id,
+        passenger_name: booking.passenger_name,
+        previous_status: booking.previous_status,
+        refunds,
+      })
+    }
+
+    const refundCount = results.reduce((count, booking) => count + booking.refunds.length, 0)
+    const initiatedCount = results.reduce(
+      (count, booking) => count + booking.refunds.filter((refund) => refund.initiated).length, 0
+    )
+
+    console.log('Ride cancelled:', {
+      ride_id,
+      bookings: results.length,
+      refunds: refundCount,
+      initiated: initiatedCount,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: refundCount === 0
+          ? 'Ride cancelled. No refunds were due.'
+          : `Ride cancelled. ${initiatedCount} of ${refundCount} refund(s) sent; any others will be retried.`,
+        bookings: results,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Cancel ride error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
@@ -1,9 +1,28 @@
 // Blue Ox - Initiate Payment Edge Function
-// This function handles payment initiation with Pandora Mobile Money API
+// This function handles payment initiation through the configured payment provider
+// (Pandora Mobile Money API in production, see _shared/payment-providers)
 // Documentation: https://pandorapayments.com/documentation
+//
+// Initiation is idempotent: a request with an idempotency_key that was already
+// used replays the stored payment, and a booking that already has a payment in
+// flight reuses it instead of sending a second prompt. The
+// idx_payments_one_active_booking_fee index (idempotent-payments-migration.sql)
+// refuses a second active booking fee even when requests race.
+//
+// A promo code (promo-codes-migration.sql) is checked here and its discount
+// taken off the booking fee. A booking the code makes free is confirmed at
+// once, without a mobile money prompt.
+//
+// The passenger pays in the currency of the ride's market (_shared/markets.ts),
+// from a number in that market, through that market's provider.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPaymentProvider, paymentCallbackUrl, type PaymentProvider } from '../_shared/payment-providers/index.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+import { getMarket } from '../_shared/markets.ts'
+import { parsePhoneNumber } from '../_shared/phone.ts'
+import { applyPaymentOutcome } from '../_shared/payment-transitions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,10 +32,36 @@ const corsHeaders = {
 interface PaymentRequest {
   booking_id: string
   phone_number: string
+  // One key per tap of "Pay"; retries of the same tap send the same key
+  idempotency_key?: string
+  promo_code?: string
 }
 
-// Pandora API configuration
-const PANDORA_BASE_URL = 'https://api.pandorapayments.com/v1'
+// Result of the evaluate_promo_code RPC
+type PromoQuote =
+  | { success: true; promo_code_id: string; code: string; discount: number; booking_fee: number; amount_due: number }
+  | { success: false; error_code: string; message: string }
+
+interface BookingFeePayment {
+  id: string
+  booking_id: string
+  amount: number
+  currency: string
+  status: string
+  pandora_reference: string
+  phone_number: string
+  network: string | null
+  error_message: string | null
+  created_at: string
+}
+
+const PAYMENT_COLUMNS = 'id, booking_id, amount, currency, status, pandora_reference, phone_number, network, error_message, created_at'
+const ACTIVE_STATUSES = ['pending', 'processing', 'completed']
+
+// How long seats stay held once a payment prompt has been sent
+const PROCESSING_HOLD_MINUTES = 10
+// A payment still 'pending' this long after it was created never reached the provider's response
+const STALE_PENDING_MINUTES = 2
 
 serve(async (req) => {
   // Handle CORS preflight
@@ -34,11 +79,6 @@ serve(async (req) => {
     // Initialize Supabase client with service role for admin operations
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
-    const pandoraApiKey = Deno.env.get('PANDORA_API_KEY')!
-
-    if (!pandoraApiKey) {
-      throw new Error('PANDORA_API_KEY environment variable not configured')
-    }
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
 
@@ -54,27 +94,30 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { booking_id, phone_number }: PaymentRequest = await req.json()
+    const { booking_id, phone_number, idempotency_key, promo_code }: PaymentRequest = await req.json()
 
     if (!booking_id || !phone_number) {
       throw new Error('Missing required fields: booking_id and phone_number')
     }
 
-    // Validate phone number format (Uganda: +256 or 0 followed by 7 or 9 digits)
-    const phoneRegex = /^(\+256|256|0)?[7-9]\d{8}$/
-    const cleanPhone = phone_number.replace(/\s/g, '')
-    if (!phoneRegex.test(cleanPhone)) {
-      throw new Error('Invalid phone number format. Use Uganda format: 07XXXXXXXX or 256XXXXXXXXX')
-    }
-
-    // Normalize phone number to 256XXXXXXXXX format (Pandora requires this format)
-    let normalizedPhone = cleanPhone
-    if (normalizedPhone.startsWith('+256')) {
-      normalizedPhone = normalizedPhone.substring(1) // Remove the +
-    } else if (normalizedPhone.startsWith('0')) {
-      normalizedPhone = '256' + normalizedPhone.substring(1)
-    } else if (!normalizedPhone.startsWith('256')) {
-      normalizedPhone = '256' + normalizedPhone
+    // A retried request replays whatever the first one did, even if the booking has moved on since
+    if (idempotency_key) {
+      const { data: previous } = await supabaseAdmin
+        .from('payments')
+        .select(PAYMENT_COLUMNS)
+        .eq('user_id', user.id)
+        .eq('idempotency_key', idempotency_key)
+        .maybeSingle()
+
+      if (previous) {
+        if (previous.booking_id !== booking_id) {
+          throw new Error('This payment request was already used for a different booking')
+        }
+        if (previous.status === 'failed') {
+          throw new Error(previous.error_message || 'Payment initiation failed')
+        }
+        return paymentResponse(previous, null, true)
+      }
     }
 
     // Get booking details
@@ -88,7 +131,8 @@ serve(async (req) => {
           departure_time,
           origin_name,
           destination_name,
-          driver_id
+          driver_id,
+          market
         )
       `)
       .eq('id', booking_id)
@@ -113,8 +157,59 @@ serve(async (req) => {
       throw new Error('Cannot pay for a ride that has already departed')
     }
 
-    // Calculate 10% booking fee
-    const bookingFee = Math.ceil(booking.ride.price * 0.1 * booking.seats_booked)
+    const market = getMarket(booking.ride.market)
+    const provider = withPaymentEvents(getPaymentProvider(market.code), supabaseAdmin)
+
+    // Validate the number and detect its network (providers require the 256XXXXXXXXX format)
+    const parsedPhone = parsePhoneNumber(phone_number || '', market.code)
+    if (!parsedPhone.ok) {
+      throw new Error(parsedPhone.message)
+    }
+    const normalizedPhone = parsedPhone.phone.msisdn
+    const network = parsedPhone.phone.network
+
+    // Never send a second prompt while one is in flight, or charge a booking twice
+    const active = await findActiveBookingFee(supabaseAdmin, provider, booking_id)
+    if (active) {
+      return paymentResponse(active, booking.hold_expires_at, true)
+    }
+
+    let promo: PromoQuote | null = null
+    if (promo_code) {
+      const { data, error: promoError } = await supabaseAdmin.rpc('evaluate_promo_code', {
+        p_code: promo_code,
+        p_booking_id: booking_id,
+      })
+
+      if (promoError) {
+        console.error('Promo code evaluation error:', promoError)
+        throw new Error('Failed to check the promo code. Please try again.')
+      }
+      promo = data as PromoQuote
+      if (!promo.success) {
+        throw new Error(promo.message)
+      }
+    }
+
+    // The fee and, on full-fare rides, the driver's fare were fixed server-side by create_booking
+    // (public.calculate_booking_fee, public.calculate_driver_fare); a promo code only discounts the fee
+    const driverFare = booking.driver_fare || 0
+    const discount = promo?.success ? promo.discount : 0
+    const amount = booking.booking_fee - discount + driverFare
+
+    // Keep the seats held while the passenger approves the prompt (re-takes an expired hold if still free)
+    const { data: hold, error: holdError } = await supabaseAdmin.rpc('extend_seat_hold', {
+      p_booking_id: booking_id,
+      p_minutes: PROCESSING_HOLD_MINUTES,
+    })
+
+    if (holdError) {
+      console.error('Seat hold error:', holdError)
+      throw new Error('Failed to hold your seats. Please try again.')
+    }
+    if (!hold?.success) {
+      throw new Error(hold?.message || 'Your seats are no longer available')
+    }
 
     // Generate unique payment reference
     const paymentReference = `BLUEOX${Date.now()}${Math.random().toString(36).substring(2, 8).toUpperCase()}`
@@ -125,93 +220,113 @@ serve(async (req) => {
       .insert({
         booking_id: booking_id,
         user_id: user.id,
-        amount: bookingFee,
+        amount,
+        currency: market.currency,
+        fare_amount: driverFare,
+        promo_code_id: promo?.success ? promo.promo_code_id : null,
+        discount_amount: discount,
         payment_type: 'booking_fee',
         status: 'pending',
         pandora_reference: paymentReference,
         phone_number: normalizedPhone,
+        network,
+        idempotency_key: idempotency_key || null,
       })
       .select()
       .single()
 
+    // Unique violation: a concurrent request for this booking (or this key) inserted first
+    if (paymentError?.code === '23505') {
+      const winner = await findActiveBookingFee(supabaseAdmin, provider, booking_id)
+      if (!winner) {
+        throw new Error('A payment for this booking is already being processed. Please try again.')
+      }
+      return paymentResponse(winner, hold.hold_expires_at, true)
+    }
+
+    // payments_check_promo_code_uses: the code's last use was taken while we were checking it
+    if (paymentError?.message?.includes('promo_exhausted')) {
+      throw new Error('That promo code has been used up.')
+    }
+    if (paymentError?.message?.includes('promo_already_used')) {
+      throw new Error('You have already used that promo code.')
+    }
+
     if (paymentError) {
       console.error('Payment creation error:', paymentError)
       throw new Error('Failed to create payment record')
     }
 
-    // Update booking fee if needed
-    if (booking.booking_fee !== bookingFee) {
-      await supabaseAdmin
-        .from('bookings')
-        .update({ booking_fee: bookingFee })
-        .eq('id', booking_id)
-    }
-
-    // Build callback URL for Pandora webhook
-    const callbackUrl = `${supabaseUrl}/functions/v1/pandora-webhook`
+    // Nothing to collect: settle the free payment the way the webhook settles a paid one
+    if (amount === 0) {
+      const action = await applyPaymentOutcome(supabaseAdmin, payment, {
+        status: 'completed',
+        message: null,
+        network: null,
+        transactionId: null,
+      })
 
-    // Prepare Pandora API request
-    // Documentation: https://pandorapayments.com/documentation
-    const pandoraPayload = {
-      amount: bookingFee,
-      transaction_ref: paymentReference,
-      contact: normalizedPhone,
-      narrative: `Blue Ox ride booking: ${booking.ride.origin_name} to ${booking.ride.destination_name}`,
-      callback_url: callbackUrl,
+      console.log('Fully discounted booking settled:', { booking_id, reference: paymentReference, action })
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: action === 'booking_confirmed'
+            ? 'Your promo code covers the booking fee. Your booking is confirmed.'
+            : 'Your promo code covers the booking fee, but the booking could not be confirmed. Please contact support.',
+          payment_id: payment.id,
+          reference: paymentReference,
+          amount: 0,
+          currency: market.currency,
+          discount,
+          phone_number: normalizedPhone,
+          network,
+          hold_expires_at: hold.hold_expires_at,
+          confirmed: action === 'booking_confirmed',
+          reused: false,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
     }
 
-    console.log('Initiating Pandora payment:', {
+    // Build callback URL for the payment webhook
+    const callbackUrl = paymentCallbackUrl(supabaseUrl, market.code)
+
+    console.log('Initiating payment:', {
+      provider: provider.name,
       reference: paymentReference,
-      amount: bookingFee,
+      amount,
+      currency: market.currency,
+      fare_amount: driverFare,
+      discount,
       contact: normalizedPhone,
       callback_url: callbackUrl,
     })
 
-    // Make request to Pandora API
-    const pandoraResponse = await fetch(`${PANDORA_BASE_URL}/transactions/mobile-money`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-API-Key': pandoraApiKey,
-      },
-      body: JSON.stringify(pandoraPayload),
+    const collection = await provider.collect({
+      reference: paymentReference,
+      amount,
+      currency: market.currency,
+      phoneNumber: normalizedPhone,
+      narrative: `Blue Ox ride booking: ${booking.ride.origin_name} to ${booking.ride.destination_name}`,
+      callbackUrl,
     })
 
-    // Get response text first to handle non-JSON responses
-    const responseText = await pandoraResponse.text()
-
-    let pandoraResult
-    try {
-      pandoraResult = JSON.parse(responseText)
-    } catch (parseError) {
-      console.error('Pandora API returned non-JSON response:', responseText.substring(0, 500))
-
-      // Update payment status to failed
-      await supabaseAdmin
-        .from('payments')
-        .update({
-          status: 'failed',
-          error_message: 'Payment service unavailable. Please try again.',
-        })
-        .eq('id', payment.id)
-
-      throw new Error('Payment service temporarily unavailable. Please try again.')
-    }
-
-    console.log('Pandora API response:', pandoraResult)
-
     // Check if request was successful
-    if (!pandoraResult.success) {
+    if (!collection.success) {
       // Update payment status to failed
       await supabaseAdmin
         .from('payments')
         .update({
           status: 'failed',
-          error_message: pandoraResult.messages?.join(', ') || 'Pandora API error',
+          error_message: collection.message || 'Payment provider error',
         })
         .eq('id', payment.id)
 
-      throw new Error(pandoraResult.messages?.join(', ') || 'Payment initiation failed')
+      throw new Error(collection.message || 'Payment initiation failed')
     }
 
     // Update payment with processing status
@@ -219,8 +334,8 @@ serve(async (req) => {
       .from('payments')
       .update({
         status: 'processing',
-        // Store any transaction ID from Pandora if available
-        pandora_transaction_id: pandoraResult.data?.[0]?.transaction_reference || paymentReference,
+        // Store any transaction ID from the provider if available
+        pandora_transaction_id: collection.transactionId || paymentReference,
       })
       .eq('id', payment.id)
 
@@ -230,9 +345,13 @@ serve(async (req) => {
         message: 'Payment initiated. Please check your phone to confirm the mobile money transaction.',
         payment_id: payment.id,
         reference: paymentReference,
-        amount: bookingFee,
+        amount,
+        currency: market.currency,
+        discount,
         phone_number: normalizedPhone,
-        network: pandoraResult.data?.[0]?.network || 'Mobile Money',
+        network,
+        hold_expires_at: hold.hold_expires_at,
+        reused: false,
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -254,3 +373,71 @@ serve(async (req) => {
     )
   }
 })
+
+// The booking fee that is waiting, in flight or paid for this booking, if any.
+// A 'pending' row left behind by an interrupted request is checked with the
+// provider: if the prompt never went out it is failed so a new one can be sent.
+async function findActiveBookingFee(
+  supabaseAdmin: SupabaseClient,
+  provider: PaymentProvider,
+  bookingId: string
+): Promise<BookingFeePayment | null> {
+  const { data: active } = await supabaseAdmin
+    .from('payments')
+    .select(PAYMENT_COLUMNS)
+    .eq('booking_id', bookingId)
+    .eq('payment_type', 'booking_fee')
+    .in('status', ACTIVE_STATUSES)
+    .maybeSingle()
+
+  if (!active) return null
+
+  if (active.status === 'completed') {
+    throw new Error('This booking has already been paid for')
+  }
+
+  const staleBefore = Date.now() - STALE_PENDING_MINUTES * 60 * 1000
+  if (active.status !== 'pending' || new Date(active.created_at).getTime() > staleBefore) {
+    return active
+  }
+
+  const existing = await provider.queryStatus(active.pandora_reference)
+  if (existing.success && existing.status !== 'failed') {
+    await supabaseAdmin
+      .from('payments')
+      .update({ status: 'processing', pandora_transaction_id: existing.transactionId })
+      .eq('id', active.id)
+      .eq('status', 'pending')
+    return { ...active, status: 'processing' }
+  }
+
+  await supabaseAdmin
+    .from('payments')
+    .update({ status: 'failed', error_message: 'Payment initiation was interrupted' })
+    .eq('id', active.id)
+    .eq('status', 'pending')
+  return null
+}
+
+function paymentResponse(payment: BookingFeePayment, holdExpiresAt: string | null, reused: boolean) {
+  return new Response(
+    JSON.stringify({
+      success: true,
+      message: payment.status === 'completed'
+        ? 'This booking has already been paid for.'
+        : 'A payment prompt was already sent. Please check your phone to confirm the mobile money transaction.',
+      payment_id: payment.id,
+      reference: payment.pandora_reference,
+      amount: payment.amount,
+      currency: payment.currency,
+      phone_number: payment.phone_number,
+      network: payment.network,
+      hold_expires_at: holdExpiresAt,
+      reused,
+    }),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status: 200,
+    }
+  )
+}
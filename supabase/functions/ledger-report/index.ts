@@ -0,0 +1,250 @@
+// Blue Ox - Ledger Reconciliation Report
+// Compares the ledger (supabase/ledger-migration.sql) with the provider for
+// every payment settled in a period: money the ledger says moved must have
+// moved at the provider, for the same amount, and vice versa. Returns the
+// platform balances and the mismatches found; each new mismatch also raises an
+// admin alert (delivered by retry-refunds). Totals and balances are per
+// currency, and each payment is checked with its market's provider.
+//
+// Request body (all optional): { from, to } as ISO timestamps, default the last 7 days.
+// Only callable with the service role key.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { paymentProvidersByMarket, type PaymentProvider, type ProviderTransactionStatus } from '../_shared/payment-providers/index.ts'
+import { marketForCurrency } from '../_shared/markets.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReportRequest {
+  from?: string
+  to?: string
+}
+
+type MismatchIssue =
+  | 'ledger_without_provider_transaction'
+  | 'provider_transaction_missing_from_ledger'
+  | 'ledger_amount_mismatch'
+  | 'provider_amount_mismatch'
+
+interface Mismatch {
+  payment_id: string
+  reference: string | null
+  payment_type: string
+  payment_status: string
+  issue: MismatchIssue
+  amount: number
+  currency: string
+  ledger_amount: number
+  provider_status: ProviderTransactionStatus
+  provider_amount: number | null
+}
+
+const DEFAULT_PERIOD_DAYS = 7
+// Each payment costs one provider call; longer periods should be run in pieces
+const MAX_PAYMENTS = 500
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Any valid JWT passes the gateway, so check for the service role key itself
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const providerFor = paymentProvidersByMarket((provider) => withPaymentEvents(provider, supabaseAdmin))
+
+    const body: ReportRequest = await req.json().catch(() => ({}))
+    const to = body.to ? new Date(body.to) : new Date()
+    const from = body.from ? new Date(body.from) : new Date(to.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000)
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      throw new Error('Invalid period: from must be before to')
+    }
+
+    // Settled payments only; ones still in flight are reconcile-payments' job
+    const { data: movements, error: movementsError } = await supabaseAdmin
+      .from('ledger_cash_movements')
+      .select('*')
+      .in('status', ['completed', 'refunded', 'failed'])
+      .gte('updated_at', from.toISOString())
+      .lt('updated_at', to.toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(MAX_PAYMENTS + 1)
+
+    if (movementsError) {
+      console.error('Failed to load ledger movements:', movementsError)
+      throw new Error('Failed to load ledger movements')
+    }
+
+    const truncated = (movements?.length || 0) > MAX_PAYMENTS
+    const rows = (movements || []).slice(0, MAX_PAYMENTS)
+
+    const totals: Record<string, { ledger_collected: number; ledger_disbursed: number; provider_collected: number; provider_disbursed: number }> = {}
+    const mismatches: Mismatch[] = []
+    const unchecked: string[] = []
+
+    for (const row of rows) {
+      const isCollection = row.payment_type === 'booking_fee'
+      const total = totals[row.currency] ??= { ledger_collected: 0, ledger_disbursed: 0, provider_collected: 0, provider_disbursed: 0 }
+
+      if (row.ledger_amount > 0) total.ledger_collected += row.ledger_amount
+      if (row.ledger_amount < 0) total.ledger_disbursed -= row.ledger_amount
+
+      // Fully discounted by a promo code; nothing was sent to the provider
+      if (row.amount === 0) continue
+
+      if (!row.pandora_reference) {
+        unchecked.push(row.payment_id)
+        continue
+      }
+
+      // A market without a provider yet can't be checked
+      let provider: PaymentProvider
+      try {
+        provider = providerFor(marketForCurrency(row.currency).code)
+      } catch {
+        unchecked.push(row.payment_id)
+        continue
+      }
+
+      const transaction = await provider.queryStatus(row.pandora_reference, row.pandora_transaction_id)
+      if (!transaction.success) {
+        // Provider unreachable or doesn't know the reference; a failed payment it never saw is fine
+        if (row.ledger_amount !== 0) unchecked.push(row.payment_id)
+        continue
+      }
+
+      const providerMoved = transaction.status === 'completed'
+      if (providerMoved) {
+        const providerAmount = transaction.amount ?? row.amount
+        if (isCollection) total.provider_collected += providerAmount
+        else total.provider_disbursed += providerAmount
+      }
+
+      const mismatch = (issue: MismatchIssue) => mismatches.push({
+        payment_id: row.payment_id,
+        reference: row.pandora_reference,
+        payment_type: row.payment_type,
+        payment_status: row.status,
+        issue,
+        amount: row.amount,
+        currency: row.currency,
+        ledger_amount: row.ledger_amount,
+        provider_status: transaction.status,
+        provider_amount: transaction.amount,
+      })
+
+      if (row.ledger_amount !== 0 && !providerMoved) {
+        mismatch('ledger_without_provider_transaction')
+      } else if (row.ledger_amount === 0 && providerMoved) {
+        mismatch('provider_transaction_missing_from_ledger')
+      } else if (row.ledger_amount !== 0 && Math.abs(row.ledger_amount) !== row.amount) {
+        mismatch('ledger_amount_mismatch')
+      } else if (providerMoved && transaction.amount !== null && transaction.amount !== row.amount) {
+        mismatch('provider_amount_mismatch')
+      }
+    }
+
+    const { data: balances, error: balancesError } = await supabaseAdmin
+      .from('ledger_balances')
+      .select('account_type, currency, balance')
+
+    if (balancesError) {
+      console.error('Failed to load ledger balances:', balancesError)
+      throw new Error('Failed to load ledger balances')
+    }
+
+    const balancesByCurrency: Record<string, { provider_cash: number; platform_revenue: number; owed_to_drivers: number; owed_to_passengers: number }> = {}
+    for (const account of balances || []) {
+      const balance = balancesByCurrency[account.currency] ??= { provider_cash: 0, platform_revenue: 0, owed_to_drivers: 0, owed_to_passengers: 0 }
+      if (account.account_type === 'provider_cash') balance.provider_cash += account.balance
+      if (account.account_type === 'platform_revenue') balance.platform_revenue += account.balance
+      if (account.account_type === 'driver') balance.owed_to_drivers += account.balance
+      if (account.account_type === 'passenger') balance.owed_to_passengers += account.balance
+    }
+
+    const alertsRaised = await raiseMismatchAlerts(supabaseAdmin, mismatches)
+
+    console.log('Ledger report:', {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      checked: rows.length,
+      mismatches: mismatches.length,
+      unchecked: unchecked.length,
+    })
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        checked: rows.length,
+        truncated,
+        totals,
+        balances: balancesByCurrency,
+        mismatches,
+        unchecked,
+        alerts_raised: alertsRaised,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Ledger report error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
+
+// One open alert per mismatched payment, however often the report runs
+async function raiseMismatchAlerts(
+  supabaseAdmin: SupabaseClient,
+  mismatches: Mismatch[]
+): Promise<number> {
+  if (mismatches.length === 0) return 0
+
+  const { data: open } = await supabaseAdmin
+    .from('admin_alerts')
+    .select('payment_id')
+    .eq('kind', 'ledger_mismatch')
+    .is('resolved_at', null)
+    .in('payment_id', mismatches.map((mismatch) => mismatch.payment_id))
+
+  const alreadyOpen = new Set((open || []).map((alert) => alert.payment_id))
+  const alerts = mismatches
+    .filter((mismatch) => !alreadyOpen.has(mismatch.payment_id))
+    .map((mismatch) => ({
+      kind: 'ledger_mismatch',
+      payment_id: mismatch.payment_id,
+      message: `Payment ${mismatch.reference} (${mismatch.payment_type}, ${mismatch.currency} ${mismatch.amount}): ${mismatch.issue}; ` +
+        `ledger ${mismatch.ledger_amount}, provider ${mismatch.provider_status}` +
+        (mismatch.provider_amount !== null ? ` ${mismatch.currency} ${mismatch.provider_amount}` : ''),
+    }))
+
+  if (alerts.length === 0) return 0
+
+  const { error } = await supabaseAdmin.from('admin_alerts').insert(alerts)
+  if (error) {
+    console.error('Failed to raise ledger alerts:', error)
+    return 0
+  }
+  return alerts.length
+}
@@ -1,38 +1,30 @@
 // Blue Ox - Pandora Webhook Handler
-// This function handles payment notifications from Pandora Payments
+// This function handles payment notifications from the configured payment provider
+// (Pandora in production, the mock provider locally)
 // Documentation: https://pandorapayments.com/documentation
 //
-// CALLBACK URL: https://[YOUR-PROJECT-REF].supabase.co/functions/v1/pandora-webhook
-// Configure this URL when initiating payments
+// CALLBACK URL: https://[YOUR-PROJECT-REF].supabase.co/functions/v1/pandora-webhook?market=UG
+// Built by paymentCallbackUrl() when initiating payments. Each market can have
+// its own provider and secret, so the callback is verified with the provider of
+// the market in the URL; callbacks without one are for the default market.
+// A callback for a payment in another market is rejected.
+//
+// SIGNATURES: Pandora signs every callback with HMAC-SHA256 over the raw request
+// body using the shared PANDORA_WEBHOOK_SECRET, hex-encoded in the
+// X-Pandora-Signature header. Calls with a missing or wrong signature, a
+// timestamp outside the tolerance window, or an already-seen signature are
+// rejected before any payment or booking is touched.
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPaymentProvider, type WebhookRejectionReason } from '../_shared/payment-providers/index.ts'
+import { getMarket, marketForCurrency } from '../_shared/markets.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+import { applyPaymentOutcome, applySupersededRefundOutcome } from '../_shared/payment-transitions.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-}
-
-// Pandora webhook payload format (actual format from Pandora)
-interface PandoraWebhookPayload {
-  transaction_ref: string  // Pandora sends transaction_ref, not transaction_reference
-  status: 'processing' | 'completed' | 'failed' | 'cancelled' | 'expired'
-  message?: string
-  amount: string
-  contact?: string
-  narrative?: string
-  timestamp?: number
-  network_ref?: string
-  signature?: string
-  // Legacy fields (in case they change)
-  transaction_reference?: string
-  transaction_charge?: string
-  sub_account?: string
-  transaction_type?: string
-  network?: string
-  completed_on?: string
-  failed_on?: string
-  reason?: string
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-pandora-signature',
 }
 
 serve(async (req) => {
@@ -47,36 +39,103 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
 
     const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const market = getMarket(new URL(req.url).searchParams.get('market'))
+    const provider = withPaymentEvents(getPaymentProvider(market.code), supabaseAdmin)
+
+    // Signature is computed over the exact bytes the provider sent, so read the raw body first
+    const rawBody = await req.text()
+
+    // Record and answer a rejected call without touching payments or bookings
+    const rejectWebhook = async (reason: WebhookRejectionReason, reference: string | null, status: number) => {
+      console.warn('Rejected payment webhook:', { reason, transaction_ref: reference, provider: provider.name, market: market.code })
+
+      const { error: logError } = await supabaseAdmin
+        .from('webhook_rejections')
+        .insert({
+          reason,
+          transaction_ref: reference,
+          remote_address: req.headers.get('x-forwarded-for'),
+          raw_body: rawBody.substring(0, 10000),
+        })
 
-    // Parse webhook payload
-    const payload: PandoraWebhookPayload = await req.json()
+      if (logError) {
+        console.error('Failed to log webhook rejection:', logError)
+      }
 
-    // Support both transaction_ref (actual) and transaction_reference (legacy)
-    const transactionRef = payload.transaction_ref || payload.transaction_reference
+      return new Response(
+        JSON.stringify({ success: false, error: reason }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status }
+      )
+    }
 
-    console.log('Received Pandora webhook:', {
-      transaction_ref: transactionRef,
-      status: payload.status,
-      amount: payload.amount,
-      message: payload.message,
-    })
+    let parsed
+    try {
+      parsed = await provider.parseWebhook(rawBody, req.headers)
+    } catch (configError) {
+      // Fail closed: without a secret we cannot tell the provider from anyone else
+      console.error('Webhook verification not configured:', configError)
+      return new Response(
+        JSON.stringify({ success: false, error: 'Webhook verification not configured' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+      )
+    }
+
+    if (!parsed.ok) {
+      return await rejectWebhook(parsed.reason, parsed.reference, parsed.reason === 'invalid_payload' ? 400 : 401)
+    }
 
-    // Validate required fields
-    if (!transactionRef || !payload.status) {
-      console.error('Missing required fields in webhook payload:', payload)
-      throw new Error('Missing required fields: transaction_ref and status')
+    const event = parsed.event
+    const transactionRef = event.reference
+
+    // Remember the signature; the primary key turns a second delivery into a conflict
+    const { error: signatureError } = await supabaseAdmin
+      .from('webhook_signatures')
+      .insert({ signature: event.signature, transaction_ref: transactionRef })
+
+    if (signatureError) {
+      if (signatureError.code === '23505') {
+        // Answer 200 so a legitimate retry of an already-handled callback stops retrying
+        return await rejectWebhook('replayed_signature', transactionRef, 200)
+      }
+      console.error('Failed to record webhook signature:', signatureError)
+      throw new Error('Failed to record webhook signature')
     }
 
-    // SECURITY: Verify webhook by checking transaction_ref exists in our records
-    // (As per Pandora documentation: "verify that webhook requests originated from PandoraPay
-    // by checking the transaction reference against your records")
+    // Forget the signature if processing fails, so the provider's retry is not treated as a replay
+    const releaseSignature = async () => {
+      await supabaseAdmin
+        .from('webhook_signatures')
+        .delete()
+        .eq('signature', event.signature)
+    }
+
+    console.log('Received payment webhook:', {
+      provider: provider.name,
+      transaction_ref: transactionRef,
+      status: event.status,
+      amount: event.amount,
+      message: event.message,
+    })
+
+    // SECURITY: The signature proves the call came from the provider; also check the
+    // transaction_ref exists in our records (as per Pandora documentation: "verify that
+    // webhook requests originated from PandoraPay by checking the transaction reference
+    // against your records")
+    // A retried refund keeps the references of its earlier attempts (refund-references-migration.sql)
     const { data: payment, error: paymentError } = await supabaseAdmin
       .from('payments')
       .select('*, booking:bookings(*)')
-      .eq('pandora_reference', transactionRef)
+      .or(`pandora_reference.eq.${transactionRef},previous_references.cs.{${transactionRef}}`)
       .single()
 
-    if (paymentError || !payment) {
+    // Anything but "no rows" is our failure; let the provider deliver the callback again
+    if (paymentError && paymentError.code !== 'PGRST116') {
+      console.error('Failed to load payment:', paymentError)
+      await releaseSignature()
+      throw new Error('Failed to load payment')
+    }
+
+    if (!payment) {
       console.error('Payment not found for reference:', transactionRef)
       // Return 200 to prevent Pandora from retrying (unknown reference)
       return new Response(
@@ -85,96 +144,55 @@ serve(async (req) => {
       )
     }
 
+    // The market in the URL chose the secret, so it must be the payment's own:
+    // otherwise one market's secret could settle another market's payments
+    if (marketForCurrency(payment.currency).code !== market.code) {
+      return await rejectWebhook('wrong_market', transactionRef, 401)
+    }
+
     console.log('Found payment record:', {
       payment_id: payment.id,
       current_status: payment.status,
+      payment_type: payment.payment_type,
       booking_id: payment.booking_id,
     })
 
-    // Check if payment is already processed (idempotency)
-    if (payment.status === 'completed' || payment.status === 'refunded') {
-      console.log('Payment already processed, skipping:', payment.id)
+    // Refunds share this callback URL, so the transition depends on payment_type
+    const outcome = {
+      status: event.status,
+      message: event.message,
+      network: event.network,
+      transactionId: transactionRef,
+    }
+    let action
+    try {
+      action = payment.pandora_reference === transactionRef
+        ? await applyPaymentOutcome(supabaseAdmin, payment, outcome)
+        : await applySupersededRefundOutcome(supabaseAdmin, payment, transactionRef, outcome)
+    } catch (transitionError) {
+      await releaseSignature()
+      throw transitionError
+    }
+
+    if (action === 'already_processed') {
       return new Response(
         JSON.stringify({ success: true, message: 'Payment already processed' }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
       )
     }
 
-    // Process based on Pandora status
-    if (payload.status === 'completed') {
-      // Payment successful - update payment and confirm booking
-      const { error: updatePaymentError } = await supabaseAdmin
-        .from('payments')
-        .update({
-          status: 'completed',
-          pandora_transaction_id: transactionRef,
-        })
-        .eq('id', payment.id)
-
-      if (updatePaymentError) {
-        console.error('Failed to update payment:', updatePaymentError)
-        throw new Error('Failed to update payment status')
-      }
-
-      // Update booking status to confirmed
-      const { error: updateBookingError } = await supabaseAdmin
-        .from('bookings')
-        .update({ status: 'confirmed' })
-        .eq('id', payment.booking_id)
-
-      if (updateBookingError) {
-        console.error('Failed to update booking:', updateBookingError)
-        throw new Error('Failed to confirm booking')
-      }
-
-      console.log('Payment successful, booking confirmed:', {
-        payment_id: payment.id,
-        booking_id: payment.booking_id,
-        network: payload.network,
-      })
-
-    } else if (payload.status === 'failed' || payload.status === 'cancelled' || payload.status === 'expired') {
-      // Payment failed/cancelled/expired - update payment status
-      const errorMessage = payload.message || payload.reason ||
-        (payload.status === 'cancelled' ? 'Transaction cancelled by user' :
-         payload.status === 'expired' ? 'Transaction expired - user did not complete in time' :
-         'Payment failed')
-
-      const { error: updateError } = await supabaseAdmin
-        .from('payments')
-        .update({
-          status: 'failed',
-          error_message: errorMessage,
-          retry_count: payment.retry_count + 1,
-        })
-        .eq('id', payment.id)
-
-      if (updateError) {
-        console.error('Failed to update payment:', updateError)
-      }
-
-      console.log('Payment failed/cancelled/expired:', {
-        payment_id: payment.id,
-        status: payload.status,
-        message: errorMessage,
-      })
-
-    } else if (payload.status === 'processing') {
-      // Still processing - just log it
-      console.log('Payment still processing:', payment.id)
-    }
-
     return new Response(
-      JSON.stringify({ success: true, message: 'Webhook processed successfully' }),
+      JSON.stringify({ success: true, message: 'Webhook processed successfully', action }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
     )
 
   } catch (error) {
     console.error('Webhook processing error:', error)
-    // Return 200 to prevent retry loops for invalid payloads
+    // Bad payloads were already answered above; this is our failure (e.g. the
+    // database), so answer 5xx and let the provider deliver the callback again
     return new Response(
       JSON.stringify({ success: false, error: error.message }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
     )
   }
 })
@@ -0,0 +1,349 @@
+// Blue Ox - Payment Documents Edge Function
+// Receipts and monthly statements, rendered here as HTML or PDF
+// (../_shared/documents.ts) so they can be saved and read offline.
+// - receipt: a completed booking fee or refund paid by or to the caller, with
+//   the trip, the seats and the cash still due to the driver
+// - statement: every payment settled for the caller in a calendar month (East
+//   Africa Time) and, for drivers, their wallet movements and balances
+// Each amount is in the currency it was paid in (the ride's market).
+//
+// Request body:
+//   { document: 'receipt', payment_id, format? }
+//   { document: 'statement', month: 'YYYY-MM', format? }
+// format is 'html' (default) or 'pdf'.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import {
+  formatDocumentDate,
+  formatAmount,
+  renderHtml,
+  renderPdf,
+  type DocumentFormat,
+  type DocumentSection,
+  type PrintableDocument,
+} from '../_shared/documents.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type DocumentRequest =
+  | { document: 'receipt'; payment_id: string; format?: DocumentFormat }
+  | { document: 'statement'; month: string; format?: DocumentFormat }
+
+const RECEIPT_TYPES = ['booking_fee', 'refund_to_passenger', 'refund_to_driver']
+// A booking fee stays paid after its booking is refunded
+const SETTLED_STATUSES = ['completed', 'refunded']
+
+const PAYMENT_LABELS: Record<string, string> = {
+  booking_fee: 'Booking payment',
+  refund_to_passenger: 'Refund',
+  refund_to_driver: 'Cancellation payment to driver',
+  driver_payout: 'Wallet payout',
+}
+
+// Every market is on East Africa Time, UTC+3 all year
+const EAST_AFRICA_OFFSET = '+03:00'
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    const body: DocumentRequest = await req.json()
+    const format: DocumentFormat = body.format === 'pdf' ? 'pdf' : 'html'
+
+    let doc: PrintableDocument
+    let filename: string
+    if (body.document === 'receipt') {
+      if (!body.payment_id) throw new Error('Missing required fields')
+      const receipt = await buildReceipt(supabaseAdmin, user.id, body.payment_id)
+      doc = receipt.doc
+      filename = `blueox-receipt-${receipt.reference}`
+    } else if (body.document === 'statement') {
+      if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(body.month || '')) {
+        throw new Error('Month must be in the form YYYY-MM')
+      }
+      doc = await buildStatement(supabaseAdmin, user.id, body.month)
+      filename = `blueox-statement-${body.month}`
+    } else {
+      throw new Error('Unknown document')
+    }
+
+    console.log('Payment document:', { document: body.document, format, user_id: user.id })
+
+    if (format === 'pdf') {
+      return new Response(renderPdf(doc), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `inline; filename="${filename}.pdf"`,
+        },
+        status: 200,
+      })
+    }
+
+    return new Response(renderHtml(doc), {
+      headers: { ...corsHeaders, 'Content-Type': 'text/html; charset=utf-8' },
+      status: 200,
+    })
+
+  } catch (error) {
+    console.error('Payment document error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
+
+async function buildReceipt(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  paymentId: string
+): Promise<{ doc: PrintableDocument; reference: string }> {
+  const { data: payment, error } = await supabaseAdmin
+    .from('payments')
+    .select(`
+      *,
+      user:users (full_name),
+      promo_code:promo_codes (code),
+      booking:bookings (
+        seats_booked,
+        booking_fee,
+        driver_fare,
+        ride:rides (
+          origin_name,
+          destination_name,
+          departure_time,
+          price,
+          driver:users (full_name)
+        )
+      )
+    `)
+    .eq('id', paymentId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Failed to load payment:', error)
+    throw new Error('Failed to load payment')
+  }
+
+  const settled = payment?.payment_type === 'booking_fee'
+    ? SETTLED_STATUSES.includes(payment.status)
+    : payment?.status === 'completed'
+  if (!payment || !RECEIPT_TYPES.includes(payment.payment_type) || !settled || !payment.booking) {
+    throw new Error('No receipt is available for this payment')
+  }
+
+  const booking = payment.booking
+  const ride = booking.ride
+  const reference: string = payment.pandora_reference || payment.id
+  const fare = payment.fare_amount || 0
+  const isBookingFee = payment.payment_type === 'booking_fee'
+  const formatMoney = (amount: number) => formatAmount(amount, payment.currency)
+  // The driver's share not paid in the app is paid to them in cash
+  const cashDue = Math.max(ride.price * booking.seats_booked - booking.booking_fee - booking.driver_fare, 0)
+
+  const details: [string, string][] = [
+    ['Receipt no.', reference],
+    [isBookingFee ? 'Paid on' : 'Refunded on', formatDocumentDate(payment.updated_at)],
+    [isBookingFee ? 'Paid by' : 'Paid to', payment.user?.full_name || ''],
+    ['Mobile money', payment.phone_number],
+  ]
+
+  const trip: DocumentSection = {
+    heading: 'Trip',
+    rows: [
+      ['Route', `${ride.origin_name} → ${ride.destination_name}`],
+      ['Departure', formatDocumentDate(ride.departure_time)],
+      ['Driver', ride.driver?.full_name || ''],
+      ['Seats', String(booking.seats_booked)],
+      ['Fare per seat', formatMoney(ride.price)],
+    ],
+  }
+
+  let money: DocumentSection
+  const notes: string[] = []
+  if (isBookingFee) {
+    const rows = [[`Booking fee (${booking.seats_booked} seat(s))`, formatMoney(payment.amount - fare + (payment.discount_amount || 0))]]
+    if (payment.discount_amount > 0) {
+      rows.push([`Promo code ${payment.promo_code?.code || ''}`.trim(), formatMoney(-payment.discount_amount)])
+    }
+    if (fare > 0) {
+      rows.push(["Driver's fare, paid in the app", formatMoney(fare)])
+    }
+    money = { heading: 'Payment', rows, total: ['Total paid', formatMoney(payment.amount)] }
+    notes.push(cashDue > 0
+      ? `Cash balance due to the driver after the ride: ${formatMoney(cashDue)}.`
+      : 'Nothing is due to the driver in cash; the full fare was paid in the app.')
+  } else {
+    const rows = [['Booking fee refunded', formatMoney(payment.amount - fare)]]
+    if (fare > 0) {
+      rows.push(["Driver's fare returned", formatMoney(fare)])
+    }
+    money = { heading: 'Refund', rows, total: ['Total refunded', formatMoney(payment.amount)] }
+    notes.push('This booking was cancelled; nothing is due to the driver.')
+  }
+  notes.push(`Blue Ox payment reference ${reference}. Keep this receipt as proof of payment.`)
+
+  return {
+    doc: {
+      title: isBookingFee ? 'Payment receipt' : 'Refund receipt',
+      details,
+      sections: [trip, money],
+      notes,
+    },
+    reference,
+  }
+}
+
+async function buildStatement(
+  supabaseAdmin: SupabaseClient,
+  userId: string,
+  month: string
+): Promise<PrintableDocument> {
+  const from = new Date(`${month}-01T00:00:00${EAST_AFRICA_OFFSET}`)
+  const [year, monthIndex] = month.split('-').map(Number)
+  const next = monthIndex === 12 ? `${year + 1}-01` : `${year}-${String(monthIndex + 1).padStart(2, '0')}`
+  const to = new Date(`${next}-01T00:00:00${EAST_AFRICA_OFFSET}`)
+
+  const [profileResult, paymentsResult, accountResult] = await Promise.all([
+    supabaseAdmin.from('users').select('full_name, email').eq('id', userId).single(),
+    supabaseAdmin
+      .from('payments')
+      .select('id, payment_type, status, amount, currency, pandora_reference, updated_at, booking:bookings (ride:rides (origin_name, destination_name))')
+      .eq('user_id', userId)
+      .in('status', SETTLED_STATUSES)
+      .gte('updated_at', from.toISOString())
+      .lt('updated_at', to.toISOString())
+      .order('updated_at', { ascending: true }),
+    supabaseAdmin
+      .from('ledger_accounts')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('account_type', 'driver')
+      .maybeSingle(),
+  ])
+
+  if (profileResult.error || paymentsResult.error || accountResult.error) {
+    console.error('Failed to load statement:', profileResult.error || paymentsResult.error || accountResult.error)
+    throw new Error('Failed to load statement')
+  }
+
+  // Money out of the user's mobile money is negative, money in positive;
+  // totalled per currency
+  const totals: Record<string, { paid: number; received: number }> = {}
+  const paymentRows = (paymentsResult.data || []).map((payment) => {
+    const amount = payment.payment_type === 'booking_fee' ? -payment.amount : payment.amount
+    const total = totals[payment.currency] ??= { paid: 0, received: 0 }
+    if (amount < 0) total.paid -= amount
+    else total.received += amount
+    const ride = payment.booking?.ride
+    const route = ride ? ` ${ride.origin_name} → ${ride.destination_name}` : ''
+    return [
+      formatDocumentDate(payment.updated_at, false),
+      `${PAYMENT_LABELS[payment.payment_type] || payment.payment_type}${route} (${payment.pandora_reference || payment.id})`,
+      formatAmount(amount, payment.currency),
+    ]
+  })
+
+  const sections: DocumentSection[] = [{
+    heading: 'Mobile money payments',
+    rows: paymentRows.length > 0 ? paymentRows : [['No payments this month', '']],
+    total: ['Paid out / received', Object.entries(totals)
+      .map(([currency, { paid, received }]) => `${formatAmount(paid, currency)} / ${formatAmount(received, currency)}`)
+      .join(', ') || `${formatAmount(0)} / ${formatAmount(0)}`],
+  }]
+
+  if (accountResult.data) {
+    sections.push(await walletSection(supabaseAdmin, accountResult.data.id, from, to))
+  }
+
+  const monthName = new Intl.DateTimeFormat('en-GB', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(`${month}-15T00:00:00Z`))
+
+  return {
+    title: `Statement for ${monthName}`,
+    details: [
+      ['Name', profileResult.data.full_name],
+      ['Email', profileResult.data.email],
+      ['Period', `${formatDocumentDate(from, false)} - ${formatDocumentDate(new Date(to.getTime() - 1), false)}`],
+      ['Issued', formatDocumentDate(new Date())],
+    ],
+    sections,
+    notes: [
+      "Each payment is in the currency of its ride's country. Payments are listed on the day they settled (East Africa Time).",
+      'Cash paid directly to drivers is not handled by Blue Ox and is not shown.',
+    ],
+  }
+}
+
+// The driver's wallet: what Blue Ox owes them, from the ledger (a credit to the
+// driver account is money they are owed). The wallet is in UGX only
+// (markets-migration.sql).
+async function walletSection(
+  supabaseAdmin: SupabaseClient,
+  accountId: string,
+  from: Date,
+  to: Date
+): Promise<DocumentSection> {
+  const [openingResult, linesResult] = await Promise.all([
+    supabaseAdmin
+      .from('ledger_lines')
+      .select('amount, entry:ledger_entries!inner (currency)')
+      .eq('account_id', accountId)
+      .eq('entry.currency', 'UGX')
+      .lt('created_at', from.toISOString()),
+    supabaseAdmin
+      .from('ledger_lines')
+      .select('amount, created_at, entry:ledger_entries!inner (description, currency)')
+      .eq('account_id', accountId)
+      .eq('entry.currency', 'UGX')
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+      .order('created_at', { ascending: true }),
+  ])
+
+  if (openingResult.error || linesResult.error) {
+    console.error('Failed to load wallet lines:', openingResult.error || linesResult.error)
+    throw new Error('Failed to load statement')
+  }
+
+  const opening = -(openingResult.data || []).reduce((sum, line) => sum + line.amount, 0)
+  let closing = opening
+  const rows = (linesResult.data || []).map((line) => {
+    closing -= line.amount
+    return [formatDocumentDate(line.created_at, false), line.entry?.description || '', formatAmount(-line.amount)]
+  })
+
+  return {
+    heading: 'Driver wallet',
+    rows: [['', 'Opening balance', formatAmount(opening)], ...rows],
+    total: ['', 'Closing balance', formatAmount(closing)],
+  }
+}
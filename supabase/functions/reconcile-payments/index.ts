@@ -0,0 +1,205 @@
+// Blue Ox - Stuck Payment Reconciliation
+// Scheduled job (see supabase/payment-reconciliation-migration.sql) that finds
+// payments stuck in 'processing' because the provider never called back, and
+// booking fees and payouts left 'pending' because we stopped between recording
+// them and sending them, asks the provider for the transaction status and
+// applies the same transitions as the webhook. Pending refunds are left to
+// retry-refunds. A booking fee with no final status after
+// RECONCILE_ABANDON_MINUTES, or that the provider still doesn't know by then,
+// is expired, and so is a pending payout the provider doesn't know. Otherwise
+// a refund or payout is not expired: it may still be paid out, and expiring it
+// would send the money again, so admins are alerted instead and it keeps its
+// status. Every payment checked is recorded in payment_reconciliations.
+//
+// Only callable with the service role key.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { paymentProvidersByMarket, type ProviderTransactionStatus } from '../_shared/payment-providers/index.ts'
+import { marketForCurrency } from '../_shared/markets.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+import { applyPaymentOutcome } from '../_shared/payment-transitions.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Leave a payment alone this long after its last update, giving the webhook time to arrive
+const STALE_MINUTES = Number(Deno.env.get('RECONCILE_STALE_MINUTES') || 10)
+// Give up on a payment the provider still reports as unfinished this long after it was created
+const ABANDON_MINUTES = Number(Deno.env.get('RECONCILE_ABANDON_MINUTES') || 60)
+const BATCH_SIZE = 50
+
+const UNFINISHED_STATUSES: ProviderTransactionStatus[] = ['pending', 'processing']
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Any valid JWT passes the gateway, so check for the service role key itself
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const providerFor = paymentProvidersByMarket((provider) => withPaymentEvents(provider, supabaseAdmin))
+
+    const staleBefore = new Date(Date.now() - STALE_MINUTES * 60 * 1000).toISOString()
+
+    const { data: payments, error: paymentsError } = await supabaseAdmin
+      .from('payments')
+      .select('*')
+      .or('status.eq.processing,and(status.eq.pending,payment_type.in.(booking_fee,driver_payout))')
+      .lt('updated_at', staleBefore)
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (paymentsError) {
+      console.error('Failed to load stuck payments:', paymentsError)
+      throw new Error('Failed to load stuck payments')
+    }
+
+    const runId = crypto.randomUUID()
+    const actions: Record<string, number> = {}
+
+    for (const payment of payments || []) {
+      let providerStatus: ProviderTransactionStatus | null = null
+      let action: string
+      let message: string | null = null
+
+      try {
+        if (!payment.pandora_reference) {
+          throw new Error('Payment has no provider reference')
+        }
+
+        const provider = providerFor(marketForCurrency(payment.currency).code)
+        const transaction = await provider.queryStatus(payment.pandora_reference, payment.pandora_transaction_id)
+        const ageMinutes = (Date.now() - new Date(payment.created_at).getTime()) / 60000
+
+        // The provider has no such transaction, e.g. we stopped before sending it.
+        // Wait out the same cutoff in case it isn't listed yet. A payout still
+        // 'pending' was then never sent, so it can fail like a booking fee expires
+        // and the wallet keeps the money.
+        const unknown = !transaction.success && !!transaction.unknownReference
+
+        if (!transaction.success && !unknown) {
+          // Provider unreachable - try again next run; it does not mean the payment is abandoned
+          action = 'provider_unavailable'
+          message = transaction.message
+        } else {
+          providerStatus = unknown ? null : transaction.status
+          message = unknown ? `${provider.name} has no transaction with this reference` : transaction.message
+
+          const abandoned = (unknown || UNFINISHED_STATUSES.includes(transaction.status)) && ageMinutes >= ABANDON_MINUTES
+          if (abandoned) {
+            message = unknown
+              ? `${provider.name} still has no transaction with this reference after ${Math.round(ageMinutes)} minutes`
+              : `No final status from ${provider.name} after ${Math.round(ageMinutes)} minutes`
+          }
+
+          if (unknown && !abandoned) {
+            action = 'unknown_reference'
+          } else if (abandoned && payment.payment_type !== 'booking_fee' && !(unknown && payment.status === 'pending')) {
+            await alertStuckTransfer(supabaseAdmin, payment, message ?? '')
+            action = 'stuck_transfer_alerted'
+          } else {
+            action = await applyPaymentOutcome(supabaseAdmin, payment, {
+              status: abandoned ? 'expired' : transaction.status,
+              message,
+              network: transaction.network,
+              transactionId: transaction.transactionId || payment.pandora_transaction_id,
+            })
+          }
+        }
+
+        // Count the check against the payment; failed transitions already did
+        if (['provider_unavailable', 'unknown_reference', 'still_processing', 'stuck_transfer_alerted'].includes(action)) {
+          await supabaseAdmin
+            .from('payments')
+            .update({ retry_count: payment.retry_count + 1 })
+            .eq('id', payment.id)
+        }
+      } catch (error) {
+        console.error('Failed to reconcile payment:', { payment_id: payment.id, error })
+        action = 'error'
+        message = error.message
+      }
+
+      actions[action] = (actions[action] || 0) + 1
+
+      const { error: logError } = await supabaseAdmin
+        .from('payment_reconciliations')
+        .insert({
+          run_id: runId,
+          payment_id: payment.id,
+          previous_status: payment.status,
+          provider_status: providerStatus,
+          action,
+          message,
+        })
+
+      if (logError) {
+        console.error('Failed to record reconciliation:', logError)
+      }
+    }
+
+    console.log('Payment reconciliation finished:', {
+      run_id: runId,
+      checked: payments?.length || 0,
+      actions,
+    })
+
+    return new Response(
+      JSON.stringify({ success: true, run_id: runId, checked: payments?.length || 0, actions }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Payment reconciliation error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
+
+// One open alert per stuck refund or payout, however many runs find it
+async function alertStuckTransfer(
+  supabaseAdmin: SupabaseClient,
+  payment: { id: string; payment_type: string; status: string; amount: number; currency: string; pandora_reference: string },
+  message: string
+) {
+  const { data: existing } = await supabaseAdmin
+    .from('admin_alerts')
+    .select('id')
+    .eq('kind', 'transfer_stuck')
+    .eq('payment_id', payment.id)
+    .is('resolved_at', null)
+    .limit(1)
+
+  if (existing && existing.length > 0) return
+
+  const { error } = await supabaseAdmin
+    .from('admin_alerts')
+    .insert({
+      kind: 'transfer_stuck',
+      payment_id: payment.id,
+      message: `${payment.payment_type} ${payment.pandora_reference} of ${payment.currency} ${payment.amount} is still ${payment.status}: ${message}. ` +
+        'Check it with the provider before resending or returning the money.',
+    })
+
+  if (error) {
+    console.error('Failed to raise stuck transfer alert:', { payment_id: payment.id, error })
+    throw new Error('Failed to raise stuck transfer alert')
+  }
+}
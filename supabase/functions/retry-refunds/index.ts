@@ -0,0 +1,235 @@
+// Blue Ox - Refund Retry Queue
+// Scheduled job (see supabase/refund-retry-queue-migration.sql) that re-sends
+// refunds whose disbursement failed once their next_retry_at has passed, and
+// refunds left 'pending' by a cancellation that stopped before sending them or
+// by a send the provider never answered. Each is checked with the provider
+// first, so a refund that did go out is not sent again.
+// Backoff, the attempt limit and dead-lettering are handled by the
+// payments_schedule_refund_retry trigger; this job also delivers admin alerts
+// to ADMIN_ALERT_WEBHOOK_URL (a Slack-compatible incoming webhook).
+//
+// Only callable with the service role key.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { paymentProvidersByMarket, type PaymentProvider, type ProviderTransaction } from '../_shared/payment-providers/index.ts'
+import { marketForCurrency } from '../_shared/markets.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+import { disburseQueuedRefund } from '../_shared/refunds.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const REFUND_TYPES = ['refund_to_passenger', 'refund_to_driver']
+const REFUND_COLUMNS = 'id, booking_id, amount, currency, phone_number, pandora_reference, previous_references, retry_count, status, booking:bookings(status)'
+// What the provider reports for an attempt that definitely didn't pay out
+const FAILED_STATUSES = ['failed', 'cancelled', 'expired']
+// A refund still 'pending' this long after it was queued was never sent
+const STRANDED_MINUTES = 5
+const BATCH_SIZE = 25
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    // Any valid JWT passes the gateway, so check for the service role key itself
+    if (req.headers.get('Authorization') !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Unauthorized' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 401 }
+      )
+    }
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const providerFor = paymentProvidersByMarket((provider) => withPaymentEvents(provider, supabaseAdmin))
+    const now = new Date()
+
+    const { data: due, error: dueError } = await supabaseAdmin
+      .from('payments')
+      .select(REFUND_COLUMNS)
+      .in('payment_type', REFUND_TYPES)
+      .eq('status', 'failed')
+      .eq('needs_retry', true)
+      .lte('next_retry_at', now.toISOString())
+      .order('next_retry_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    const { data: stranded, error: strandedError } = await supabaseAdmin
+      .from('payments')
+      .select(REFUND_COLUMNS)
+      .in('payment_type', REFUND_TYPES)
+      .eq('status', 'pending')
+      .lt('updated_at', new Date(now.getTime() - STRANDED_MINUTES * 60 * 1000).toISOString())
+      .order('updated_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (dueError || strandedError) {
+      console.error('Failed to load refunds to retry:', dueError || strandedError)
+      throw new Error('Failed to load refunds to retry')
+    }
+
+    const summary = { retried: 0, initiated: 0, failed: 0, already_sent: 0, skipped: 0 }
+
+    for (const refund of [...(due || []), ...(stranded || [])]) {
+      // A pending refund only counts once its booking is actually cancelled
+      if (!refund.booking?.status?.startsWith('cancelled')) {
+        summary.skipped++
+        continue
+      }
+
+      // Left for a later run while the market has no provider
+      let provider: PaymentProvider
+      try {
+        provider = providerFor(marketForCurrency(refund.currency).code)
+      } catch (error) {
+        console.warn('Refund not retried:', { payment_id: refund.id, currency: refund.currency, reason: error.message })
+        summary.skipped++
+        continue
+      }
+
+      // The last attempt may have reached the provider even if we recorded it as
+      // failed or never heard back; ask before sending again so it isn't paid twice
+      let existing: ProviderTransaction
+      try {
+        existing = await provider.queryStatus(refund.pandora_reference)
+      } catch (error) {
+        console.warn('Refund not retried, last attempt unconfirmed:', { payment_id: refund.id, reason: error.message })
+        summary.skipped++
+        continue
+      }
+
+      if (existing.success && !FAILED_STATUSES.includes(existing.status)) {
+        await supabaseAdmin
+          .from('payments')
+          .update({ status: 'processing', pandora_transaction_id: existing.transactionId, needs_retry: false, next_retry_at: null })
+          .eq('id', refund.id)
+          .eq('status', refund.status)
+          .eq('pandora_reference', refund.pandora_reference)
+        summary.already_sent++
+        continue
+      }
+
+      // No answer either way; ask again on the next run
+      if (!existing.success && !existing.unknownReference) {
+        console.warn('Refund not retried, last attempt unconfirmed:', {
+          payment_id: refund.id,
+          reference: refund.pandora_reference,
+          reason: existing.message,
+        })
+        summary.skipped++
+        continue
+      }
+
+      let reference = refund.pandora_reference
+      let previousReferences: string[] = refund.previous_references || []
+
+      if (!existing.unknownReference) {
+        // The provider has the last attempt as failed, so it needs a fresh reference.
+        // Keep the old one so its late callback still finds this payment.
+        reference = `BLUEOX-REFUND-${Date.now()}-${refund.booking_id.substring(0, 8)}-R${refund.retry_count}`
+        previousReferences = [...previousReferences, refund.pandora_reference]
+      }
+
+      // Claim the refund; a concurrent run that got there first changes status or reference
+      const { data: claimed } = await supabaseAdmin
+        .from('payments')
+        .update({
+          status: 'pending',
+          pandora_reference: reference,
+          previous_references: previousReferences,
+          needs_retry: false,
+          next_retry_at: null,
+        })
+        .eq('id', refund.id)
+        .eq('status', refund.status)
+        .eq('pandora_reference', refund.pandora_reference)
+        .select('id')
+
+      if (!claimed || claimed.length === 0) {
+        summary.skipped++
+        continue
+      }
+
+      summary.retried++
+      const disbursement = await disburseQueuedRefund(
+        supabaseAdmin,
+        () => provider,
+        { ...refund, pandora_reference: reference },
+        supabaseUrl
+      )
+
+      if (disbursement.initiated) {
+        summary.initiated++
+      } else {
+        summary.failed++
+      }
+    }
+
+    const alertsSent = await deliverAdminAlerts(supabaseAdmin)
+
+    console.log('Refund retry run finished:', { ...summary, alerts_sent: alertsSent })
+
+    return new Response(
+      JSON.stringify({ success: true, ...summary, alerts_sent: alertsSent }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Refund retry error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    )
+  }
+})
+
+// Send new dead-letter and bad-number alerts to the admin webhook (or the logs if none is set)
+async function deliverAdminAlerts(supabaseAdmin: SupabaseClient): Promise<number> {
+  const { data: alerts, error } = await supabaseAdmin
+    .from('admin_alerts')
+    .select('id, kind, message')
+    .is('notified_at', null)
+    .order('created_at', { ascending: true })
+    .limit(50)
+
+  if (error || !alerts || alerts.length === 0) {
+    if (error) console.error('Failed to load admin alerts:', error)
+    return 0
+  }
+
+  const webhookUrl = Deno.env.get('ADMIN_ALERT_WEBHOOK_URL')
+
+  if (webhookUrl) {
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        text: `Blue Ox payment alerts:\n${alerts.map((alert) => `• [${alert.kind}] ${alert.message}`).join('\n')}`,
+      }),
+    })
+
+    if (!response.ok) {
+      console.error('Failed to deliver admin alerts:', response.status)
+      return 0
+    }
+  } else {
+    for (const alert of alerts) {
+      console.warn('Admin alert:', alert)
+    }
+  }
+
+  await supabaseAdmin
+    .from('admin_alerts')
+    .update({ notified_at: new Date().toISOString() })
+    .in('id', alerts.map((alert) => alert.id))
+
+  return alerts.length
+}
@@ -0,0 +1,188 @@
+// Blue Ox - Review Payout Edge Function
+// Lets an admin approve or reject a driver's payout request
+// (supabase/driver-wallet-migration.sql). Approving creates the payout payment
+// and sends it to the driver's verified number; the webhook settles it and
+// the payout request follows the payment. A payout that fails leaves the money
+// in the wallet for the driver to request again.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPaymentProvider, paymentCallbackUrl } from '../_shared/payment-providers/index.ts'
+import { marketForCurrency } from '../_shared/markets.ts'
+import { withPaymentEvents } from '../_shared/payment-events.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReviewPayoutRequest {
+  payout_id: string
+  approve: boolean
+  reason?: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization')
+    if (!authHeader) {
+      throw new Error('Missing authorization header')
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+    const supabaseClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authHeader } }
+    })
+
+    // Get current user
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser()
+    if (userError || !user) {
+      throw new Error('Unauthorized')
+    }
+
+    const { data: reviewer } = await supabaseAdmin
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single()
+
+    if (reviewer?.role !== 'admin') {
+      throw new Error('Only admins can review payouts')
+    }
+
+    // Payouts go through the provider of the wallets' currency
+    const payoutMarket = marketForCurrency('UGX').code
+    const provider = withPaymentEvents(getPaymentProvider(payoutMarket), supabaseAdmin)
+
+    const { payout_id, approve, reason }: ReviewPayoutRequest = await req.json()
+
+    if (!payout_id || typeof approve !== 'boolean') {
+      throw new Error('Missing required fields')
+    }
+
+    const { data: result, error: reviewError } = await supabaseAdmin.rpc('review_payout', {
+      p_payout_id: payout_id,
+      p_reviewer_id: user.id,
+      p_approve: approve,
+      p_reason: reason || null,
+    })
+
+    if (reviewError) {
+      console.error('Review payout error:', reviewError)
+      throw new Error('Failed to review payout')
+    }
+
+    if (!result?.success) {
+      return new Response(
+        JSON.stringify({ success: false, error_code: result?.error_code, error: result?.message }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    if (!approve) {
+      return new Response(
+        JSON.stringify({ success: true, message: 'Payout request rejected.' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    const { data: payment, error: paymentError } = await supabaseAdmin
+      .from('payments')
+      .select('id, amount, phone_number, pandora_reference')
+      .eq('id', result.payment_id)
+      .single()
+
+    if (paymentError || !payment) {
+      throw new Error('Payout payment not found')
+    }
+
+    console.log('Initiating payout:', {
+      provider: provider.name,
+      reference: payment.pandora_reference,
+      amount: payment.amount,
+    })
+
+    let failure: string | null = null
+    let transactionId: string | null = null
+    // Set when the call itself failed (e.g. a timeout): the provider may still
+    // have accepted the payout, so it stays 'pending' and reconcile-payments
+    // asks the provider and settles it
+    let unconfirmed: string | null = null
+
+    try {
+      const disbursement = await provider.disburse({
+        reference: payment.pandora_reference,
+        amount: payment.amount,
+        currency: 'UGX', // Wallets are in UGX only (markets-migration.sql)
+        phoneNumber: payment.phone_number,
+        narrative: 'Blue Ox driver payout',
+        callbackUrl: paymentCallbackUrl(supabaseUrl, payoutMarket),
+      })
+
+      if (disbursement.success) {
+        transactionId = disbursement.transactionId
+      } else if (disbursement.unanswered) {
+        unconfirmed = disbursement.message || 'No answer from the payment provider'
+      } else {
+        failure = disbursement.message || 'Payout initiation failed'
+      }
+    } catch (error) {
+      unconfirmed = error.message || 'No answer from the payment provider'
+    }
+
+    if (unconfirmed) {
+      console.error('Payout not confirmed by the provider, left for reconciliation:', { payout_id, message: unconfirmed })
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: `The payout was submitted but not confirmed (${unconfirmed}). It will be checked with the provider and settled automatically.`,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+      )
+    }
+
+    // payments_sync_payout_request moves the payout request along with the payment
+    const { error: updateError } = await supabaseAdmin
+      .from('payments')
+      .update(failure
+        ? { status: 'failed', error_message: failure }
+        : { status: 'processing', pandora_transaction_id: transactionId })
+      .eq('id', payment.id)
+
+    if (updateError) {
+      // Still 'pending': reconcile-payments finds it and applies the provider's status
+      console.error('Failed to update payout payment:', { payout_id, error: updateError })
+    }
+
+    if (failure) {
+      console.error('Payout initiation failed:', { payout_id, message: failure })
+      return new Response(
+        JSON.stringify({ success: false, error: `Payout could not be sent: ${failure}` }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+      )
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Payout of UGX ${payment.amount.toLocaleString()} sent to ${payment.phone_number}.`,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 200 }
+    )
+
+  } catch (error) {
+    console.error('Review payout error:', error)
+    return new Response(
+      JSON.stringify({ success: false, error: error.message }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 400 }
+    )
+  }
+})
@@ -0,0 +1,47 @@
+-- Idempotent Payments Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after refund-retry-queue-migration.sql)
+
+-- =====================
+-- IDEMPOTENCY KEYS
+-- =====================
+-- The app sends one key per tap of "Pay"; initiate-payment replays the stored
+-- payment for a key it has already seen instead of charging again
+
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_idempotency_key
+  ON public.payments(user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- =====================
+-- ONE ACTIVE BOOKING FEE PER BOOKING
+-- =====================
+-- A booking can have any number of failed attempts but only one booking fee
+-- that is waiting, in flight or paid. Concurrent initiate-payment calls race on
+-- this index, so only one of them ever reaches the provider.
+
+DO $$
+DECLARE
+  duplicate_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO duplicate_count
+  FROM (
+    SELECT booking_id
+    FROM public.payments
+    WHERE payment_type = 'booking_fee'
+      AND status IN ('pending', 'processing', 'completed')
+    GROUP BY booking_id
+    HAVING COUNT(*) > 1
+  ) duplicates;
+
+  IF duplicate_count > 0 THEN
+    RAISE EXCEPTION '% booking(s) already have more than one active booking fee; resolve them before running this migration', duplicate_count;
+  END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_one_active_booking_fee
+  ON public.payments(booking_id)
+  WHERE payment_type = 'booking_fee' AND status IN ('pending', 'processing', 'completed');
+
+-- Payments are only created by Edge Functions; a client-inserted row would bypass the checks above
+DROP POLICY IF EXISTS "Users can initiate own payments" ON public.payments;
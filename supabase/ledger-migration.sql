@@ -0,0 +1,331 @@
+-- Ledger Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after idempotent-payments-migration.sql)
+
+-- =====================
+-- ACCOUNTS
+-- =====================
+-- Double-entry ledger of every movement of money through Blue Ox.
+-- - provider_cash: money the platform holds at the mobile money provider
+-- - platform_revenue: booking fees the platform has earned
+-- - driver / passenger: what the platform owes that user
+-- Each entry has lines that sum to zero; a positive amount is a debit and a
+-- negative amount a credit.
+
+CREATE TABLE IF NOT EXISTS public.ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  account_type TEXT NOT NULL CHECK (account_type IN ('provider_cash', 'platform_revenue', 'driver', 'passenger')),
+  user_id UUID REFERENCES public.users(id) ON DELETE RESTRICT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT ledger_account_owner CHECK ((account_type IN ('driver', 'passenger')) = (user_id IS NOT NULL)),
+  CONSTRAINT unique_ledger_account UNIQUE NULLS NOT DISTINCT (account_type, user_id)
+);
+
+-- =====================
+-- ENTRIES
+-- =====================
+-- entry_type:
+-- - booking_fee: a passenger's booking fee arrived (provider_cash <- platform_revenue)
+-- - refund / forfeiture: a cancellation assigned part of a fee to the passenger
+--   or the driver (platform_revenue -> passenger / driver)
+-- - refund_paid / payout: that money was sent to them (passenger / driver -> provider_cash)
+-- - refund_reversed / forfeiture_reversed: a queued refund was discarded before it was sent
+-- payment_id has no foreign key: entries outlive a discarded refund payment.
+
+CREATE TABLE IF NOT EXISTS public.ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_type TEXT NOT NULL CHECK (entry_type IN (
+    'booking_fee', 'refund', 'forfeiture', 'refund_paid', 'payout', 'refund_reversed', 'forfeiture_reversed'
+  )),
+  payment_id UUID,
+  booking_id UUID,
+  description TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Each payment event is posted at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_entries_payment_event
+  ON public.ledger_entries(payment_id, entry_type);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_created ON public.ledger_entries(created_at);
+
+CREATE TABLE IF NOT EXISTS public.ledger_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  entry_id UUID NOT NULL REFERENCES public.ledger_entries(id) ON DELETE RESTRICT,
+  account_id UUID NOT NULL REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT,
+  amount INTEGER NOT NULL CHECK (amount <> 0), -- UGX; debit > 0, credit < 0
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_entry ON public.ledger_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_lines_account ON public.ledger_lines(account_id, created_at);
+
+-- Service role only for now
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_lines ENABLE ROW LEVEL SECURITY;
+
+-- =====================
+-- APPEND-ONLY AND BALANCED
+-- =====================
+
+CREATE OR REPLACE FUNCTION public.prevent_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'ledger_append_only: % cannot be updated or deleted; post a reversing entry instead', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_append_only ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_changes();
+
+DROP TRIGGER IF EXISTS ledger_lines_append_only ON public.ledger_lines;
+CREATE TRIGGER ledger_lines_append_only
+  BEFORE UPDATE OR DELETE ON public.ledger_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_changes();
+
+-- Checked at commit, once all lines of the entry are in
+CREATE OR REPLACE FUNCTION public.check_ledger_entry_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_total BIGINT;
+BEGIN
+  SELECT SUM(amount) INTO v_total
+  FROM public.ledger_lines
+  WHERE entry_id = NEW.entry_id;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'ledger_unbalanced: entry % is off by %', NEW.entry_id, v_total;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entry_balanced ON public.ledger_lines;
+CREATE CONSTRAINT TRIGGER ledger_entry_balanced
+  AFTER INSERT ON public.ledger_lines
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_ledger_entry_balanced();
+
+-- =====================
+-- POSTING
+-- =====================
+
+-- The account of the given type (and user), created on first use
+CREATE OR REPLACE FUNCTION public.ledger_account(p_account_type TEXT, p_user_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  INSERT INTO public.ledger_accounts (account_type, user_id)
+  VALUES (p_account_type, p_user_id)
+  ON CONFLICT ON CONSTRAINT unique_ledger_account DO NOTHING;
+
+  SELECT id INTO v_account_id
+  FROM public.ledger_accounts
+  WHERE account_type = p_account_type
+    AND user_id IS NOT DISTINCT FROM p_user_id;
+
+  RETURN v_account_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Move p_amount from one account to another as a single two-line entry.
+-- Returns NULL if this payment event was already posted.
+CREATE OR REPLACE FUNCTION public.post_ledger_entry(
+  p_entry_type TEXT,
+  p_debit_account UUID,
+  p_credit_account UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_payment_id UUID DEFAULT NULL,
+  p_booking_id UUID DEFAULT NULL,
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS UUID AS $$
+DECLARE
+  v_entry_id UUID;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'invalid_ledger_amount: %', p_amount;
+  END IF;
+
+  INSERT INTO public.ledger_entries (entry_type, payment_id, booking_id, description, created_at)
+  VALUES (p_entry_type, p_payment_id, p_booking_id, p_description, p_at)
+  ON CONFLICT (payment_id, entry_type) DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  IF v_entry_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.ledger_lines (entry_id, account_id, amount, created_at)
+  VALUES
+    (v_entry_id, p_debit_account, p_amount, p_at),
+    (v_entry_id, p_credit_account, -p_amount, p_at);
+
+  RETURN v_entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.ledger_account(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_ledger_entry(TEXT, UUID, UUID, INTEGER, TEXT, UUID, UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- =====================
+-- POST ON EVERY PAYMENT EVENT
+-- =====================
+-- Edge Functions never write to the ledger themselves; whatever path moves a
+-- payment (webhook, reconciliation, cancellation, retries) the entry follows.
+
+CREATE OR REPLACE FUNCTION public.post_payment_to_ledger(
+  p_payment public.payments,
+  p_event TEXT, -- 'completed', 'queued' or 'discarded'
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+DECLARE
+  v_cash UUID := public.ledger_account('provider_cash');
+  v_revenue UUID := public.ledger_account('platform_revenue');
+  v_recipient UUID;
+  v_to_driver BOOLEAN := p_payment.payment_type = 'refund_to_driver';
+BEGIN
+  IF p_payment.payment_type = 'booking_fee' THEN
+    IF p_event = 'completed' THEN
+      PERFORM public.post_ledger_entry('booking_fee', v_cash, v_revenue, p_payment.amount,
+        'Booking fee ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+    RETURN;
+  END IF;
+
+  v_recipient := public.ledger_account(CASE WHEN v_to_driver THEN 'driver' ELSE 'passenger' END, p_payment.user_id);
+
+  IF p_event = 'queued' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'forfeiture' ELSE 'refund' END,
+      v_revenue, v_recipient, p_payment.amount,
+      CASE WHEN v_to_driver THEN 'Cancellation fee owed to driver' ELSE 'Refund owed to passenger' END,
+      p_payment.id, p_payment.booking_id, p_at);
+  ELSIF p_event = 'completed' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'payout' ELSE 'refund_paid' END,
+      v_recipient, v_cash, p_payment.amount,
+      'Sent ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+  ELSIF p_event = 'discarded' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'forfeiture_reversed' ELSE 'refund_reversed' END,
+      v_recipient, v_revenue, p_payment.amount,
+      'Queued refund discarded before it was sent', p_payment.id, p_payment.booking_id, p_at);
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_payment_to_ledger(public.payments, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_payment_in_ledger()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.payment_type != 'booking_fee' AND OLD.status != 'completed' THEN
+      PERFORM public.post_payment_to_ledger(OLD, 'discarded');
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.payment_type != 'booking_fee' THEN
+    PERFORM public.post_payment_to_ledger(NEW, 'queued');
+  END IF;
+
+  IF NEW.status = 'completed' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed') THEN
+    PERFORM public.post_payment_to_ledger(NEW, 'completed');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_record_in_ledger ON public.payments;
+CREATE TRIGGER payments_record_in_ledger
+  AFTER INSERT OR UPDATE OF status OR DELETE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_payment_in_ledger();
+
+-- =====================
+-- BACKFILL
+-- =====================
+-- Post the history that happened before the ledger existed, in order
+
+DO $$
+DECLARE
+  v_payment public.payments;
+BEGIN
+  FOR v_payment IN
+    SELECT * FROM public.payments ORDER BY created_at
+  LOOP
+    IF v_payment.payment_type != 'booking_fee' THEN
+      PERFORM public.post_payment_to_ledger(v_payment, 'queued', v_payment.created_at);
+    END IF;
+
+    -- A refunded booking fee was collected before it was refunded
+    IF v_payment.status = 'completed'
+       OR (v_payment.payment_type = 'booking_fee' AND v_payment.status = 'refunded') THEN
+      PERFORM public.post_payment_to_ledger(v_payment, 'completed', v_payment.updated_at);
+    END IF;
+  END LOOP;
+END $$;
+
+-- =====================
+-- BALANCES
+-- =====================
+-- balance is what the account holds in its own terms: cash held, revenue
+-- earned, or what the platform owes the driver / passenger
+
+CREATE OR REPLACE VIEW public.ledger_balances AS
+SELECT
+  a.id as account_id,
+  a.account_type,
+  a.user_id,
+  u.full_name,
+  COALESCE(
+    CASE WHEN a.account_type = 'provider_cash' THEN SUM(l.amount) ELSE -SUM(l.amount) END,
+    0
+  )::INTEGER as balance,
+  MAX(l.created_at) as last_entry_at
+FROM public.ledger_accounts a
+LEFT JOIN public.ledger_lines l ON l.account_id = a.id
+LEFT JOIN public.users u ON u.id = a.user_id
+GROUP BY a.id, a.account_type, a.user_id, u.full_name;
+
+REVOKE ALL ON public.ledger_balances FROM anon, authenticated;
+
+-- =====================
+-- RECONCILIATION
+-- =====================
+-- Every payment that moved money at the provider, next to what the ledger
+-- recorded for it. ledger-report compares these rows with the provider.
+-- ledger_amount is money into provider_cash (negative for money out).
+
+CREATE OR REPLACE VIEW public.ledger_cash_movements AS
+SELECT
+  p.id as payment_id,
+  p.payment_type,
+  p.status,
+  p.amount,
+  p.pandora_reference,
+  p.pandora_transaction_id,
+  p.created_at,
+  p.updated_at,
+  COALESCE(SUM(l.amount), 0)::INTEGER as ledger_amount
+FROM public.payments p
+LEFT JOIN public.ledger_entries e
+  ON e.payment_id = p.id AND e.entry_type IN ('booking_fee', 'refund_paid', 'payout')
+LEFT JOIN (
+  public.ledger_lines l
+  JOIN public.ledger_accounts a ON a.id = l.account_id AND a.account_type = 'provider_cash'
+) ON l.entry_id = e.id
+GROUP BY p.id;
+
+REVOKE ALL ON public.ledger_cash_movements FROM anon, authenticated;
@@ -0,0 +1,571 @@
+-- Markets Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after mobile-networks-migration.sql)
+
+-- =====================
+-- MARKETS
+-- =====================
+-- The countries Blue Ox runs in. The app and the Edge Functions have the full
+-- configuration in supabase/functions/_shared/markets.ts; this is its copy of
+-- what the database needs, keep them in step.
+
+CREATE TABLE IF NOT EXISTS public.markets (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  currency TEXT NOT NULL UNIQUE,
+  dial_code TEXT NOT NULL UNIQUE
+);
+
+INSERT INTO public.markets (code, name, currency, dial_code) VALUES
+  ('UG', 'Uganda', 'UGX', '256'),
+  ('KE', 'Kenya', 'KES', '254'),
+  ('TZ', 'Tanzania', 'TZS', '255')
+ON CONFLICT (code) DO UPDATE
+SET name = EXCLUDED.name, currency = EXCLUDED.currency, dial_code = EXCLUDED.dial_code;
+
+ALTER TABLE public.markets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Markets are viewable by everyone" ON public.markets;
+CREATE POLICY "Markets are viewable by everyone"
+  ON public.markets FOR SELECT
+  USING (true);
+
+-- =====================
+-- RIDES
+-- =====================
+-- A ride belongs to the market it departs from: its price is in that market's
+-- currency and its passengers pay through that market's provider. Rides posted
+-- before this migration are in Uganda.
+
+ALTER TABLE public.rides
+ADD COLUMN IF NOT EXISTS market TEXT NOT NULL DEFAULT 'UG' REFERENCES public.markets(code);
+
+CREATE INDEX IF NOT EXISTS idx_rides_market ON public.rides(market);
+
+-- A driver's share of a full fare goes to their wallet, which is paid out in
+-- Uganda only for now (see DRIVER WALLET below)
+ALTER TABLE public.rides DROP CONSTRAINT IF EXISTS rides_full_fare_market;
+ALTER TABLE public.rides ADD CONSTRAINT rides_full_fare_market
+  CHECK (market = 'UG' OR NOT full_fare_in_app);
+
+-- r.* is expanded when a view is created, so recreate it to pick up the column
+DROP VIEW IF EXISTS public.rides_with_driver;
+CREATE OR REPLACE VIEW public.rides_with_driver AS
+SELECT
+  r.*,
+  u.full_name as driver_name,
+  u.avatar_url as driver_avatar,
+  u.average_rating as driver_rating,
+  u.total_rides as driver_total_rides,
+  u.phone_number as driver_phone,
+  cp.photo_url as car_photo_url
+FROM public.rides r
+JOIN public.users u ON r.driver_id = u.id
+LEFT JOIN public.car_photos cp ON r.car_photo_id = cp.id;
+
+GRANT SELECT ON public.rides_with_driver TO authenticated;
+GRANT SELECT ON public.rides_with_driver TO anon;
+
+-- =====================
+-- PAYMENTS: CURRENCY
+-- =====================
+-- Set from the booking's ride when the payment is created. Driver payouts have
+-- no booking and are in UGX, as are payments made before this migration.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'UGX' REFERENCES public.markets(currency);
+
+CREATE OR REPLACE FUNCTION public.set_payment_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.currency := COALESCE((
+    SELECT m.currency
+    FROM public.bookings b
+    JOIN public.rides r ON r.id = b.ride_id
+    JOIN public.markets m ON m.code = r.market
+    WHERE b.id = NEW.booking_id
+  ), NEW.currency);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Runs before payments_set_network, which reads the currency
+DROP TRIGGER IF EXISTS payments_set_currency ON public.payments;
+CREATE TRIGGER payments_set_currency
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_payment_currency();
+
+-- Same as refund-retry-queue-migration.sql, except the alerts give the amount
+-- in the refund's currency
+CREATE OR REPLACE FUNCTION public.schedule_refund_retry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_attempts CONSTANT INTEGER := 8;
+BEGIN
+  IF NEW.payment_type NOT IN ('refund_to_passenger', 'refund_to_driver')
+     OR NEW.status != 'failed'
+     OR NOT COALESCE(NEW.needs_retry, false) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only act on a new failure, not on unrelated updates to an already failed refund
+  IF TG_OP = 'UPDATE'
+     AND OLD.status = 'failed'
+     AND COALESCE(OLD.needs_retry, false)
+     AND NEW.retry_count <= OLD.retry_count
+     AND NEW.awaiting_phone_update IS NOT DISTINCT FROM OLD.awaiting_phone_update THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.retry_count >= v_max_attempts THEN
+    NEW.needs_retry := false;
+    NEW.next_retry_at := NULL;
+    NEW.dead_lettered_at := NOW();
+
+    INSERT INTO public.admin_alerts (kind, payment_id, message)
+    VALUES ('refund_dead_lettered', NEW.id,
+      format('Refund %s of %s %s to %s gave up after %s attempts: %s',
+        NEW.pandora_reference, NEW.currency, NEW.amount, NEW.phone_number, NEW.retry_count, COALESCE(NEW.error_message, 'unknown error')));
+  ELSIF NEW.awaiting_phone_update THEN
+    NEW.next_retry_at := NULL;
+
+    INSERT INTO public.admin_alerts (kind, payment_id, message)
+    VALUES ('refund_phone_invalid', NEW.id,
+      format('Refund %s of %s %s could not be paid to %s and is waiting for a corrected number: %s',
+        NEW.pandora_reference, NEW.currency, NEW.amount, NEW.phone_number, COALESCE(NEW.error_message, 'unknown error')));
+  ELSE
+    NEW.next_retry_at := NOW() + LEAST(
+      INTERVAL '5 minutes' * power(2, GREATEST(NEW.retry_count - 1, 0)),
+      INTERVAL '12 hours'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- MOBILE NUMBERS PER MARKET
+-- =====================
+-- Same as mobile-networks-migration.sql, except a number is read in the format
+-- of a market and each market has its own prefix table. The tables are a copy
+-- of supabase/functions/_shared/phone.ts, keep them in step.
+
+DROP FUNCTION IF EXISTS public.mobile_network(TEXT);
+DROP FUNCTION IF EXISTS public.normalize_mobile_number(TEXT);
+
+-- 0XXXXXXXXX, XXXXXXXXX, <dial code>XXXXXXXXX or +<dial code>XXXXXXXXX as
+-- <dial code>XXXXXXXXX, or NULL
+CREATE OR REPLACE FUNCTION public.normalize_mobile_number(p_phone TEXT, p_market TEXT DEFAULT 'UG')
+RETURNS TEXT AS $$
+DECLARE
+  v_phone TEXT := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+  v_dial_code TEXT;
+BEGIN
+  SELECT dial_code INTO v_dial_code FROM public.markets WHERE code = p_market;
+
+  IF v_phone ~ '^0[0-9]{9}$' THEN
+    v_phone := v_dial_code || substring(v_phone FROM 2);
+  ELSIF v_phone ~ '^[0-9]{9}$' THEN
+    v_phone := v_dial_code || v_phone;
+  END IF;
+
+  IF v_dial_code IS NULL OR v_phone !~ ('^' || v_dial_code || '[0-9]{9}$') THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_phone;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- The operator from the prefix, or NULL for any other number
+CREATE OR REPLACE FUNCTION public.mobile_network(p_phone TEXT, p_market TEXT DEFAULT 'UG')
+RETURNS TEXT AS $$
+  SELECT CASE p_market
+    WHEN 'UG' THEN CASE
+      WHEN v_local ~ '^7[678]' THEN 'MTN'
+      WHEN v_local ~ '^7[045]' THEN 'AIRTEL'
+    END
+    WHEN 'KE' THEN CASE
+      WHEN v_local ~ '^(7[0129]|74|75[7-9]|76[89]|11[0-5])' THEN 'SAFARICOM'
+      WHEN v_local ~ '^(7[38]|75[0-6]|762|10[0-2])' THEN 'AIRTEL'
+    END
+    WHEN 'TZ' THEN CASE
+      WHEN v_local ~ '^7[456]' THEN 'VODACOM'
+      WHEN v_local ~ '^(6[89]|78)' THEN 'AIRTEL'
+      WHEN v_local ~ '^(6[57]|7[17])' THEN 'TIGO'
+      WHEN v_local ~ '^6[12]' THEN 'HALOTEL'
+    END
+  END
+  FROM (SELECT substring(public.normalize_mobile_number(p_phone, p_market) FROM 4) AS v_local) n;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_network_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_network_check
+  CHECK (network IN ('MTN', 'AIRTEL', 'SAFARICOM', 'VODACOM', 'TIGO', 'HALOTEL'));
+
+CREATE OR REPLACE FUNCTION public.set_payment_network()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_market TEXT := (SELECT code FROM public.markets WHERE currency = NEW.currency);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.network := COALESCE(NEW.network, public.mobile_network(NEW.phone_number, v_market));
+  ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    NEW.network := public.mobile_network(NEW.phone_number, v_market);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Same as mobile-networks-migration.sql, except the new number must be in the
+-- market the refund is paid in
+CREATE OR REPLACE FUNCTION public.update_refund_phone(p_payment_id UUID, p_phone_number TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_market public.markets%ROWTYPE;
+  v_phone TEXT;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.role() != 'service_role' AND v_payment.user_id != auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_found',
+      'message', 'Refund not found.');
+  END IF;
+
+  IF v_payment.payment_type NOT IN ('refund_to_passenger', 'refund_to_driver') OR v_payment.status != 'failed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_failed',
+      'message', 'Only a failed refund can be sent to a new number.');
+  END IF;
+
+  SELECT * INTO v_market FROM public.markets WHERE currency = v_payment.currency;
+  v_phone := public.normalize_mobile_number(p_phone_number, v_market.code);
+
+  IF v_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_phone',
+      'message', format('Enter a %s mobile number.', v_market.name));
+  END IF;
+
+  IF public.mobile_network(v_phone, v_market.code) IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'unsupported_network',
+      'message', format('That number is not on a mobile money network we support in %s.', v_market.name));
+  END IF;
+
+  UPDATE public.payments
+  SET phone_number = v_phone,
+      status = 'pending',
+      needs_retry = false,
+      awaiting_phone_update = false,
+      dead_lettered_at = NULL,
+      next_retry_at = NULL,
+      retry_count = 0,
+      error_message = NULL
+  WHERE id = p_payment_id;
+
+  UPDATE public.admin_alerts
+  SET resolved_at = NOW()
+  WHERE payment_id = p_payment_id AND resolved_at IS NULL;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- FEE SCHEDULES PER MARKET
+-- =====================
+-- flat_fee, min_fee and max_fee are amounts, so a schedule that has any of them
+-- belongs to one market and is in its currency. A schedule without a market
+-- applies everywhere and can only charge a percentage.
+
+ALTER TABLE public.fee_schedules
+ADD COLUMN IF NOT EXISTS market TEXT REFERENCES public.markets(code);
+
+-- Amounts set before this migration were in UGX
+UPDATE public.fee_schedules
+SET market = 'UG'
+WHERE market IS NULL AND (flat_fee > 0 OR min_fee IS NOT NULL OR max_fee IS NOT NULL);
+
+ALTER TABLE public.fee_schedules DROP CONSTRAINT IF EXISTS fee_schedule_amounts_market;
+ALTER TABLE public.fee_schedules ADD CONSTRAINT fee_schedule_amounts_market
+  CHECK (market IS NOT NULL OR (flat_fee = 0 AND min_fee IS NULL AND max_fee IS NULL));
+
+DROP FUNCTION IF EXISTS public.quote_booking_fee(INTEGER, INTEGER, NUMERIC, UUID, TIMESTAMPTZ);
+DROP FUNCTION IF EXISTS public.resolve_fee_schedule(NUMERIC, UUID, TIMESTAMPTZ);
+
+-- Same as fee-schedule-migration.sql, except only schedules for the ride's
+-- market (or for every market) match
+CREATE OR REPLACE FUNCTION public.resolve_fee_schedule(
+  p_distance_km NUMERIC,
+  p_driver_id UUID,
+  p_at TIMESTAMPTZ DEFAULT NOW(),
+  p_market TEXT DEFAULT 'UG'
+)
+RETURNS UUID AS $$
+  SELECT s.id
+  FROM public.fee_schedules s
+  WHERE s.is_active
+    AND (s.market IS NULL OR s.market = p_market)
+    AND (s.organisation_id IS NULL
+      OR s.organisation_id = (SELECT organisation_id FROM public.users WHERE id = p_driver_id))
+    AND (s.min_distance_km IS NULL OR p_distance_km >= s.min_distance_km)
+    AND (s.max_distance_km IS NULL OR p_distance_km < s.max_distance_km)
+    AND (s.starts_at IS NULL OR s.starts_at <= p_at)
+    AND (s.ends_at IS NULL OR s.ends_at > p_at)
+  ORDER BY s.priority DESC, s.created_at DESC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Same as fee-schedule-migration.sql, except the quote is for a market and in
+-- its currency. Returns
+-- { schedule_id, schedule_name, currency, fee_per_seat, driver_share_per_seat, booking_fee, driver_fare }
+CREATE OR REPLACE FUNCTION public.quote_booking_fee(
+  p_price INTEGER,
+  p_seats INTEGER DEFAULT 1,
+  p_distance_km NUMERIC DEFAULT NULL,
+  p_driver_id UUID DEFAULT NULL,
+  p_at TIMESTAMPTZ DEFAULT NOW(),
+  p_market TEXT DEFAULT 'UG'
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_schedule public.fee_schedules%ROWTYPE;
+  v_fee INTEGER;
+BEGIN
+  SELECT * INTO v_schedule FROM public.fee_schedules
+  WHERE id = public.resolve_fee_schedule(p_distance_km, p_driver_id, p_at, p_market);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'no_fee_schedule: no active fee schedule matches this ride';
+  END IF;
+
+  v_fee := CEIL(p_price * v_schedule.percent / 100.0)::INTEGER + v_schedule.flat_fee;
+  v_fee := GREATEST(COALESCE(v_schedule.min_fee, 0), LEAST(COALESCE(v_schedule.max_fee, v_fee), v_fee));
+  v_fee := LEAST(v_fee, p_price);
+
+  RETURN jsonb_build_object(
+    'schedule_id', v_schedule.id,
+    'schedule_name', v_schedule.name,
+    'currency', (SELECT currency FROM public.markets WHERE code = p_market),
+    'fee_per_seat', v_fee,
+    'driver_share_per_seat', p_price - v_fee,
+    'booking_fee', v_fee * p_seats,
+    'driver_fare', (p_price - v_fee) * p_seats
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.resolve_fee_schedule(NUMERIC, UUID, TIMESTAMPTZ, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.quote_booking_fee(INTEGER, INTEGER, NUMERIC, UUID, TIMESTAMPTZ, TEXT) TO anon, authenticated;
+
+-- Same as fee-schedule-migration.sql, except the fee is quoted in the ride's market
+
+CREATE OR REPLACE FUNCTION public.create_booking(p_ride_id UUID, p_seats INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_passenger_id UUID := auth.uid();
+  v_ride public.rides%ROWTYPE;
+  v_bookable INTEGER;
+  v_quote JSONB;
+  v_booking_fee INTEGER;
+  v_driver_fare INTEGER := 0;
+  v_booking_id UUID;
+  v_hold_expires_at TIMESTAMPTZ := NOW() + INTERVAL '15 minutes';
+BEGIN
+  IF v_passenger_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_authenticated',
+      'message', 'Please sign in to book a seat.');
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 OR p_seats > 4 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_seats',
+      'message', 'You can book between 1 and 4 seats.');
+  END IF;
+
+  -- Lock the ride so concurrent bookings see each other's holds
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.status != 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_active',
+      'message', 'This ride is no longer available.');
+  END IF;
+
+  IF v_ride.departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_departed',
+      'message', 'This ride has already departed.');
+  END IF;
+
+  IF v_ride.driver_id = v_passenger_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'self_booking',
+      'message', 'You cannot book a seat on your own ride.');
+  END IF;
+
+  -- A hold of theirs that expired unpaid no longer blocks booking again
+  PERFORM public.cancel_expired_holds(p_ride_id, v_passenger_id);
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE ride_id = p_ride_id
+      AND passenger_id = v_passenger_id
+      AND status IN ('pending_payment', 'confirmed')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'duplicate_booking',
+      'message', 'You already have a booking on this ride.');
+  END IF;
+
+  v_bookable := v_ride.available_seats - public.held_seats(p_ride_id);
+
+  IF p_seats > v_bookable THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'seats_unavailable',
+      'message', format('Only %s seat(s) available.', GREATEST(v_bookable, 0)));
+  END IF;
+
+  v_quote := public.quote_booking_fee(v_ride.price, p_seats, v_ride.distance_km, v_ride.driver_id, NOW(), v_ride.market);
+  v_booking_fee := (v_quote->>'booking_fee')::INTEGER;
+
+  IF v_ride.full_fare_in_app THEN
+    v_driver_fare := (v_quote->>'driver_fare')::INTEGER;
+  END IF;
+
+  INSERT INTO public.bookings (ride_id, passenger_id, seats_booked, booking_fee, driver_fare, status, hold_expires_at)
+  VALUES (p_ride_id, v_passenger_id, p_seats, v_booking_fee, v_driver_fare, 'pending_payment', v_hold_expires_at)
+  RETURNING id INTO v_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking_id,
+    'booking_fee', v_booking_fee,
+    'driver_fare', v_driver_fare,
+    'hold_expires_at', v_hold_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- LEDGER PER CURRENCY
+-- =====================
+-- Every entry is in the currency of the payment it records, and both of its
+-- lines are in that currency. Accounts are shared across currencies, so a
+-- balance is only meaningful per currency. Entries posted before this
+-- migration were in UGX.
+
+ALTER TABLE public.ledger_entries
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'UGX' REFERENCES public.markets(currency);
+
+CREATE OR REPLACE FUNCTION public.set_ledger_entry_currency()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.currency := COALESCE((SELECT currency FROM public.payments WHERE id = NEW.payment_id), NEW.currency);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS ledger_entries_set_currency ON public.ledger_entries;
+CREATE TRIGGER ledger_entries_set_currency
+  BEFORE INSERT ON public.ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_ledger_entry_currency();
+
+-- Same as promo-codes-migration.sql, except there is a row per account and currency
+DROP VIEW IF EXISTS public.ledger_balances;
+CREATE OR REPLACE VIEW public.ledger_balances AS
+SELECT
+  a.id as account_id,
+  a.account_type,
+  a.user_id,
+  u.full_name,
+  COALESCE(e.currency, 'UGX') as currency,
+  COALESCE(
+    CASE WHEN a.account_type IN ('provider_cash', 'promo_discounts') THEN SUM(l.amount) ELSE -SUM(l.amount) END,
+    0
+  )::INTEGER as balance,
+  MAX(l.created_at) as last_entry_at
+FROM public.ledger_accounts a
+LEFT JOIN public.ledger_lines l ON l.account_id = a.id
+LEFT JOIN public.ledger_entries e ON e.id = l.entry_id
+LEFT JOIN public.users u ON u.id = a.user_id
+GROUP BY a.id, a.account_type, a.user_id, u.full_name, e.currency;
+
+REVOKE ALL ON public.ledger_balances FROM anon, authenticated;
+
+-- Same as full-fare-migration.sql, with the payment's currency
+CREATE OR REPLACE VIEW public.ledger_cash_movements AS
+SELECT
+  p.id as payment_id,
+  p.payment_type,
+  p.status,
+  p.amount,
+  p.pandora_reference,
+  p.pandora_transaction_id,
+  p.created_at,
+  p.updated_at,
+  COALESCE(SUM(l.amount), 0)::INTEGER as ledger_amount,
+  p.currency
+FROM public.payments p
+LEFT JOIN public.ledger_entries e
+  ON e.payment_id = p.id AND e.entry_type IN ('booking_fee', 'fare_collected', 'refund_paid', 'payout')
+LEFT JOIN (
+  public.ledger_lines l
+  JOIN public.ledger_accounts a ON a.id = l.account_id AND a.account_type = 'provider_cash'
+) ON l.entry_id = e.id
+GROUP BY p.id;
+
+REVOKE ALL ON public.ledger_cash_movements FROM anon, authenticated;
+
+-- =====================
+-- DRIVER WALLET: UGX ONLY
+-- =====================
+-- Payouts are only sent in Uganda for now. Fares and cancellation fees earned
+-- in other markets stay on the driver's account in their own currency (see
+-- ledger_balances) until payouts open there.
+-- Same as driver-wallet-migration.sql, except only UGX entries count.
+
+CREATE OR REPLACE FUNCTION public.available_wallet_balance(p_driver_id UUID)
+RETURNS INTEGER AS $$
+  SELECT
+    COALESCE((
+      SELECT -SUM(l.amount)
+      FROM public.ledger_lines l
+      JOIN public.ledger_accounts a ON a.id = l.account_id
+      JOIN public.ledger_entries e ON e.id = l.entry_id
+      WHERE a.account_type = 'driver' AND a.user_id = p_driver_id AND e.currency = 'UGX'
+    ), 0)::INTEGER
+    - COALESCE((
+      SELECT SUM(amount)
+      FROM public.payout_requests
+      WHERE driver_id = p_driver_id AND status IN ('requested', 'approved')
+    ), 0)::INTEGER;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.available_wallet_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.driver_wallet()
+RETURNS JSONB AS $$
+DECLARE
+  v_balance INTEGER;
+  v_available INTEGER;
+BEGIN
+  SELECT COALESCE(-SUM(l.amount), 0)::INTEGER INTO v_balance
+  FROM public.ledger_lines l
+  JOIN public.ledger_accounts a ON a.id = l.account_id
+  JOIN public.ledger_entries e ON e.id = l.entry_id
+  WHERE a.account_type = 'driver' AND a.user_id = auth.uid() AND e.currency = 'UGX';
+
+  v_available := public.available_wallet_balance(auth.uid());
+
+  RETURN jsonb_build_object(
+    'balance', v_balance,
+    'reserved', v_balance - v_available,
+    'available', v_available,
+    'minimum_payout', public.minimum_payout(),
+    'payout_phone', public.verified_payout_phone(auth.uid())
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.driver_wallet() FROM anon;
+GRANT EXECUTE ON FUNCTION public.driver_wallet() TO authenticated;
@@ -0,0 +1,122 @@
+-- Mobile Networks Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after payment-events-migration.sql)
+
+-- =====================
+-- MOBILE NUMBERS
+-- =====================
+-- Numbers are validated in supabase/functions/_shared/phone.ts (the app and the
+-- Edge Functions); these functions are its copy for SQL, keep the prefixes in step.
+-- Only MTN and Airtel numbers are supported for mobile money.
+
+-- 07XXXXXXXX, 7XXXXXXXX, 2567XXXXXXXX or +2567XXXXXXXX as 2567XXXXXXXX, or NULL
+CREATE OR REPLACE FUNCTION public.normalize_mobile_number(p_phone TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_phone TEXT := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+BEGIN
+  IF v_phone ~ '^07[0-9]{8}$' THEN
+    v_phone := '256' || substring(v_phone FROM 2);
+  ELSIF v_phone ~ '^7[0-9]{8}$' THEN
+    v_phone := '256' || v_phone;
+  END IF;
+
+  IF v_phone !~ '^2567[0-9]{8}$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN v_phone;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- 'MTN' or 'AIRTEL' from the prefix, or NULL for any other number
+CREATE OR REPLACE FUNCTION public.mobile_network(p_phone TEXT)
+RETURNS TEXT AS $$
+  SELECT CASE substring(public.normalize_mobile_number(p_phone) FROM 4 FOR 2)
+    WHEN '76' THEN 'MTN'
+    WHEN '77' THEN 'MTN'
+    WHEN '78' THEN 'MTN'
+    WHEN '70' THEN 'AIRTEL'
+    WHEN '74' THEN 'AIRTEL'
+    WHEN '75' THEN 'AIRTEL'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================
+-- NETWORK ON PAYMENTS
+-- =====================
+-- initiate-payment stores the network it detected; refunds and payouts get
+-- theirs from the number they are sent to. Payments made before this migration
+-- keep a NULL network.
+
+ALTER TABLE public.payments
+  ADD COLUMN IF NOT EXISTS network TEXT CHECK (network IN ('MTN', 'AIRTEL'));
+
+CREATE OR REPLACE FUNCTION public.set_payment_network()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.network := COALESCE(NEW.network, public.mobile_network(NEW.phone_number));
+  ELSIF NEW.phone_number IS DISTINCT FROM OLD.phone_number THEN
+    NEW.network := public.mobile_network(NEW.phone_number);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payments_set_network ON public.payments;
+CREATE TRIGGER payments_set_network
+  BEFORE INSERT OR UPDATE OF phone_number ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_payment_network();
+
+-- =====================
+-- RETRY TO A CORRECTED NUMBER
+-- =====================
+-- Same as refund-retry-queue-migration.sql, except the number is checked by
+-- the shared rules and must be on a supported network
+
+CREATE OR REPLACE FUNCTION public.update_refund_phone(p_payment_id UUID, p_phone_number TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_phone TEXT := public.normalize_mobile_number(p_phone_number);
+BEGIN
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.role() != 'service_role' AND v_payment.user_id != auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_found',
+      'message', 'Refund not found.');
+  END IF;
+
+  IF v_payment.payment_type NOT IN ('refund_to_passenger', 'refund_to_driver') OR v_payment.status != 'failed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_failed',
+      'message', 'Only a failed refund can be sent to a new number.');
+  END IF;
+
+  IF v_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_phone',
+      'message', 'Enter a Uganda mobile number, e.g. 0772 123456.');
+  END IF;
+
+  IF public.mobile_network(v_phone) IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'unsupported_network',
+      'message', 'Only MTN Mobile Money and Airtel Money numbers are supported.');
+  END IF;
+
+  UPDATE public.payments
+  SET phone_number = v_phone,
+      status = 'pending',
+      needs_retry = false,
+      awaiting_phone_update = false,
+      dead_lettered_at = NULL,
+      next_retry_at = NULL,
+      retry_count = 0,
+      error_message = NULL
+  WHERE id = p_payment_id;
+
+  UPDATE public.admin_alerts
+  SET resolved_at = NOW()
+  WHERE payment_id = p_payment_id AND resolved_at IS NULL;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,86 @@
+-- Payment Events Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after fee-schedule-migration.sql)
+
+-- =====================
+-- PAYMENT EVENTS
+-- =====================
+-- Audit log of everything exchanged with the payment provider, written by the
+-- Edge Functions (supabase/functions/_shared/payment-events.ts):
+-- - provider_request: a collect, disbursement or status query about to be sent
+-- - provider_response: what the provider answered, with the HTTP exchange
+-- - provider_error: the call failed before the provider answered
+-- - webhook_received: an inbound callback, whether or not it was accepted
+-- Secrets in headers are redacted before they are stored. payment_id is filled
+-- from the reference when the caller doesn't know it; it has no foreign key so
+-- events outlive a discarded refund payment.
+
+CREATE TABLE IF NOT EXISTS public.payment_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID,
+  reference TEXT,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'provider_request', 'provider_response', 'provider_error', 'webhook_received'
+  )),
+  provider TEXT NOT NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('collect', 'disburse', 'query_status', 'webhook')),
+  http_method TEXT,
+  url TEXT,
+  http_status INTEGER,
+  request_headers JSONB,
+  request_body JSONB,
+  response_headers JSONB,
+  response_body JSONB,
+  outcome TEXT, -- e.g. the provider's status, or why a webhook was rejected
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment ON public.payment_events(payment_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payment_events_reference ON public.payment_events(reference);
+
+CREATE OR REPLACE FUNCTION public.link_payment_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.payment_id IS NULL AND NEW.reference IS NOT NULL THEN
+    SELECT id INTO NEW.payment_id FROM public.payments WHERE pandora_reference = NEW.reference;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_events_link_payment ON public.payment_events;
+CREATE TRIGGER payment_events_link_payment
+  BEFORE INSERT ON public.payment_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_payment_event();
+
+-- =====================
+-- APPEND-ONLY
+-- =====================
+
+CREATE OR REPLACE FUNCTION public.prevent_payment_event_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'payment_events_append_only: payment events cannot be updated or deleted';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS payment_events_append_only ON public.payment_events;
+CREATE TRIGGER payment_events_append_only
+  BEFORE UPDATE OR DELETE ON public.payment_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_payment_event_changes();
+
+-- Written by the service role only; admins read them for disputes
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view payment events" ON public.payment_events;
+CREATE POLICY "Admins can view payment events"
+  ON public.payment_events FOR SELECT
+  USING (public.is_admin());
+
+-- The admin timeline looks payments up by ID or reference
+DROP POLICY IF EXISTS "Admins can view payments" ON public.payments;
+CREATE POLICY "Admins can view payments"
+  ON public.payments FOR SELECT
+  USING (public.is_admin());
@@ -0,0 +1,51 @@
+-- Payment Reconciliation Migration
+-- Run this in Supabase Dashboard -> SQL Editor
+
+-- =====================
+-- RECONCILIATION LOG
+-- =====================
+-- One row per payment checked by the reconcile-payments Edge Function, so
+-- support can see what each run found at the provider and what it changed
+
+CREATE TABLE IF NOT EXISTS public.payment_reconciliations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL,
+  payment_id UUID NOT NULL REFERENCES public.payments(id) ON DELETE CASCADE,
+  previous_status payment_status NOT NULL,
+  provider_status TEXT, -- NULL when the provider could not be reached
+  action TEXT NOT NULL,
+  message TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliations_payment ON public.payment_reconciliations(payment_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_payment_reconciliations_run ON public.payment_reconciliations(run_id);
+
+-- Finding stuck payments
+CREATE INDEX IF NOT EXISTS idx_payments_processing
+  ON public.payments(updated_at)
+  WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_payments_pending
+  ON public.payments(updated_at)
+  WHERE status = 'pending';
+
+-- Only the service role (Edge Functions, Dashboard) reads or writes the log
+ALTER TABLE public.payment_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- =====================
+-- SCHEDULE
+-- =====================
+-- Run every 5 minutes with pg_cron + pg_net (enable both under Database -> Extensions),
+-- replacing the project ref and service role key:
+--
+-- SELECT cron.schedule(
+--   'reconcile-payments',
+--   '*/5 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://[YOUR-PROJECT-REF].supabase.co/functions/v1/reconcile-payments',
+--     headers := jsonb_build_object('Authorization', 'Bearer [SERVICE-ROLE-KEY]')
+--   );
+--   $$
+-- );
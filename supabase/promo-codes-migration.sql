@@ -0,0 +1,306 @@
+-- Promo Codes Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after full-fare-migration.sql)
+
+-- =====================
+-- PROMO CODES
+-- =====================
+-- A promo code discounts the booking fee (never the driver's fare):
+-- - discount_type 'percent': discount_value percent of the fee, rounded down
+-- - discount_type 'fixed': discount_value UGX, at most the whole fee
+-- Optional limits: a start and expiry time, a total number of uses, uses per
+-- passenger, first ride only, and members of one organisation only.
+-- Codes are managed by Blue Ox (service role / SQL editor).
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT NOT NULL CHECK (code = UPPER(code) AND code <> ''),
+  description TEXT,
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  discount_value INTEGER NOT NULL CHECK (discount_value > 0),
+  max_uses INTEGER CHECK (max_uses > 0), -- NULL: unlimited
+  max_uses_per_user INTEGER NOT NULL DEFAULT 1 CHECK (max_uses_per_user > 0),
+  first_ride_only BOOLEAN NOT NULL DEFAULT false,
+  organisation_id UUID REFERENCES public.organisations(id) ON DELETE CASCADE, -- NULL: everyone
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT promo_percent_range CHECK (discount_type != 'percent' OR discount_value <= 100),
+  CONSTRAINT unique_promo_code UNIQUE (code)
+);
+
+DROP TRIGGER IF EXISTS promo_codes_updated_at ON public.promo_codes;
+CREATE TRIGGER promo_codes_updated_at
+  BEFORE UPDATE ON public.promo_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Codes are looked up through evaluate_promo_code, never listed
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view promo codes" ON public.promo_codes;
+CREATE POLICY "Admins can view promo codes"
+  ON public.promo_codes FOR SELECT
+  USING (public.is_admin());
+
+-- =====================
+-- PAYMENTS: THE DISCOUNT
+-- =====================
+-- A booking payment records the code used and the discount it gave. A payment
+-- is a use of the code unless it failed, so a failed prompt gives the use back.
+-- A fully discounted booking has a 0 UGX payment that never reaches the provider.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE RESTRICT,
+ADD COLUMN IF NOT EXISTS discount_amount INTEGER NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_payments_promo_code ON public.payments(promo_code_id, user_id)
+  WHERE promo_code_id IS NOT NULL;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_amount_check;
+ALTER TABLE public.payments ADD CONSTRAINT payments_amount_check
+  CHECK (amount > 0 OR (payment_type::TEXT = 'booking_fee' AND amount = 0 AND discount_amount > 0));
+
+-- =====================
+-- EVALUATE A CODE FOR A BOOKING
+-- =====================
+-- What a code would take off a booking, for PaymentPage and initiate-payment.
+-- Returns { success, promo_code_id, code, discount, booking_fee, amount_due } or
+-- { success: false, error_code, message }. Error codes: booking_not_found,
+-- promo_not_found, promo_not_started, promo_expired, promo_exhausted,
+-- promo_already_used, promo_first_ride_only, promo_not_eligible
+
+CREATE OR REPLACE FUNCTION public.evaluate_promo_code(p_code TEXT, p_booking_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_promo public.promo_codes%ROWTYPE;
+  v_organisation_id UUID;
+  v_discount INTEGER;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  -- Passengers can only evaluate codes for their own bookings
+  IF NOT FOUND
+     OR (COALESCE(auth.role(), 'service_role') != 'service_role' AND v_booking.passenger_id != auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_found',
+      'message', 'Booking not found.');
+  END IF;
+
+  SELECT * INTO v_promo FROM public.promo_codes
+  WHERE code = UPPER(TRIM(p_code)) AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'promo_not_found',
+      'message', 'That promo code is not valid.');
+  END IF;
+
+  IF v_promo.starts_at > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'promo_not_started',
+      'message', 'That promo code cannot be used yet.');
+  END IF;
+
+  IF v_promo.expires_at <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'promo_expired',
+      'message', 'That promo code has expired.');
+  END IF;
+
+  IF v_promo.organisation_id IS NOT NULL THEN
+    SELECT organisation_id INTO v_organisation_id FROM public.users WHERE id = v_booking.passenger_id;
+
+    IF v_organisation_id IS DISTINCT FROM v_promo.organisation_id THEN
+      RETURN jsonb_build_object('success', false, 'error_code', 'promo_not_eligible',
+        'message', 'That promo code is not available on your account.');
+    END IF;
+  END IF;
+
+  IF v_promo.first_ride_only AND EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE passenger_id = v_booking.passenger_id
+      AND id != v_booking.id
+      AND status IN ('confirmed', 'completed')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'promo_first_ride_only',
+      'message', 'That promo code is for your first ride only.');
+  END IF;
+
+  IF v_promo.max_uses IS NOT NULL AND (
+    SELECT COUNT(*) FROM public.payments
+    WHERE promo_code_id = v_promo.id AND status != 'failed'
+  ) >= v_promo.max_uses THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'promo_exhausted',
+      'message', 'That promo code has been used up.');
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.payments
+    WHERE promo_code_id = v_promo.id AND user_id = v_booking.passenger_id AND status != 'failed'
+  ) >= v_promo.max_uses_per_user THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'promo_already_used',
+      'message', 'You have already used that promo code.');
+  END IF;
+
+  v_discount := CASE v_promo.discount_type
+    WHEN 'percent' THEN FLOOR(v_booking.booking_fee * v_promo.discount_value / 100.0)::INTEGER
+    ELSE LEAST(v_promo.discount_value, v_booking.booking_fee)
+  END;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'promo_code_id', v_promo.id,
+    'code', v_promo.code,
+    'discount', v_discount,
+    'booking_fee', v_booking.booking_fee,
+    'amount_due', v_booking.booking_fee - v_discount + v_booking.driver_fare
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.evaluate_promo_code(TEXT, UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION public.evaluate_promo_code(TEXT, UUID) TO authenticated;
+
+-- =====================
+-- USE LIMITS UNDER CONCURRENCY
+-- =====================
+-- initiate-payment evaluates the code first; this re-checks the use limits with
+-- the code locked, so two passengers can't take its last use at the same time.
+
+CREATE OR REPLACE FUNCTION public.check_promo_code_uses()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_promo public.promo_codes%ROWTYPE;
+BEGIN
+  IF NEW.promo_code_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_promo FROM public.promo_codes WHERE id = NEW.promo_code_id FOR UPDATE;
+
+  IF v_promo.max_uses IS NOT NULL AND (
+    SELECT COUNT(*) FROM public.payments
+    WHERE promo_code_id = v_promo.id AND status != 'failed'
+  ) >= v_promo.max_uses THEN
+    RAISE EXCEPTION 'promo_exhausted';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.payments
+    WHERE promo_code_id = v_promo.id AND user_id = NEW.user_id AND status != 'failed'
+  ) >= v_promo.max_uses_per_user THEN
+    RAISE EXCEPTION 'promo_already_used';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_check_promo_code_uses ON public.payments;
+CREATE TRIGGER payments_check_promo_code_uses
+  BEFORE INSERT ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.check_promo_code_uses();
+
+-- =====================
+-- LEDGER: DISCOUNTS GIVEN
+-- =====================
+-- promo_discounts: booking fees given away by promo codes. A discounted fee is
+-- still earned in full by platform_revenue; the discount is the part paid for
+-- by promo_discounts instead of provider_cash (promo_discount entry).
+
+ALTER TABLE public.ledger_accounts DROP CONSTRAINT IF EXISTS ledger_accounts_account_type_check;
+ALTER TABLE public.ledger_accounts ADD CONSTRAINT ledger_accounts_account_type_check
+  CHECK (account_type IN ('provider_cash', 'platform_revenue', 'fares_held', 'promo_discounts', 'driver', 'passenger'));
+
+ALTER TABLE public.ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE public.ledger_entries ADD CONSTRAINT ledger_entries_entry_type_check
+  CHECK (entry_type IN (
+    'booking_fee', 'refund', 'forfeiture', 'refund_paid', 'payout', 'refund_reversed', 'forfeiture_reversed',
+    'fare_collected', 'fare_settled', 'fare_refund', 'fare_refund_reversed', 'promo_discount'
+  ));
+
+-- Same as full-fare-migration.sql, plus the discount on a completed booking payment
+CREATE OR REPLACE FUNCTION public.post_payment_to_ledger(
+  p_payment public.payments,
+  p_event TEXT, -- 'completed', 'queued' or 'discarded'
+  p_at TIMESTAMPTZ DEFAULT NOW()
+)
+RETURNS VOID AS $$
+DECLARE
+  v_cash UUID := public.ledger_account('provider_cash');
+  v_revenue UUID := public.ledger_account('platform_revenue');
+  v_fares UUID := public.ledger_account('fares_held');
+  v_recipient UUID;
+  v_to_driver BOOLEAN := p_payment.payment_type IN ('refund_to_driver', 'driver_payout');
+  v_fee INTEGER := p_payment.amount - p_payment.fare_amount;
+  v_fare INTEGER := p_payment.fare_amount;
+BEGIN
+  IF p_payment.payment_type = 'booking_fee' THEN
+    IF p_event = 'completed' THEN
+      IF v_fee > 0 THEN
+        PERFORM public.post_ledger_entry('booking_fee', v_cash, v_revenue, v_fee,
+          'Booking fee ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+      END IF;
+      IF p_payment.discount_amount > 0 THEN
+        PERFORM public.post_ledger_entry('promo_discount', public.ledger_account('promo_discounts'), v_revenue,
+          p_payment.discount_amount, 'Promo discount ' || p_payment.pandora_reference,
+          p_payment.id, p_payment.booking_id, p_at);
+      END IF;
+      IF v_fare > 0 THEN
+        PERFORM public.post_ledger_entry('fare_collected', v_cash, v_fares, v_fare,
+          'Fare held until the ride ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+      END IF;
+    END IF;
+    RETURN;
+  END IF;
+
+  v_recipient := public.ledger_account(CASE WHEN v_to_driver THEN 'driver' ELSE 'passenger' END, p_payment.user_id);
+
+  IF p_event = 'queued' AND p_payment.payment_type != 'driver_payout' THEN
+    IF v_fee > 0 THEN
+      PERFORM public.post_ledger_entry(
+        CASE WHEN v_to_driver THEN 'forfeiture' ELSE 'refund' END,
+        v_revenue, v_recipient, v_fee,
+        CASE WHEN v_to_driver THEN 'Cancellation fee owed to driver' ELSE 'Refund owed to passenger' END,
+        p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+    IF v_fare > 0 THEN
+      PERFORM public.post_ledger_entry('fare_refund', v_fares, v_recipient, v_fare,
+        'Fare owed back to passenger', p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+  ELSIF p_event = 'completed' THEN
+    PERFORM public.post_ledger_entry(
+      CASE WHEN v_to_driver THEN 'payout' ELSE 'refund_paid' END,
+      v_recipient, v_cash, p_payment.amount,
+      'Sent ' || p_payment.pandora_reference, p_payment.id, p_payment.booking_id, p_at);
+  ELSIF p_event = 'discarded' AND p_payment.payment_type != 'driver_payout' THEN
+    IF v_fee > 0 THEN
+      PERFORM public.post_ledger_entry(
+        CASE WHEN v_to_driver THEN 'forfeiture_reversed' ELSE 'refund_reversed' END,
+        v_recipient, v_revenue, v_fee,
+        'Queued refund discarded before it was sent', p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+    IF v_fare > 0 THEN
+      PERFORM public.post_ledger_entry('fare_refund_reversed', v_recipient, v_fares, v_fare,
+        'Queued fare refund discarded before it was sent', p_payment.id, p_payment.booking_id, p_at);
+    END IF;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- promo_discounts, like provider_cash, is a debit balance: the discounts given so far
+CREATE OR REPLACE VIEW public.ledger_balances AS
+SELECT
+  a.id as account_id,
+  a.account_type,
+  a.user_id,
+  u.full_name,
+  COALESCE(
+    CASE WHEN a.account_type IN ('provider_cash', 'promo_discounts') THEN SUM(l.amount) ELSE -SUM(l.amount) END,
+    0
+  )::INTEGER as balance,
+  MAX(l.created_at) as last_entry_at
+FROM public.ledger_accounts a
+LEFT JOIN public.ledger_lines l ON l.account_id = a.id
+LEFT JOIN public.users u ON u.id = a.user_id
+GROUP BY a.id, a.account_type, a.user_id, u.full_name;
+
+REVOKE ALL ON public.ledger_balances FROM anon, authenticated;
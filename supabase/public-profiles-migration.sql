@@ -0,0 +1,161 @@
+-- Public Profiles Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after blind-reviews-migration.sql)
+
+-- =====================
+-- PUBLIC PROFILE
+-- =====================
+-- Everything /users/:id shows about a member, for anyone (signed in or not)
+-- deciding whether to ride with them: no email or phone number. The rates are
+-- computed here because other users' rides and bookings aren't readable.
+--
+-- Completion and cancellation rates only count trips that went ahead or were
+-- called off after someone was committed:
+-- - As a driver: completed rides against rides they cancelled
+-- - As a passenger: completed bookings against paid bookings they cancelled
+-- A rate is NULL until there is at least one such trip.
+--
+-- Sign-up doesn't confirm phone numbers, so the phone badge means the member
+-- has paid a booking fee with mobile money from the number on their profile:
+-- approving the payment on the handset proves they hold it.
+--
+-- Returns NULL for an unknown user
+
+CREATE OR REPLACE FUNCTION public.public_profile(p_user_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_user public.users%ROWTYPE;
+  v_auth auth.users%ROWTYPE;
+  v_rides_completed INTEGER;
+  v_rides_cancelled INTEGER;
+  v_bookings_completed INTEGER;
+  v_bookings_cancelled INTEGER;
+BEGIN
+  SELECT * INTO v_user FROM public.users WHERE id = p_user_id;
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_auth FROM auth.users WHERE id = p_user_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE status = 'completed'),
+    COUNT(*) FILTER (WHERE status = 'cancelled')
+  INTO v_rides_completed, v_rides_cancelled
+  FROM public.rides
+  WHERE driver_id = p_user_id;
+
+  SELECT
+    COUNT(*) FILTER (WHERE b.status = 'completed'),
+    COUNT(*) FILTER (WHERE b.status = 'cancelled_by_passenger' AND EXISTS (
+      SELECT 1 FROM public.booking_status_history h
+      WHERE h.booking_id = b.id AND h.to_status = 'confirmed'
+    ))
+  INTO v_bookings_completed, v_bookings_cancelled
+  FROM public.bookings b
+  WHERE b.passenger_id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'id', v_user.id,
+    'full_name', v_user.full_name,
+    'avatar_url', v_user.avatar_url,
+    'member_since', v_user.created_at,
+    'average_rating', v_user.average_rating,
+    'total_rides', v_user.total_rides,
+    'organisation', (SELECT name FROM public.organisations WHERE id = v_user.organisation_id),
+    'badges', jsonb_build_object(
+      'id_verified', COALESCE(v_user.is_verified, false),
+      'email_verified', v_auth.email_confirmed_at IS NOT NULL,
+      'phone_verified', EXISTS (
+        SELECT 1
+        FROM public.payments p
+        JOIN public.markets m ON m.currency = p.currency
+        WHERE p.user_id = p_user_id
+          AND p.payment_type = 'booking_fee'
+          AND p.status IN ('completed', 'refunded')
+          AND p.phone_number = public.normalize_mobile_number(v_user.phone_number, m.code)
+      )
+    ),
+    -- Revealed reviews only, like average_rating (blind-reviews-migration.sql)
+    'rating_breakdown', (
+      SELECT jsonb_build_object(
+        '1', COUNT(*) FILTER (WHERE rating = 1),
+        '2', COUNT(*) FILTER (WHERE rating = 2),
+        '3', COUNT(*) FILTER (WHERE rating = 3),
+        '4', COUNT(*) FILTER (WHERE rating = 4),
+        '5', COUNT(*) FILTER (WHERE rating = 5)
+      )
+      FROM public.reviews
+      WHERE reviewee_id = p_user_id AND revealed_at IS NOT NULL
+    ),
+    'tag_counts', (
+      SELECT COALESCE(jsonb_object_agg(tag, uses), '{}'::JSONB)
+      FROM (
+        SELECT unnest(tags) AS tag, COUNT(*) AS uses
+        FROM public.reviews
+        WHERE reviewee_id = p_user_id AND revealed_at IS NOT NULL
+        GROUP BY 1
+      ) t
+    ),
+    'driver', jsonb_build_object(
+      'rides_completed', v_rides_completed,
+      'rides_cancelled', v_rides_cancelled,
+      'completion_rate', ROUND(v_rides_completed::NUMERIC / NULLIF(v_rides_completed + v_rides_cancelled, 0), 2),
+      'cancellation_rate', ROUND(v_rides_cancelled::NUMERIC / NULLIF(v_rides_completed + v_rides_cancelled, 0), 2)
+    ),
+    'passenger', jsonb_build_object(
+      'bookings_completed', v_bookings_completed,
+      'bookings_cancelled', v_bookings_cancelled,
+      'completion_rate', ROUND(v_bookings_completed::NUMERIC / NULLIF(v_bookings_completed + v_bookings_cancelled, 0), 2),
+      'cancellation_rate', ROUND(v_bookings_cancelled::NUMERIC / NULLIF(v_bookings_completed + v_bookings_cancelled, 0), 2)
+    ),
+    -- The cars named on their rides, most recent first
+    'vehicles', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('brand', brand, 'model', model, 'year', year) ORDER BY last_used DESC), '[]'::JSONB)
+      FROM (
+        SELECT car_brand AS brand, car_model AS model, car_year AS year, MAX(departure_time) AS last_used
+        FROM public.rides
+        WHERE driver_id = p_user_id AND (car_brand IS NOT NULL OR car_model IS NOT NULL)
+        GROUP BY car_brand, car_model, car_year
+        ORDER BY last_used DESC
+        LIMIT 3
+      ) v
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.public_profile(UUID) TO anon, authenticated;
+
+-- =====================
+-- BADGES AND STATS: BLUE OX ONLY
+-- =====================
+-- The profile shows is_verified, average_rating and total_rides to everyone,
+-- so members can't set them on their own row (when creating it or through
+-- "Users can update own profile"). The rating and ride count are kept by the
+-- triggers on reviews and bookings, which update users from inside another
+-- trigger (pg_trigger_depth() > 1).
+
+CREATE OR REPLACE FUNCTION public.protect_user_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(auth.role(), 'service_role') = 'service_role' OR pg_trigger_depth() > 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_verified := false;
+    NEW.average_rating := NULL;
+    NEW.total_rides := 0;
+  ELSIF NEW.is_verified IS DISTINCT FROM OLD.is_verified
+     OR NEW.average_rating IS DISTINCT FROM OLD.average_rating
+     OR NEW.total_rides IS DISTINCT FROM OLD.total_rides THEN
+    RAISE EXCEPTION 'is_verified, average_rating and total_rides can only be changed by Blue Ox';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS users_protect_stats ON public.users;
+CREATE TRIGGER users_protect_stats
+  BEFORE INSERT OR UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_user_stats();
@@ -0,0 +1,110 @@
+-- Refund Callbacks Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after booking-state-machine-migration.sql)
+
+-- =====================
+-- FLAG FAILED DISBURSEMENTS FOR RETRY
+-- =====================
+-- Refunds share the pandora-webhook callback with booking fees. A failed
+-- disbursement still owes someone money, so it is flagged instead of dropped.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS needs_retry BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_payments_needs_retry ON public.payments(needs_retry) WHERE needs_retry;
+
+-- =====================
+-- FAILED DISBURSEMENTS VIEW
+-- =====================
+-- Refunds waiting to be retried, with enough context for support to act
+
+CREATE OR REPLACE VIEW public.failed_disbursements AS
+SELECT
+  p.id,
+  p.booking_id,
+  p.user_id,
+  p.amount,
+  p.payment_type,
+  p.phone_number,
+  p.pandora_reference,
+  p.error_message,
+  p.retry_count,
+  p.created_at,
+  p.updated_at,
+  b.status as booking_status,
+  u.full_name as recipient_name
+FROM public.payments p
+JOIN public.bookings b ON p.booking_id = b.id
+JOIN public.users u ON p.user_id = u.id
+WHERE p.payment_type IN ('refund_to_passenger', 'refund_to_driver')
+  AND p.status = 'failed'
+  AND p.needs_retry;
+
+-- Service role only (not granted to authenticated or anon)
+REVOKE ALL ON public.failed_disbursements FROM anon, authenticated;
+
+-- =====================
+-- BOOKING FEE PAID
+-- =====================
+-- The webhook and reconciliation call this when the provider reports a booking
+-- fee collected. The payment is completed and the booking confirmed in one
+-- transaction: if confirming fails for an unexpected reason both are rolled
+-- back, so the next callback or reconciliation run tries again.
+-- Returns { action, reason }:
+-- - already_processed: the payment was completed (or refunded) before
+-- - booking_confirmed
+-- - paid_for_inactive_booking: the money arrived but the booking can't be
+--   confirmed; reason is 'seats_unavailable' (re-sold after the hold expired)
+--   or 'not_pending' (cancelled meanwhile)
+
+CREATE OR REPLACE FUNCTION public.complete_booking_fee(p_payment_id UUID, p_transaction_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments
+  WHERE id = p_payment_id AND payment_type = 'booking_fee'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'payment_not_found';
+  END IF;
+
+  IF v_payment.status IN ('completed', 'refunded') THEN
+    RETURN jsonb_build_object('action', 'already_processed');
+  END IF;
+
+  UPDATE public.payments
+  SET status = 'completed',
+      pandora_transaction_id = COALESCE(p_transaction_id, pandora_transaction_id)
+  WHERE id = p_payment_id;
+
+  -- The state machine only lets a booking still waiting for payment be confirmed,
+  -- and the seat check trigger refuses to confirm into seats re-sold after the hold expired
+  BEGIN
+    PERFORM public.transition_booking(v_payment.booking_id, 'confirmed', 'booking_fee_paid');
+    RETURN jsonb_build_object('action', 'booking_confirmed');
+  EXCEPTION WHEN OTHERS THEN
+    IF SQLERRM LIKE '%seats_unavailable%' THEN
+      v_reason := 'seats_unavailable';
+    ELSIF SQLERRM LIKE '%illegal_transition%' THEN
+      v_reason := 'not_pending';
+    ELSE
+      RAISE;
+    END IF;
+  END;
+
+  -- The payment stays completed: the money was received and support must refund it
+  UPDATE public.payments
+  SET error_message = CASE v_reason
+    WHEN 'seats_unavailable' THEN 'Paid after the seat hold expired and the seats were taken - refund required'
+    ELSE 'Paid after the booking stopped waiting for payment - refund required'
+  END
+  WHERE id = p_payment_id;
+
+  RETURN jsonb_build_object('action', 'paid_for_inactive_booking', 'reason', v_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Service role only
+REVOKE EXECUTE ON FUNCTION public.complete_booking_fee(UUID, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,73 @@
+-- Refund References Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after cancel-booking-migration.sql)
+
+-- =====================
+-- EARLIER REFERENCES
+-- =====================
+-- retry-refunds sends a failed refund again under a fresh reference, but only
+-- once the provider has confirmed the last attempt failed. The references it
+-- replaced are kept here so a late callback for one still finds its payment
+-- (pandora-webhook).
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS previous_references TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_payments_previous_references
+  ON public.payments USING GIN (previous_references);
+
+-- =====================
+-- RETRY TO A CORRECTED NUMBER
+-- =====================
+-- Same as markets-migration.sql, except the refund stays 'failed' and is queued
+-- for retry-refunds, which checks the last attempt with the provider and sends
+-- under a fresh reference. Going back to 'pending' re-sent under the old one.
+
+CREATE OR REPLACE FUNCTION public.update_refund_phone(p_payment_id UUID, p_phone_number TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  v_market public.markets%ROWTYPE;
+  v_phone TEXT;
+BEGIN
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.role() != 'service_role' AND v_payment.user_id != auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_found',
+      'message', 'Refund not found.');
+  END IF;
+
+  IF v_payment.payment_type NOT IN ('refund_to_passenger', 'refund_to_driver') OR v_payment.status != 'failed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_failed',
+      'message', 'Only a failed refund can be sent to a new number.');
+  END IF;
+
+  SELECT * INTO v_market FROM public.markets WHERE currency = v_payment.currency;
+  v_phone := public.normalize_mobile_number(p_phone_number, v_market.code);
+
+  IF v_phone IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_phone',
+      'message', format('Enter a %s mobile number.', v_market.name));
+  END IF;
+
+  IF public.mobile_network(v_phone, v_market.code) IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'unsupported_network',
+      'message', format('That number is not on a mobile money network we support in %s.', v_market.name));
+  END IF;
+
+  UPDATE public.payments
+  SET phone_number = v_phone,
+      needs_retry = true,
+      awaiting_phone_update = false,
+      dead_lettered_at = NULL,
+      next_retry_at = NOW(),
+      retry_count = 0,
+      error_message = NULL
+  WHERE id = p_payment_id;
+
+  UPDATE public.admin_alerts
+  SET resolved_at = NOW()
+  WHERE payment_id = p_payment_id AND resolved_at IS NULL;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,217 @@
+-- Refund Retry Queue Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after refund-callbacks-migration.sql and cancel-ride-migration.sql)
+--
+-- Superseded: markets-migration.sql redefines schedule_refund_retry() (alerts
+-- in the refund's currency) and update_refund_phone() (numbers from the
+-- refund's market, after mobile-networks-migration.sql), and
+-- refund-references-migration.sql redefines update_refund_phone() again (the
+-- refund is retried under a fresh reference). The copies below are the
+-- Uganda-only originals; read those files for the current behaviour.
+
+-- =====================
+-- RETRY SCHEDULE ON PAYMENTS
+-- =====================
+-- A refund flagged needs_retry is retried by the retry-refunds Edge Function at
+-- next_retry_at, backing off exponentially. retry_count counts failed attempts;
+-- once it reaches the maximum the refund is dead-lettered and admins alerted.
+-- A refund that failed because of the payout number waits for a corrected
+-- number instead of being retried to the same one.
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMPTZ;
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS awaiting_phone_update BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_payments_retry_due
+  ON public.payments(next_retry_at)
+  WHERE needs_retry;
+
+-- =====================
+-- ADMIN ALERTS
+-- =====================
+-- Written by the database, delivered by retry-refunds to ADMIN_ALERT_WEBHOOK_URL
+
+CREATE TABLE IF NOT EXISTS public.admin_alerts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind TEXT NOT NULL, -- 'refund_dead_lettered', 'refund_phone_invalid', 'paid_for_inactive_booking', 'transfer_stuck', 'payout_completed_after_failure', 'superseded_refund_completed'
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE,
+  message TEXT NOT NULL,
+  notified_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_alerts_unnotified ON public.admin_alerts(created_at) WHERE notified_at IS NULL;
+
+-- Service role only
+ALTER TABLE public.admin_alerts ENABLE ROW LEVEL SECURITY;
+
+-- =====================
+-- SCHEDULE / DEAD-LETTER ON EACH FAILURE
+-- =====================
+-- Backoff: 5, 10, 20, 40, 80... minutes, capped at 12 hours. Every path that fails
+-- a refund (process-refund, cancel-ride, the webhook, reconciliation, retries)
+-- only has to set status = 'failed', needs_retry = true and bump retry_count.
+
+CREATE OR REPLACE FUNCTION public.schedule_refund_retry()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_max_attempts CONSTANT INTEGER := 8;
+BEGIN
+  IF NEW.payment_type NOT IN ('refund_to_passenger', 'refund_to_driver')
+     OR NEW.status != 'failed'
+     OR NOT COALESCE(NEW.needs_retry, false) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only act on a new failure, not on unrelated updates to an already failed refund
+  IF TG_OP = 'UPDATE'
+     AND OLD.status = 'failed'
+     AND COALESCE(OLD.needs_retry, false)
+     AND NEW.retry_count <= OLD.retry_count
+     AND NEW.awaiting_phone_update IS NOT DISTINCT FROM OLD.awaiting_phone_update THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.retry_count >= v_max_attempts THEN
+    NEW.needs_retry := false;
+    NEW.next_retry_at := NULL;
+    NEW.dead_lettered_at := NOW();
+
+    INSERT INTO public.admin_alerts (kind, payment_id, message)
+    VALUES ('refund_dead_lettered', NEW.id,
+      format('Refund %s of UGX %s to %s gave up after %s attempts: %s',
+        NEW.pandora_reference, NEW.amount, NEW.phone_number, NEW.retry_count, COALESCE(NEW.error_message, 'unknown error')));
+  ELSIF NEW.awaiting_phone_update THEN
+    NEW.next_retry_at := NULL;
+
+    INSERT INTO public.admin_alerts (kind, payment_id, message)
+    VALUES ('refund_phone_invalid', NEW.id,
+      format('Refund %s of UGX %s could not be paid to %s and is waiting for a corrected number: %s',
+        NEW.pandora_reference, NEW.amount, NEW.phone_number, COALESCE(NEW.error_message, 'unknown error')));
+  ELSE
+    NEW.next_retry_at := NOW() + LEAST(
+      INTERVAL '5 minutes' * power(2, GREATEST(NEW.retry_count - 1, 0)),
+      INTERVAL '12 hours'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS payments_schedule_refund_retry ON public.payments;
+CREATE TRIGGER payments_schedule_refund_retry
+  BEFORE INSERT OR UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.schedule_refund_retry();
+
+-- =====================
+-- RETRY TO A CORRECTED NUMBER
+-- =====================
+-- The recipient (or support via the service role) fixes the payout number of a
+-- failed or dead-lettered refund. The refund goes back to 'pending' with a fresh
+-- set of attempts and is picked up by the next retry-refunds run.
+
+CREATE OR REPLACE FUNCTION public.update_refund_phone(p_payment_id UUID, p_phone_number TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_payment public.payments%ROWTYPE;
+  -- Accept 07XXXXXXXX, 7XXXXXXXX or +256XXXXXXXXX and store 256XXXXXXXXX like initiate-payment
+  v_phone TEXT := regexp_replace(COALESCE(p_phone_number, ''), '\D', '', 'g');
+BEGIN
+  IF v_phone LIKE '0%' THEN
+    v_phone := '256' || substring(v_phone FROM 2);
+  ELSIF length(v_phone) = 9 THEN
+    v_phone := '256' || v_phone;
+  END IF;
+
+  SELECT * INTO v_payment FROM public.payments WHERE id = p_payment_id FOR UPDATE;
+
+  IF NOT FOUND OR (auth.role() != 'service_role' AND v_payment.user_id != auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_found',
+      'message', 'Refund not found.');
+  END IF;
+
+  IF v_payment.payment_type NOT IN ('refund_to_passenger', 'refund_to_driver') OR v_payment.status != 'failed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'refund_not_failed',
+      'message', 'Only a failed refund can be sent to a new number.');
+  END IF;
+
+  IF v_phone !~ '^256[7-9][0-9]{8}$' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_phone',
+      'message', 'Enter a valid Uganda mobile money number.');
+  END IF;
+
+  UPDATE public.payments
+  SET phone_number = v_phone,
+      status = 'pending',
+      needs_retry = false,
+      awaiting_phone_update = false,
+      dead_lettered_at = NULL,
+      next_retry_at = NULL,
+      retry_count = 0,
+      error_message = NULL
+  WHERE id = p_payment_id;
+
+  UPDATE public.admin_alerts
+  SET resolved_at = NOW()
+  WHERE payment_id = p_payment_id AND resolved_at IS NULL;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.update_refund_phone(UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.update_refund_phone(UUID, TEXT) TO authenticated;
+
+-- =====================
+-- FAILED DISBURSEMENTS VIEW
+-- =====================
+-- Now also shows dead-lettered refunds and ones waiting for a new number
+
+CREATE OR REPLACE VIEW public.failed_disbursements AS
+SELECT
+  p.id,
+  p.booking_id,
+  p.user_id,
+  p.amount,
+  p.payment_type,
+  p.phone_number,
+  p.pandora_reference,
+  p.error_message,
+  p.retry_count,
+  p.created_at,
+  p.updated_at,
+  b.status as booking_status,
+  u.full_name as recipient_name,
+  p.next_retry_at,
+  p.dead_lettered_at,
+  p.awaiting_phone_update
+FROM public.payments p
+JOIN public.bookings b ON p.booking_id = b.id
+JOIN public.users u ON p.user_id = u.id
+WHERE p.payment_type IN ('refund_to_passenger', 'refund_to_driver')
+  AND p.status = 'failed'
+  AND (p.needs_retry OR p.dead_lettered_at IS NOT NULL);
+
+REVOKE ALL ON public.failed_disbursements FROM anon, authenticated;
+
+-- =====================
+-- SCHEDULE
+-- =====================
+-- Run every 5 minutes alongside reconcile-payments, replacing the project ref and service role key:
+--
+-- SELECT cron.schedule(
+--   'retry-refunds',
+--   '*/5 * * * *',
+--   $$
+--   SELECT net.http_post(
+--     url := 'https://[YOUR-PROJECT-REF].supabase.co/functions/v1/retry-refunds',
+--     headers := jsonb_build_object('Authorization', 'Bearer [SERVICE-ROLE-KEY]')
+--   );
+--   $$
+-- );
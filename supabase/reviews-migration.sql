@@ -0,0 +1,184 @@
+-- Reviews Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after ride-completion-migration.sql)
+
+-- =====================
+-- TAGS AND ROLES
+-- =====================
+-- After a completed ride the passenger reviews the driver and the driver
+-- reviews the passenger: 1-5 stars, optional tags and a comment. The tags a
+-- review can carry depend on who is reviewed; src/lib/reviews.ts has the
+-- labels, keep the two in step.
+
+CREATE OR REPLACE FUNCTION public.review_tags(p_reviewee_role TEXT)
+RETURNS TEXT[] AS $$
+  SELECT CASE p_reviewee_role
+    WHEN 'driver' THEN ARRAY['punctual', 'safe_driving', 'clean_car', 'friendly']
+    WHEN 'passenger' THEN ARRAY['punctual', 'friendly', 'respectful']
+    ELSE ARRAY[]::TEXT[]
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS reviewee_role TEXT CHECK (reviewee_role IN ('driver', 'passenger'));
+
+UPDATE public.reviews rv
+SET reviewee_role = CASE WHEN rv.reviewee_id = b.passenger_id THEN 'passenger' ELSE 'driver' END
+FROM public.bookings b
+WHERE b.id = rv.booking_id AND rv.reviewee_role IS NULL;
+
+ALTER TABLE public.reviews
+  ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_tags_check;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_tags_check
+  CHECK (tags <@ public.review_tags(reviewee_role));
+
+ALTER TABLE public.reviews DROP CONSTRAINT IF EXISTS reviews_comment_length;
+ALTER TABLE public.reviews ADD CONSTRAINT reviews_comment_length
+  CHECK (char_length(comment) <= 500);
+
+CREATE INDEX IF NOT EXISTS idx_reviews_reviewer ON public.reviews(reviewer_id);
+
+-- =====================
+-- RATINGS
+-- =====================
+-- Same as schema.sql, except it runs as the owner: the reviewer can't update
+-- the reviewee's users row, so average_rating was never written
+
+CREATE OR REPLACE FUNCTION update_user_rating()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.users
+  SET average_rating = (
+    SELECT ROUND(AVG(rating)::numeric, 1)
+    FROM public.reviews
+    WHERE reviewee_id = NEW.reviewee_id
+  )
+  WHERE id = NEW.reviewee_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- SUBMIT A REVIEW
+-- =====================
+-- The only way to write a review. The policy it replaces let the reviewer pick
+-- any reviewee_id; here the reviewee is always the other side of the booking.
+-- Returns { success, review_id } or { success: false, error_code, message }
+
+DROP POLICY IF EXISTS "Users can create reviews for completed bookings" ON public.reviews;
+
+CREATE OR REPLACE FUNCTION public.submit_review(
+  p_booking_id UUID,
+  p_rating INTEGER,
+  p_tags TEXT[] DEFAULT '{}',
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_booking public.bookings%ROWTYPE;
+  v_driver_id UUID;
+  v_reviewee_id UUID;
+  v_reviewee_role TEXT;
+  v_comment TEXT := NULLIF(trim(COALESCE(p_comment, '')), '');
+  v_review_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+  SELECT driver_id INTO v_driver_id FROM public.rides WHERE id = v_booking.ride_id;
+
+  IF v_booking.passenger_id = v_user_id THEN
+    v_reviewee_id := v_driver_id;
+    v_reviewee_role := 'driver';
+  ELSIF v_driver_id = v_user_id THEN
+    v_reviewee_id := v_booking.passenger_id;
+    v_reviewee_role := 'passenger';
+  ELSE
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_found',
+      'message', 'Booking not found.');
+  END IF;
+
+  IF v_booking.status != 'completed' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_completed',
+      'message', 'You can review a ride once it has been completed.');
+  END IF;
+
+  IF p_rating IS NULL OR p_rating NOT BETWEEN 1 AND 5 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_rating',
+      'message', 'Choose a rating from 1 to 5 stars.');
+  END IF;
+
+  IF NOT COALESCE(p_tags, '{}') <@ public.review_tags(v_reviewee_role) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_tags',
+      'message', 'One of those tags does not apply.');
+  END IF;
+
+  IF char_length(v_comment) > 500 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'comment_too_long',
+      'message', 'Keep your comment under 500 characters.');
+  END IF;
+
+  INSERT INTO public.reviews (booking_id, reviewer_id, reviewee_id, reviewee_role, rating, tags, comment)
+  VALUES (p_booking_id, v_user_id, v_reviewee_id, v_reviewee_role, p_rating,
+    ARRAY(SELECT DISTINCT unnest(COALESCE(p_tags, '{}'))), v_comment)
+  ON CONFLICT (booking_id, reviewer_id) DO NOTHING
+  RETURNING id INTO v_review_id;
+
+  IF v_review_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'already_reviewed',
+      'message', 'You have already reviewed this ride.');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'review_id', v_review_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT[], TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.submit_review(UUID, INTEGER, TEXT[], TEXT) TO authenticated;
+
+-- =====================
+-- REVIEWS TO WRITE
+-- =====================
+-- The signed-in user's completed bookings from the last 30 days they haven't
+-- reviewed yet, as passenger or as driver, for the post-ride prompt
+
+CREATE OR REPLACE FUNCTION public.pending_reviews()
+RETURNS TABLE (
+  booking_id UUID,
+  reviewee_id UUID,
+  reviewee_name TEXT,
+  reviewee_avatar_url TEXT,
+  reviewee_role TEXT,
+  origin_name TEXT,
+  destination_name TEXT,
+  departure_time TIMESTAMPTZ
+) AS $$
+  SELECT
+    b.id,
+    u.id,
+    u.full_name,
+    u.avatar_url,
+    CASE WHEN b.passenger_id = auth.uid() THEN 'driver' ELSE 'passenger' END,
+    r.origin_name,
+    r.destination_name,
+    r.departure_time
+  FROM public.bookings b
+  JOIN public.rides r ON r.id = b.ride_id
+  JOIN public.users u ON u.id = CASE WHEN b.passenger_id = auth.uid() THEN r.driver_id ELSE b.passenger_id END
+  WHERE b.status = 'completed'
+    AND (b.passenger_id = auth.uid() OR r.driver_id = auth.uid())
+    AND r.departure_time > NOW() - INTERVAL '30 days'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.reviews rv
+      WHERE rv.booking_id = b.id AND rv.reviewer_id = auth.uid()
+    )
+  ORDER BY r.departure_time DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.pending_reviews() FROM anon;
+GRANT EXECUTE ON FUNCTION public.pending_reviews() TO authenticated;
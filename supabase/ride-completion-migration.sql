@@ -0,0 +1,384 @@
+-- Ride Completion Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after markets-migration.sql)
+
+-- =====================
+-- COMPLETION AND DISPUTES
+-- =====================
+-- A ride is completed by its driver once it is due to have arrived, or by the
+-- scheduled complete_due_rides() job once it is overdue (see below). Completing
+-- a ride completes its confirmed bookings, which counts the trip in
+-- users.total_rides, settles a fare paid in the app to the driver's wallet and
+-- lets both sides review each other. A passenger can confirm their own booking
+-- early, once the ride has departed.
+--
+-- Either side can dispute a booking after departure instead, e.g. the driver
+-- never came or the passenger didn't show. A disputed booking is not completed
+-- (its fare stays held) until an admin resolves the dispute.
+
+ALTER TABLE public.rides
+  ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMPTZ;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS disputed_by UUID REFERENCES public.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS dispute_reason TEXT;
+
+ALTER TABLE public.bookings
+  ADD COLUMN IF NOT EXISTS dispute_resolved_at TIMESTAMPTZ;
+
+-- Finding overdue rides and open disputes
+CREATE INDEX IF NOT EXISTS idx_rides_open_departure
+  ON public.rides(departure_time)
+  WHERE status IN ('active', 'full');
+
+CREATE INDEX IF NOT EXISTS idx_bookings_open_disputes
+  ON public.bookings(disputed_at)
+  WHERE disputed_at IS NOT NULL AND dispute_resolved_at IS NULL;
+
+-- Disputes are raised for admins, so alerts can now point at a booking
+ALTER TABLE public.admin_alerts
+  ADD COLUMN IF NOT EXISTS booking_id UUID REFERENCES public.bookings(id) ON DELETE CASCADE;
+
+-- How long after the expected arrival a ride is left open for either side to
+-- confirm or dispute before it is completed automatically
+CREATE OR REPLACE FUNCTION public.ride_completion_grace()
+RETURNS INTERVAL AS $$
+  SELECT INTERVAL '3 hours';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- When a ride is expected to arrive: departure plus its duration (12 hours when
+-- the route wasn't measured). The driver can't complete it before then, so
+-- their passengers can still dispute it.
+CREATE OR REPLACE FUNCTION public.ride_expected_arrival(p_departure_time TIMESTAMPTZ, p_duration_minutes INTEGER)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT p_departure_time + make_interval(mins => COALESCE(p_duration_minutes, 720));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- When a ride is completed automatically: the expected arrival plus the grace period
+CREATE OR REPLACE FUNCTION public.ride_completion_due_at(p_departure_time TIMESTAMPTZ, p_duration_minutes INTEGER)
+RETURNS TIMESTAMPTZ AS $$
+  SELECT public.ride_expected_arrival(p_departure_time, p_duration_minutes)
+    + public.ride_completion_grace();
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.has_open_dispute(p_booking public.bookings)
+RETURNS BOOLEAN AS $$
+  SELECT p_booking.disputed_at IS NOT NULL AND p_booking.dispute_resolved_at IS NULL;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================
+-- LEGAL TRANSITIONS
+-- =====================
+-- Same as booking-state-machine-migration.sql, except confirmed -> completed is
+-- also allowed for the passenger and the driver, and never while disputed:
+--   confirmed -> completed    passenger or system after departure, driver
+--                             after the expected arrival, without an open
+--                             dispute
+
+CREATE OR REPLACE FUNCTION public.enforce_booking_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_system BOOLEAN := COALESCE(auth.role(), 'service_role') = 'service_role';
+  v_actor_id UUID := NULLIF(current_setting('blueox.actor_id', true), '')::UUID;
+  v_reason TEXT := NULLIF(current_setting('blueox.transition_reason', true), '');
+  v_driver_id UUID;
+  v_departure_time TIMESTAMPTZ;
+  v_duration_minutes INTEGER;
+  v_actor_role TEXT;
+  v_allowed BOOLEAN;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(current_setting('blueox.via_transition', true), '') != 'on' THEN
+    RAISE EXCEPTION 'illegal_transition: booking status can only change through transition_booking()';
+  END IF;
+
+  SELECT driver_id, departure_time, duration_minutes INTO v_driver_id, v_departure_time, v_duration_minutes
+  FROM public.rides WHERE id = NEW.ride_id;
+
+  v_actor_role := CASE
+    WHEN v_actor_id = NEW.passenger_id THEN 'passenger'
+    WHEN v_actor_id = v_driver_id THEN 'driver'
+    WHEN v_is_system THEN 'system'
+  END;
+
+  v_allowed := CASE
+    WHEN OLD.status = 'pending_payment' AND NEW.status = 'confirmed' THEN
+      v_is_system
+    WHEN OLD.status = 'pending_payment' AND NEW.status = 'cancelled_by_passenger' THEN
+      v_is_system OR v_actor_role = 'passenger'
+    WHEN OLD.status = 'pending_payment' AND NEW.status = 'cancelled_by_driver' THEN
+      v_is_system OR v_actor_role = 'driver'
+    WHEN OLD.status = 'confirmed' AND NEW.status IN ('cancelled_by_passenger', 'cancelled_by_driver') THEN
+      v_is_system
+    WHEN OLD.status = 'confirmed' AND NEW.status = 'completed' AND v_actor_role = 'driver' THEN
+      public.ride_expected_arrival(v_departure_time, v_duration_minutes) <= NOW() AND NOT public.has_open_dispute(NEW)
+    WHEN OLD.status = 'confirmed' AND NEW.status = 'completed' THEN
+      v_departure_time <= NOW() AND NOT public.has_open_dispute(NEW)
+    ELSE false
+  END;
+
+  IF NOT v_allowed OR v_actor_role IS NULL THEN
+    RAISE EXCEPTION 'illegal_transition: % -> % by %', OLD.status, NEW.status, COALESCE(v_actor_role, 'unknown');
+  END IF;
+
+  INSERT INTO public.booking_status_history (booking_id, from_status, to_status, actor_id, actor_role, reason)
+  VALUES (NEW.id, OLD.status, NEW.status, v_actor_id, v_actor_role, v_reason);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- NO DIRECT RIDE COMPLETION
+-- =====================
+-- Drivers can still edit their rides, but marking one completed directly would
+-- leave its bookings open (and un-completing it would reopen it), so it must go
+-- through complete_ride()
+
+CREATE OR REPLACE FUNCTION public.protect_ride_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND 'completed' IN (NEW.status, OLD.status)
+     AND COALESCE(current_setting('blueox.via_complete_ride', true), '') != 'on' THEN
+    RAISE EXCEPTION 'Rides can only be completed through complete_ride()';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS rides_protect_completion ON public.rides;
+CREATE TRIGGER rides_protect_completion
+  BEFORE UPDATE ON public.rides
+  FOR EACH ROW EXECUTE FUNCTION public.protect_ride_completion();
+
+-- =====================
+-- COMPLETE A RIDE
+-- =====================
+-- The driver confirms the trip happened once it is due to have arrived, or the
+-- scheduled job (service role or a session with no JWT) closes it. Confirmed bookings without an open dispute
+-- are completed; disputed ones stay confirmed until resolved.
+-- Returns { success, completed_bookings, disputed_bookings } or
+-- { success: false, error_code, message }
+
+CREATE OR REPLACE FUNCTION public.complete_ride(p_ride_id UUID, p_reason TEXT DEFAULT 'driver_confirmed_completion')
+RETURNS JSONB AS $$
+DECLARE
+  v_is_system BOOLEAN := COALESCE(auth.role(), 'service_role') = 'service_role';
+  v_ride public.rides%ROWTYPE;
+  v_booking public.bookings%ROWTYPE;
+  v_completed INTEGER := 0;
+  v_disputed INTEGER := 0;
+BEGIN
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND OR (NOT v_is_system AND v_ride.driver_id IS DISTINCT FROM auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'Ride not found.');
+  END IF;
+
+  IF v_ride.status IN ('cancelled', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_closed',
+      'message', format('This ride is already %s.', v_ride.status));
+  END IF;
+
+  IF v_ride.departure_time > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_departed',
+      'message', 'A ride can only be completed after it has departed.');
+  END IF;
+
+  -- Completing blocks disputes and pays the driver, so not before the passengers have arrived
+  IF NOT v_is_system AND public.ride_expected_arrival(v_ride.departure_time, v_ride.duration_minutes) > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_arrived',
+      'message', format('You can confirm the ride once it is due to arrive, at %s.',
+        to_char(public.ride_expected_arrival(v_ride.departure_time, v_ride.duration_minutes) AT TIME ZONE 'Africa/Kampala', 'HH24:MI on Dy DD Mon')));
+  END IF;
+
+  FOR v_booking IN
+    SELECT * FROM public.bookings
+    WHERE ride_id = p_ride_id AND status = 'confirmed'
+    FOR UPDATE
+  LOOP
+    IF public.has_open_dispute(v_booking) THEN
+      v_disputed := v_disputed + 1;
+    ELSE
+      -- Recorded as the driver when they confirm, as the system for the job
+      PERFORM public.transition_booking(v_booking.id, 'completed', p_reason, NULL);
+      v_completed := v_completed + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('blueox.via_complete_ride', 'on', true);
+  UPDATE public.rides
+  SET status = 'completed', completed_at = NOW()
+  WHERE id = p_ride_id;
+  PERFORM set_config('blueox.via_complete_ride', '', true);
+
+  RETURN jsonb_build_object('success', true,
+    'completed_bookings', v_completed,
+    'disputed_bookings', v_disputed);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.complete_ride(UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.complete_ride(UUID, TEXT) TO authenticated;
+
+-- =====================
+-- DISPUTE A BOOKING
+-- =====================
+-- By the booking's passenger or the ride's driver, after departure and before
+-- the booking is completed. Returns { success } or { success: false, error_code, message }
+
+CREATE OR REPLACE FUNCTION public.dispute_booking_completion(p_booking_id UUID, p_reason TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_booking public.bookings%ROWTYPE;
+  v_ride public.rides%ROWTYPE;
+  v_role TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id FOR UPDATE;
+  SELECT * INTO v_ride FROM public.rides WHERE id = v_booking.ride_id;
+
+  v_role := CASE
+    WHEN v_booking.passenger_id = v_user_id THEN 'passenger'
+    WHEN v_ride.driver_id = v_user_id THEN 'driver'
+  END;
+
+  IF v_booking.id IS NULL OR v_role IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_found',
+      'message', 'Booking not found.');
+  END IF;
+
+  IF v_booking.status != 'confirmed' OR v_ride.departure_time > NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_disputable',
+      'message', 'Only a confirmed booking on a ride that has departed can be disputed.');
+  END IF;
+
+  IF public.has_open_dispute(v_booking) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'dispute_open',
+      'message', 'This booking is already disputed.');
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'reason_required',
+      'message', 'Tell us what went wrong.');
+  END IF;
+
+  UPDATE public.bookings
+  SET disputed_at = NOW(),
+      disputed_by = v_user_id,
+      dispute_reason = trim(p_reason),
+      dispute_resolved_at = NULL
+  WHERE id = p_booking_id;
+
+  INSERT INTO public.admin_alerts (kind, booking_id, message)
+  VALUES ('completion_disputed', p_booking_id,
+    format('Booking %s on %s → %s (%s) disputed by the %s: %s',
+      p_booking_id, v_ride.origin_name, v_ride.destination_name,
+      to_char(v_ride.departure_time AT TIME ZONE 'Africa/Kampala', 'YYYY-MM-DD HH24:MI'),
+      v_role, trim(p_reason)));
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.dispute_booking_completion(UUID, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION public.dispute_booking_completion(UUID, TEXT) TO authenticated;
+
+-- Run by an admin from the SQL editor once the dispute is settled (refunding
+-- the passenger first through process-refund if they are owed money). A
+-- booking still confirmed is completed by the next complete_due_rides() run.
+CREATE OR REPLACE FUNCTION public.resolve_booking_dispute(p_booking_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  UPDATE public.bookings
+  SET dispute_resolved_at = NOW()
+  WHERE id = p_booking_id
+    AND disputed_at IS NOT NULL
+    AND dispute_resolved_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'no_open_dispute',
+      'message', 'This booking has no open dispute.');
+  END IF;
+
+  UPDATE public.admin_alerts
+  SET resolved_at = NOW()
+  WHERE booking_id = p_booking_id AND kind = 'completion_disputed' AND resolved_at IS NULL;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_booking_dispute(UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================
+-- SCHEDULED COMPLETION
+-- =====================
+-- Completes every ride past ride_completion_due_at(), and confirmed bookings on
+-- already completed rides whose dispute has since been resolved.
+-- Returns { rides, bookings }: how many of each were completed
+
+CREATE OR REPLACE FUNCTION public.complete_due_rides()
+RETURNS JSONB AS $$
+DECLARE
+  v_ride_id UUID;
+  v_booking public.bookings%ROWTYPE;
+  v_result JSONB;
+  v_rides INTEGER := 0;
+  v_bookings INTEGER := 0;
+BEGIN
+  FOR v_ride_id IN
+    SELECT id FROM public.rides
+    WHERE status IN ('active', 'full')
+      AND public.ride_completion_due_at(departure_time, duration_minutes) <= NOW()
+    ORDER BY departure_time
+  LOOP
+    v_result := public.complete_ride(v_ride_id, 'ride_completed_automatically');
+    IF (v_result->>'success')::BOOLEAN THEN
+      v_rides := v_rides + 1;
+      v_bookings := v_bookings + (v_result->>'completed_bookings')::INTEGER;
+    END IF;
+  END LOOP;
+
+  FOR v_booking IN
+    SELECT b.* FROM public.bookings b
+    JOIN public.rides r ON r.id = b.ride_id
+    WHERE r.status = 'completed'
+      AND b.status = 'confirmed'
+      AND b.dispute_resolved_at IS NOT NULL
+    FOR UPDATE OF b
+  LOOP
+    PERFORM public.transition_booking(v_booking.id, 'completed', 'dispute_resolved', NULL);
+    v_bookings := v_bookings + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('rides', v_rides, 'bookings', v_bookings);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.complete_due_rides() FROM PUBLIC, anon, authenticated;
+
+-- =====================
+-- SCHEDULE
+-- =====================
+-- Run every 15 minutes with pg_cron (enable it under Database -> Extensions).
+-- The job runs in the database, so it needs no Edge Function or key:
+--
+-- SELECT cron.schedule(
+--   'complete-rides',
+--   '*/15 * * * *',
+--   $$ SELECT public.complete_due_rides(); $$
+-- );
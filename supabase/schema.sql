@@ -99,7 +99,7 @@ CREATE TABLE public.bookings (
   ride_id UUID NOT NULL REFERENCES public.rides(id) ON DELETE CASCADE,
   passenger_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
   seats_booked INTEGER NOT NULL DEFAULT 1 CHECK (seats_booked > 0 AND seats_booked <= 4),
-  booking_fee INTEGER NOT NULL CHECK (booking_fee > 0), -- 10% of ride price per seat
+  booking_fee INTEGER NOT NULL CHECK (booking_fee > 0), -- Set by the ride's fee schedule (fee-schedule-migration.sql)
   status booking_status DEFAULT 'pending_payment',
 
   created_at TIMESTAMPTZ DEFAULT NOW(),
@@ -0,0 +1,254 @@
+-- Seat Holds Migration
+-- Run this in Supabase Dashboard -> SQL Editor (after create-booking-migration.sql)
+
+-- =====================
+-- HOLD EXPIRY ON BOOKINGS
+-- =====================
+-- A pending_payment booking holds its seats until hold_expires_at. Held seats
+-- are subtracted from rides.available_seats when checking availability, so a
+-- hold releases its seats the moment it expires. The unpaid booking itself is
+-- cancelled later by cancel_expired_holds (below).
+-- Seats are still only decremented for real when the booking is confirmed.
+
+ALTER TABLE public.bookings
+ADD COLUMN IF NOT EXISTS hold_expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_active_holds
+  ON public.bookings(ride_id, hold_expires_at)
+  WHERE status = 'pending_payment';
+
+-- =====================
+-- HELD / BOOKABLE SEATS
+-- =====================
+
+-- Seats held by unexpired pending bookings, optionally ignoring one booking
+CREATE OR REPLACE FUNCTION public.held_seats(p_ride_id UUID, p_exclude_booking_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+  SELECT COALESCE(SUM(seats_booked), 0)::INTEGER
+  FROM public.bookings
+  WHERE ride_id = p_ride_id
+    AND status = 'pending_payment'
+    AND hold_expires_at > NOW()
+    AND (p_exclude_booking_id IS NULL OR id != p_exclude_booking_id);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Seats a new passenger could book right now
+CREATE OR REPLACE FUNCTION public.ride_bookable_seats(p_ride_id UUID)
+RETURNS INTEGER AS $$
+  SELECT GREATEST(r.available_seats - public.held_seats(r.id), 0)
+  FROM public.rides r
+  WHERE r.id = p_ride_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.ride_bookable_seats(UUID) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.held_seats(UUID, UUID) FROM anon, authenticated;
+
+-- =====================
+-- EXTEND / RE-TAKE A HOLD
+-- =====================
+-- Called by initiate-payment while a payment is processing. Re-takes an expired
+-- hold only if the seats are still free. Returns { success, hold_expires_at }
+-- or { success: false, error_code, message }.
+
+CREATE OR REPLACE FUNCTION public.extend_seat_hold(p_booking_id UUID, p_minutes INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_booking public.bookings%ROWTYPE;
+  v_ride public.rides%ROWTYPE;
+  v_expires_at TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_booking FROM public.bookings WHERE id = p_booking_id;
+
+  IF NOT FOUND OR v_booking.status != 'pending_payment' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'booking_not_pending',
+      'message', 'This booking is no longer waiting for payment.');
+  END IF;
+
+  -- Lock the ride so a concurrent create_booking can't take the same seats
+  SELECT * INTO v_ride FROM public.rides WHERE id = v_booking.ride_id FOR UPDATE;
+
+  IF v_booking.seats_booked > v_ride.available_seats - public.held_seats(v_ride.id, v_booking.id) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'seats_unavailable',
+      'message', 'Your seat hold expired and the seats have been taken.');
+  END IF;
+
+  v_expires_at := GREATEST(COALESCE(v_booking.hold_expires_at, NOW()), NOW() + make_interval(mins => p_minutes));
+
+  UPDATE public.bookings SET hold_expires_at = v_expires_at WHERE id = p_booking_id;
+
+  RETURN jsonb_build_object('success', true, 'hold_expires_at', v_expires_at);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.extend_seat_hold(UUID, INTEGER) FROM anon, authenticated;
+
+-- =====================
+-- NEVER CONFIRM INTO SOMEONE ELSE'S HOLD
+-- =====================
+-- A payment that lands after its hold expired may only confirm if the seats are
+-- still free; otherwise the update fails with 'seats_unavailable'.
+
+CREATE OR REPLACE FUNCTION public.check_seats_on_confirm()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_available INTEGER;
+BEGIN
+  IF NEW.status = 'confirmed' AND OLD.status = 'pending_payment' THEN
+    SELECT available_seats INTO v_available FROM public.rides WHERE id = NEW.ride_id FOR UPDATE;
+
+    IF NEW.seats_booked > v_available - public.held_seats(NEW.ride_id, NEW.id) THEN
+      RAISE EXCEPTION 'seats_unavailable';
+    END IF;
+
+    NEW.hold_expires_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS booking_confirm_seat_check ON public.bookings;
+CREATE TRIGGER booking_confirm_seat_check
+  BEFORE UPDATE ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.check_seats_on_confirm();
+
+-- =====================
+-- EXPIRED HOLDS
+-- =====================
+-- An expired hold stops counting against the ride's seats at once (above), but
+-- its booking stays pending_payment and keeps the passenger from booking the
+-- ride again. This cancels such bookings. A booking whose fee is still pending
+-- or processing is left alone: the payment may yet land and confirm it if the
+-- seats are free.
+-- create_booking calls it for the passenger's own hold on the ride, and the
+-- expire-seat-holds job for every ride (see SCHEDULE below). Returns how many
+-- bookings were cancelled.
+
+CREATE OR REPLACE FUNCTION public.cancel_expired_holds(
+  p_ride_id UUID DEFAULT NULL,
+  p_passenger_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_cancelled INTEGER;
+BEGIN
+  UPDATE public.bookings
+  SET status = 'cancelled_by_passenger'
+  WHERE id IN (
+    SELECT b.id FROM public.bookings b
+    WHERE b.status = 'pending_payment'
+      AND b.hold_expires_at <= NOW()
+      AND (p_ride_id IS NULL OR b.ride_id = p_ride_id)
+      AND (p_passenger_id IS NULL OR b.passenger_id = p_passenger_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM public.payments p
+        WHERE p.booking_id = b.id
+          AND p.payment_type = 'booking_fee'
+          AND p.status IN ('pending', 'processing')
+      )
+    FOR UPDATE OF b SKIP LOCKED
+  );
+
+  GET DIAGNOSTICS v_cancelled = ROW_COUNT;
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_expired_holds(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- =====================
+-- CREATE BOOKING WITH A HOLD
+-- =====================
+-- Same checks as before, but availability subtracts other passengers' holds
+-- and the new booking holds its seats for 15 minutes
+
+CREATE OR REPLACE FUNCTION public.create_booking(p_ride_id UUID, p_seats INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_passenger_id UUID := auth.uid();
+  v_ride public.rides%ROWTYPE;
+  v_bookable INTEGER;
+  v_booking_fee INTEGER;
+  v_booking_id UUID;
+  v_hold_expires_at TIMESTAMPTZ := NOW() + INTERVAL '15 minutes';
+BEGIN
+  IF v_passenger_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'not_authenticated',
+      'message', 'Please sign in to book a seat.');
+  END IF;
+
+  IF p_seats IS NULL OR p_seats < 1 OR p_seats > 4 THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'invalid_seats',
+      'message', 'You can book between 1 and 4 seats.');
+  END IF;
+
+  -- Lock the ride so concurrent bookings see each other's holds
+  SELECT * INTO v_ride FROM public.rides WHERE id = p_ride_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_found',
+      'message', 'This ride may have been removed.');
+  END IF;
+
+  IF v_ride.status != 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_not_active',
+      'message', 'This ride is no longer available.');
+  END IF;
+
+  IF v_ride.departure_time <= NOW() THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'ride_departed',
+      'message', 'This ride has already departed.');
+  END IF;
+
+  IF v_ride.driver_id = v_passenger_id THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'self_booking',
+      'message', 'You cannot book a seat on your own ride.');
+  END IF;
+
+  -- A hold of theirs that expired unpaid no longer blocks booking again
+  PERFORM public.cancel_expired_holds(p_ride_id, v_passenger_id);
+
+  IF EXISTS (
+    SELECT 1 FROM public.bookings
+    WHERE ride_id = p_ride_id
+      AND passenger_id = v_passenger_id
+      AND status IN ('pending_payment', 'confirmed')
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'duplicate_booking',
+      'message', 'You already have a booking on this ride.');
+  END IF;
+
+  v_bookable := v_ride.available_seats - public.held_seats(p_ride_id);
+
+  IF p_seats > v_bookable THEN
+    RETURN jsonb_build_object('success', false, 'error_code', 'seats_unavailable',
+      'message', format('Only %s seat(s) available.', GREATEST(v_bookable, 0)));
+  END IF;
+
+  v_booking_fee := public.calculate_booking_fee(v_ride.price, p_seats);
+
+  INSERT INTO public.bookings (ride_id, passenger_id, seats_booked, booking_fee, status, hold_expires_at)
+  VALUES (p_ride_id, v_passenger_id, p_seats, v_booking_fee, 'pending_payment', v_hold_expires_at)
+  RETURNING id INTO v_booking_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'booking_id', v_booking_id,
+    'booking_fee', v_booking_fee,
+    'hold_expires_at', v_hold_expires_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================
+-- SCHEDULE
+-- =====================
+-- Run every 5 minutes with pg_cron (enable it under Database -> Extensions).
+-- The job runs in the database, so it needs no Edge Function or key:
+--
+-- SELECT cron.schedule(
+--   'expire-seat-holds',
+--   '*/5 * * * *',
+--   $$ SELECT public.cancel_expired_holds(); $$
+-- );
@@ -0,0 +1,46 @@
+-- Webhook Signature Verification Migration
+-- Run this in Supabase Dashboard -> SQL Editor
+
+-- =====================
+-- PROCESSED WEBHOOK SIGNATURES
+-- =====================
+-- Every signature the pandora-webhook function has accepted is remembered here.
+-- A second delivery with the same signature is treated as a replay.
+
+CREATE TABLE IF NOT EXISTS public.webhook_signatures (
+  signature TEXT PRIMARY KEY,
+  transaction_ref TEXT NOT NULL,
+  received_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_signatures_received ON public.webhook_signatures(received_at);
+
+-- =====================
+-- REJECTED WEBHOOK CALLS
+-- =====================
+-- Calls that failed signature, timestamp or replay checks, kept for investigation
+
+CREATE TABLE IF NOT EXISTS public.webhook_rejections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  reason TEXT NOT NULL, -- missing_signature, invalid_signature, stale_timestamp, replayed_signature, wrong_market
+  transaction_ref TEXT,
+  remote_address TEXT,
+  raw_body TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_rejections_created ON public.webhook_rejections(created_at);
+
+-- Only the service role (Edge Functions) touches these tables
+ALTER TABLE public.webhook_signatures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_rejections ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role can manage webhook signatures" ON public.webhook_signatures;
+CREATE POLICY "Service role can manage webhook signatures"
+  ON public.webhook_signatures FOR ALL
+  USING (auth.role() = 'service_role');
+
+DROP POLICY IF EXISTS "Service role can manage webhook rejections" ON public.webhook_rejections;
+CREATE POLICY "Service role can manage webhook rejections"
+  ON public.webhook_rejections FOR ALL
+  USING (auth.role() = 'service_role');
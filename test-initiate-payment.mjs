@@ -0,0 +1,119 @@
+#!/usr/bin/env node
+// Fire concurrent and repeated calls at the initiate-payment function and check
+// that a booking is only ever charged once
+// Run the function locally with the mock provider first:
+//   npx supabase functions serve initiate-payment --no-verify-jwt --env-file supabase/.env.local
+// Then, with a pending_payment booking that has no payment yet, run:
+//   SUPABASE_ANON_KEY=... USER_JWT=... node test-initiate-payment.mjs <booking_id> [other_booking_id]
+// USER_JWT is the access token of the booking's passenger. The phone number ends
+// in 333 so the mock never calls back and the payment stays in flight.
+
+import { randomUUID } from 'crypto'
+
+const FUNCTION_URL = process.env.FUNCTION_URL || 'http://localhost:54321/functions/v1/initiate-payment'
+const ANON_KEY = process.env.SUPABASE_ANON_KEY
+const USER_JWT = process.env.USER_JWT
+const PHONE_NUMBER = process.env.PHONE_NUMBER || '0770000333'
+const CONCURRENT_CALLS = 5
+
+const BOOKING_ID = process.argv[2]
+const OTHER_BOOKING_ID = process.argv[3]
+
+if (!ANON_KEY || !USER_JWT || !BOOKING_ID) {
+  console.error('❌ Error: SUPABASE_ANON_KEY, USER_JWT and a booking id are required')
+  console.error('Usage: SUPABASE_ANON_KEY=... USER_JWT=... node test-initiate-payment.mjs <booking_id> [other_booking_id]')
+  process.exit(1)
+}
+
+async function initiate(bookingId, idempotencyKey) {
+  const response = await fetch(FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: ANON_KEY,
+      Authorization: `Bearer ${USER_JWT}`,
+    },
+    body: JSON.stringify({
+      booking_id: bookingId,
+      phone_number: PHONE_NUMBER,
+      idempotency_key: idempotencyKey,
+    }),
+  })
+  const text = await response.text()
+  let json
+  try {
+    json = JSON.parse(text)
+  } catch {
+    json = { raw: text }
+  }
+  return { status: response.status, body: json }
+}
+
+const firstKey = randomUUID()
+let firstPaymentId = null
+
+const cases = [
+  {
+    name: `${CONCURRENT_CALLS} concurrent calls with different keys create one payment`,
+    run: async () => {
+      const keys = [firstKey, ...Array.from({ length: CONCURRENT_CALLS - 1 }, () => randomUUID())]
+      return Promise.all(keys.map((key) => initiate(BOOKING_ID, key)))
+    },
+    expect: (results) => {
+      const paymentIds = new Set(results.map((r) => r.body.payment_id))
+      const fresh = results.filter((r) => r.body.reused === false)
+      firstPaymentId = results.find((r) => r.body.payment_id)?.body.payment_id ?? null
+      return results.every((r) => r.status === 200 && r.body.success) && paymentIds.size === 1 && fresh.length === 1
+    },
+  },
+  {
+    name: `${CONCURRENT_CALLS} concurrent calls with the same key create one payment`,
+    run: () => Promise.all(Array.from({ length: CONCURRENT_CALLS }, () => initiate(BOOKING_ID, firstKey))),
+    expect: (results) => results.every((r) => r.body.success && r.body.reused && r.body.payment_id === firstPaymentId),
+  },
+  {
+    name: 'A new tap while the prompt is in flight reuses the payment',
+    run: () => initiate(BOOKING_ID, randomUUID()),
+    expect: (r) => r.status === 200 && r.body.reused === true && r.body.payment_id === firstPaymentId,
+  },
+  {
+    name: 'Reusing a key for a different booking is refused',
+    skip: !OTHER_BOOKING_ID,
+    run: () => initiate(OTHER_BOOKING_ID, firstKey),
+    expect: (r) => r.status === 400 && r.body.success === false,
+  },
+]
+
+async function run() {
+  console.log(`💳 Calling ${FUNCTION_URL}`)
+  console.log(`   booking_id: ${BOOKING_ID}\n`)
+
+  let failures = 0
+  let ran = 0
+  for (const testCase of cases) {
+    if (testCase.skip) {
+      console.log(`⏭️  ${testCase.name} (pass a second booking id to run)`)
+      continue
+    }
+    ran++
+    try {
+      const result = await testCase.run()
+      if (testCase.expect(result)) {
+        console.log(`✅ ${testCase.name}`)
+      } else {
+        failures++
+        console.log(`❌ ${testCase.name}`)
+        console.log('   got:', JSON.stringify(result, null, 2))
+      }
+    } catch (error) {
+      failures++
+      console.log(`❌ ${testCase.name}`)
+      console.log(`   request failed: ${error.message}`)
+    }
+  }
+
+  console.log(`\n${ran - failures}/${ran} checks passed`)
+  process.exit(failures > 0 ? 1 : 0)
+}
+
+run()
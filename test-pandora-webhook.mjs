@@ -0,0 +1,122 @@
+#!/usr/bin/env node
+// Replay signed and forged Pandora callbacks against the pandora-webhook function
+// Run the function locally first:
+//   npx supabase functions serve pandora-webhook --no-verify-jwt --env-file supabase/.env.local
+// Then run with:
+//   PANDORA_WEBHOOK_SECRET=... node test-pandora-webhook.mjs [transaction_ref]
+// (use MOCK_PAYMENT_WEBHOOK_SECRET instead when the function runs with PAYMENT_PROVIDER=mock)
+
+import { createHmac } from 'crypto'
+
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:54321/functions/v1/pandora-webhook'
+const WEBHOOK_SECRET = process.env.PANDORA_WEBHOOK_SECRET || process.env.MOCK_PAYMENT_WEBHOOK_SECRET
+
+// Use a real pending reference to watch a booking get confirmed; the default is unknown to the database
+const TRANSACTION_REF = process.argv[2] || `BLUEOXTEST${Date.now()}`
+
+if (!WEBHOOK_SECRET) {
+  console.error('❌ Error: PANDORA_WEBHOOK_SECRET (or MOCK_PAYMENT_WEBHOOK_SECRET) environment variable not set')
+  console.error('Use the same secret the local function was started with.')
+  process.exit(1)
+}
+
+function sign(body, secret = WEBHOOK_SECRET) {
+  return createHmac('sha256', secret).update(body).digest('hex')
+}
+
+function buildBody(overrides = {}) {
+  return JSON.stringify({
+    transaction_ref: TRANSACTION_REF,
+    status: 'completed',
+    amount: '5000',
+    contact: '256770000000',
+    network: 'MTN',
+    timestamp: Math.floor(Date.now() / 1000),
+    ...overrides,
+  })
+}
+
+async function post(body, signature) {
+  const headers = { 'Content-Type': 'application/json' }
+  if (signature) headers['X-Pandora-Signature'] = signature
+
+  const response = await fetch(WEBHOOK_URL, { method: 'POST', headers, body })
+  const text = await response.text()
+  let json
+  try {
+    json = JSON.parse(text)
+  } catch {
+    json = { raw: text }
+  }
+  return { status: response.status, body: json }
+}
+
+const validBody = buildBody()
+const validSignature = sign(validBody)
+
+const cases = [
+  {
+    name: 'Valid signature is accepted',
+    run: () => post(validBody, validSignature),
+    expect: (r) => r.status === 200 && r.body.error === undefined,
+  },
+  {
+    name: 'Replaying the same signed payload is rejected',
+    run: () => post(validBody, validSignature),
+    expect: (r) => r.status === 200 && r.body.error === 'replayed_signature',
+  },
+  {
+    name: 'Missing signature is rejected',
+    run: () => post(buildBody({ timestamp: Math.floor(Date.now() / 1000) + 1 })),
+    expect: (r) => r.status === 401 && r.body.error === 'missing_signature',
+  },
+  {
+    name: 'Signature made with the wrong secret is rejected',
+    run: () => {
+      const body = buildBody({ timestamp: Math.floor(Date.now() / 1000) + 2 })
+      return post(body, sign(body, 'not-the-real-secret'))
+    },
+    expect: (r) => r.status === 401 && r.body.error === 'invalid_signature',
+  },
+  {
+    name: 'Tampered body with the original signature is rejected',
+    run: () => post(validBody.replace('"amount":"5000"', '"amount":"1"'), validSignature),
+    expect: (r) => r.status === 401 && r.body.error === 'invalid_signature',
+  },
+  {
+    name: 'Correctly signed but stale timestamp is rejected',
+    run: () => {
+      const body = buildBody({ timestamp: Math.floor(Date.now() / 1000) - 60 * 60 })
+      return post(body, sign(body))
+    },
+    expect: (r) => r.status === 401 && r.body.error === 'stale_timestamp',
+  },
+]
+
+async function run() {
+  console.log(`🔁 Replaying Pandora callbacks against ${WEBHOOK_URL}`)
+  console.log(`   transaction_ref: ${TRANSACTION_REF}\n`)
+
+  let failures = 0
+  for (const testCase of cases) {
+    try {
+      const result = await testCase.run()
+      if (testCase.expect(result)) {
+        console.log(`✅ ${testCase.name}`)
+      } else {
+        failures++
+        console.log(`❌ ${testCase.name}`)
+        console.log(`   got HTTP ${result.status}:`, result.body)
+      }
+    } catch (error) {
+      failures++
+      console.log(`❌ ${testCase.name}`)
+      console.log(`   request failed: ${error.message}`)
+    }
+  }
+
+  console.log(`\n${cases.length - failures}/${cases.length} checks passed`)
+  process.exit(failures > 0 ? 1 : 0)
+}
+
+run()
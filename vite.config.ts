@@ -58,6 +58,8 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Modules shared with the Edge Functions
+      '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
     },
   },
   build: {